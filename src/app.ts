@@ -0,0 +1,213 @@
+import Fastify from 'fastify';
+import cors from '@fastify/cors';
+import rateLimit from '@fastify/rate-limit';
+import { v4 as uuidv4 } from 'uuid';
+
+import { subscribeRoutes } from './routes/subscribe.js';
+import { clickbankRoutes } from './routes/clickbank.js';
+import { keapWebhookRoutes, replayKeapHookEvent } from './routes/keap-webhook.js';
+import { productInfoRoutes } from './routes/product-info.js';
+import { metaQueueAdminRoutes } from './routes/meta-queue-admin.js';
+import { jobRoutes } from './routes/jobs.js';
+import { keapClient } from './services/keap.js';
+import { checkKeapHooks, getLastKeapHookRepair } from './services/keapHookMonitor.js';
+import { openKeapHookHandshake } from './services/keapHookSecrets.js';
+import { logger } from './utils/logger.js';
+import { adminAuth } from './utils/adminAuth.js';
+
+const NODE_ENV = process.env.NODE_ENV || 'development';
+
+/**
+ * Build the Fastify app with all routes registered but not listening.
+ * Used by the server entry point and by the test suite (via fastify.inject).
+ */
+export async function buildApp() {
+  const fastify = Fastify({
+    logger: false, // We use our own pino logger
+    genReqId: () => uuidv4(),
+  });
+
+  // CORS configuration
+  const corsOrigins = process.env.CORS_ORIGINS?.split(',').map((origin) => origin.trim()) || [];
+
+  await fastify.register(cors, {
+    origin: NODE_ENV === 'development' ? true : corsOrigins,
+    methods: ['GET', 'POST', 'OPTIONS'],
+    allowedHeaders: ['Content-Type', 'Authorization', 'X-API-Key', 'X-Webhook-Secret'],
+    credentials: true,
+  });
+
+  // Rate limiting for subscribe endpoint
+  await fastify.register(rateLimit, {
+    max: 10,
+    timeWindow: '1 minute',
+    keyGenerator: (request) => {
+      const forwardedFor = request.headers['x-forwarded-for'];
+      const ip = Array.isArray(forwardedFor)
+        ? forwardedFor[0]
+        : forwardedFor?.split(',')[0]?.trim() || request.ip;
+      return ip;
+    },
+    skipOnError: true,
+    // Only apply rate limiting to /subscribe
+    allowList: (request) => {
+      return !request.url.startsWith('/subscribe');
+    },
+  });
+
+  // Request logging hook
+  fastify.addHook('onRequest', async (request) => {
+    logger.info(
+      {
+        requestId: request.id,
+        method: request.method,
+        url: request.url,
+        ip: request.ip,
+      },
+      'Incoming request'
+    );
+  });
+
+  // Response logging hook
+  fastify.addHook('onResponse', async (request, reply) => {
+    logger.info(
+      {
+        requestId: request.id,
+        statusCode: reply.statusCode,
+        responseTime: reply.elapsedTime,
+      },
+      'Request completed'
+    );
+  });
+
+  // Health check endpoint
+  fastify.get('/health', async () => {
+    return { status: 'ok', timestamp: new Date().toISOString() };
+  });
+
+  // Register routes
+  await fastify.register(subscribeRoutes);
+  await fastify.register(clickbankRoutes);
+  await fastify.register(keapWebhookRoutes);
+  await fastify.register(productInfoRoutes);
+
+  await fastify.register(metaQueueAdminRoutes);
+  await fastify.register(jobRoutes);
+
+  // Admin endpoints for managing Keap REST hooks
+  // All require an X-API-Key with the admin:hooks scope (config/apiKeys.ts)
+
+  const keapErrMsg = (err: unknown): string => {
+    const e = err as { response?: { data?: unknown; status?: number }; message?: string };
+    if (e.response?.data) return `Keap ${e.response.status}: ${JSON.stringify(e.response.data)}`;
+    return e.message || String(err);
+  };
+
+  fastify.get('/admin/keap-hooks', async (request, reply) => {
+    if (!adminAuth(request, reply, 'admin:hooks')) return;
+    try {
+      return reply.send(await keapClient.listHooks());
+    } catch (err) {
+      return reply.status(502).send({ error: keapErrMsg(err) });
+    }
+  });
+
+  fastify.post('/admin/create-hook', async (request, reply) => {
+    if (!adminAuth(request, reply, 'admin:hooks')) return;
+    try {
+      const { eventKey, hookUrl } = request.body as Record<string, string>;
+      await openKeapHookHandshake(hookUrl, request.id);
+      return reply.send(await keapClient.createHook(eventKey, hookUrl));
+    } catch (err) {
+      return reply.status(502).send({ error: keapErrMsg(err) });
+    }
+  });
+
+  fastify.delete('/admin/keap-hooks/:hookId', async (request, reply) => {
+    if (!adminAuth(request, reply, 'admin:hooks')) return;
+    try {
+      const { hookId } = request.params as Record<string, string>;
+      await keapClient.deleteHook(Number(hookId));
+      return reply.send({ deleted: true });
+    } catch (err) {
+      return reply.status(502).send({ error: keapErrMsg(err) });
+    }
+  });
+
+  fastify.post('/admin/verify-hook', async (request, reply) => {
+    if (!adminAuth(request, reply, 'admin:hooks')) return;
+    try {
+      const { hookKey } = request.body as Record<string, number>;
+      // Keap sends a new X-Hook-Secret to the hook's URL during verification
+      const hook = (await keapClient.listHooks()).find((h) => Number(h.key) === Number(hookKey));
+      if (hook) await openKeapHookHandshake(hook.hookUrl, request.id);
+      return reply.send(await keapClient.verifyHook(hookKey));
+    } catch (err) {
+      return reply.status(502).send({ error: keapErrMsg(err) });
+    }
+  });
+
+  // Required hooks (config/keapHooks.ts) side by side with what Keap has registered.
+  // Read-only; lastRepair is the monitor's most recent check.
+  fastify.get('/admin/keap-hooks/status', async (request, reply) => {
+    if (!adminAuth(request, reply, 'admin:hooks')) return;
+    try {
+      return reply.send({ ...(await checkKeapHooks(false)), lastRepair: getLastKeapHookRepair() });
+    } catch (err) {
+      return reply.status(502).send({ error: keapErrMsg(err) });
+    }
+  });
+
+  // Run the monitor's check now: recreate missing hooks, re-verify inactive ones
+  fastify.post('/admin/keap-hooks/check', async (request, reply) => {
+    if (!adminAuth(request, reply, 'admin:hooks')) return;
+    try {
+      return reply.send(await checkKeapHooks(true));
+    } catch (err) {
+      return reply.status(502).send({ error: keapErrMsg(err) });
+    }
+  });
+
+  // Re-run a persisted Keap hook delivery (keap_hook_events.event_id) through its handler
+  fastify.post('/admin/keap-hook-events/:eventId/replay', async (request, reply) => {
+    if (!adminAuth(request, reply, 'admin:hooks')) return;
+    const { eventId } = request.params as Record<string, string>;
+    const record = await replayKeapHookEvent(eventId, logger.child({ requestId: request.id }));
+    if (!record) {
+      return reply.status(404).send({ error: 'Keap hook event not found' });
+    }
+    return reply.send({ replayed: true, eventKey: record.event_key, objectCount: record.object_count });
+  });
+
+  // Error handler
+  fastify.setErrorHandler((error, request, reply) => {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    const errorStack = error instanceof Error ? error.stack : undefined;
+
+    logger.error(
+      {
+        requestId: request.id,
+        error: errorMessage,
+        stack: errorStack,
+      },
+      'Request error'
+    );
+
+    // Don't expose internal errors to clients
+    const errorObj = error as { statusCode?: number };
+    const statusCode = errorObj.statusCode ?? 500;
+    if (statusCode < 500) {
+      return reply.status(statusCode).send({
+        success: false,
+        error: errorMessage,
+      });
+    }
+
+    return reply.status(500).send({
+      success: false,
+      error: 'Internal server error',
+    });
+  });
+
+  return fastify;
+}
@@ -0,0 +1,100 @@
+import crypto from 'crypto';
+import type { ApiKeyConfig, ApiKeyScope } from '../types/index.js';
+
+/**
+ * API keys — who may call /subscribe, /admin/* and /jobs/*.
+ *
+ * Loaded once at startup from API_KEYS, a JSON array (keep it in Secret Manager):
+ *   [{ "name": "hryw-site", "key": "...", "scopes": ["subscribe:hryw"] },
+ *    { "name": "ops", "key": "...", "scopes": ["admin:hooks", "admin:queue"] },
+ *    { "name": "scheduler", "key": "...", "scopes": ["jobs:run"] }]
+ *
+ * Scopes:
+ * - subscribe:<brand>: POST /subscribe for that brand only (subscribe:* for any brand)
+ * - admin:hooks: Keap REST hook admin endpoints
+ * - admin:queue: Meta CAPI queue admin endpoints
+ * - jobs:run: POST /jobs/*
+ *
+ * The legacy SUBSCRIBE_API_KEY, embedded in every brand site, is still accepted
+ * as "legacy-subscribe" with subscribe:* only — it no longer opens admin endpoints.
+ */
+const FIXED_SCOPES: ApiKeyScope[] = ['admin:hooks', 'admin:queue', 'jobs:run'];
+
+interface ApiKeyEntry extends ApiKeyConfig {
+  digest: Buffer;
+}
+
+function digest(key: string): Buffer {
+  return crypto.createHash('sha256').update(key).digest();
+}
+
+function isScope(scope: unknown): scope is ApiKeyScope {
+  return (
+    typeof scope === 'string' &&
+    (FIXED_SCOPES.includes(scope as ApiKeyScope) || /^subscribe:(\*|[a-z0-9_-]+)$/.test(scope))
+  );
+}
+
+function loadApiKeys(): ApiKeyEntry[] {
+  const entries: ApiKeyEntry[] = [];
+
+  if (process.env.API_KEYS) {
+    let file: Array<{ name?: string; key?: string; scopes?: unknown[] }>;
+    try {
+      file = JSON.parse(process.env.API_KEYS);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to parse API_KEYS: ${message}`);
+    }
+    for (const entry of Array.isArray(file) ? file : []) {
+      const scopes = Array.isArray(entry.scopes)
+        ? entry.scopes.map((s) => String(s).toLowerCase())
+        : [];
+      // Never put the key itself in the error
+      if (!entry.name || !entry.key || scopes.length === 0 || !scopes.every(isScope)) {
+        throw new Error(`Invalid API_KEYS entry: ${entry.name || '(unnamed)'}`);
+      }
+      entries.push({ name: entry.name, scopes, digest: digest(entry.key) });
+    }
+  }
+
+  if (process.env.SUBSCRIBE_API_KEY) {
+    entries.push({
+      name: 'legacy-subscribe',
+      scopes: ['subscribe:*'],
+      digest: digest(process.env.SUBSCRIBE_API_KEY),
+    });
+  }
+  return entries;
+}
+
+const apiKeys: ApiKeyEntry[] = loadApiKeys();
+
+export function hasApiKeys(): boolean {
+  return apiKeys.length > 0;
+}
+
+/**
+ * Key matching a presented X-API-Key value. Compares SHA-256 digests with
+ * timingSafeEqual against every configured key, so timing reveals neither
+ * the key's length nor which entry (if any) matched.
+ */
+export function findApiKey(presented: string | undefined): ApiKeyConfig | null {
+  if (!presented) return null;
+  const presentedDigest = digest(presented);
+  let match: ApiKeyEntry | null = null;
+  for (const entry of apiKeys) {
+    if (crypto.timingSafeEqual(presentedDigest, entry.digest) && !match) match = entry;
+  }
+  return match ? { name: match.name, scopes: match.scopes } : null;
+}
+
+/**
+ * Whether a key grants a scope; subscribe:* grants subscribe for every brand.
+ */
+export function hasScope(key: ApiKeyConfig, scope: ApiKeyScope): boolean {
+  return (
+    key.scopes.includes(scope) ||
+    (scope.startsWith('subscribe:') && key.scopes.includes('subscribe:*'))
+  );
+}
@@ -1,55 +1,75 @@
+import fs from 'fs';
+import path from 'path';
 import type { BrandConfig } from '../types/index.js';
 
 /**
- * Brand configurations for all supported brands
+ * Brand registry — the single source of truth for which brands exist.
  *
- * Each brand has:
- * - brandCode: Unique identifier (lowercase)
- * - signupTagIds: Keap tag IDs to apply on newsletter signup
- * - customFieldPrefix: Prefix for brand-specific custom fields in Keap
+ * Loaded once at startup from a JSON file (default: config/brands.json,
+ * override with BRAND_REGISTRY_PATH). Each entry has:
+ * - code: Unique identifier (lowercase)
+ * - keapTagPrefix: Prefix of the brand's Keap tag names (e.g., HRYW → HRYW-WebSub)
+ * - gatewayPrefix: Prefix of the brand's Keap payment gateway name (e.g., HRYW → HRYW-Auth.net)
+ * - pixelId: Meta pixel ID (META_PIXEL_ID_{CODE} env var takes precedence)
+ * - clickbankVendors: ClickBank vendor nicknames that sell this brand's products
+ * - signupTags: Keap tag names applied on newsletter signup when the form sends none
+ * - customFieldSuffix: Suffix of brand-specific Keap custom fields (e.g., DP_SOURCE_ID_HRYW)
  * - defaultRedirect: Default redirect path after signup
+ * - keapProducts: Keap product IDs of the brand's subscriptions → product code
+ *   (e.g., { "42": "hth" } drives HRYW_HTH_START_DATE / HRYW_HTH_CANCEL_DATE)
  *
- * Tag IDs are configured via environment variables:
- * - CHKH_SIGNUP_TAG_IDS=123,456
- * - HRYW_SIGNUP_TAG_IDS=789
- * - GKH_SIGNUP_TAG_IDS=101,102
- * - FLO_SIGNUP_TAG_IDS=201
+ * Launching a brand means adding an entry to the file — no code changes.
  */
-const brandsConfig: Record<string, BrandConfig> = {
-  chkh: {
-    brandCode: 'chkh',
-    signupTagIds: parseTagIds(process.env.CHKH_SIGNUP_TAG_IDS || ''),
-    customFieldPrefix: 'CHKH',
-    defaultRedirect: '/catalog/ebook',
-  },
-  hryw: {
-    brandCode: 'hryw',
-    signupTagIds: parseTagIds(process.env.HRYW_SIGNUP_TAG_IDS || ''),
-    customFieldPrefix: 'HRYW',
-    defaultRedirect: '/catalog/ebook',
-  },
-  gkh: {
-    brandCode: 'gkh',
-    signupTagIds: parseTagIds(process.env.GKH_SIGNUP_TAG_IDS || ''),
-    customFieldPrefix: 'GKH',
-    defaultRedirect: '/catalog/ebook',
-  },
-  flo: {
-    brandCode: 'flo',
-    signupTagIds: parseTagIds(process.env.FLO_SIGNUP_TAG_IDS || ''),
-    customFieldPrefix: 'FLO',
-    defaultRedirect: '/catalog/ebook',
-  },
-};
+const REGISTRY_PATH = path.resolve(process.env.BRAND_REGISTRY_PATH || 'config/brands.json');
 
-function parseTagIds(tagIdsString: string): number[] {
-  if (!tagIdsString) return [];
-  return tagIdsString
-    .split(',')
-    .map((id) => parseInt(id.trim(), 10))
-    .filter((id) => !isNaN(id));
+interface BrandRegistryFile {
+  brands: Array<{
+    code: string;
+    keapTagPrefix: string;
+    gatewayPrefix: string;
+    pixelId?: string | null;
+    clickbankVendors?: string[];
+    signupTags?: string[];
+    customFieldSuffix: string;
+    defaultRedirect?: string;
+    keapProducts?: Record<string, string>;
+  }>;
 }
 
+function loadBrands(filePath: string): Record<string, BrandConfig> {
+  let file: BrandRegistryFile;
+  try {
+    file = JSON.parse(fs.readFileSync(filePath, 'utf8')) as BrandRegistryFile;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to load brand registry from ${filePath}: ${message}`);
+  }
+
+  const brands: Record<string, BrandConfig> = {};
+  for (const entry of file.brands || []) {
+    if (!entry.code || !entry.keapTagPrefix || !entry.gatewayPrefix || !entry.customFieldSuffix) {
+      throw new Error(`Invalid brand registry entry in ${filePath}: ${JSON.stringify(entry)}`);
+    }
+    const code = entry.code.toLowerCase();
+    brands[code] = {
+      brandCode: code,
+      keapTagPrefix: entry.keapTagPrefix.toUpperCase(),
+      gatewayPrefix: entry.gatewayPrefix.toUpperCase(),
+      pixelId: process.env[`META_PIXEL_ID_${code.toUpperCase()}`] || entry.pixelId || null,
+      clickbankVendors: (entry.clickbankVendors || []).map((v) => v.toLowerCase()),
+      signupTags: entry.signupTags || [],
+      customFieldSuffix: entry.customFieldSuffix.toUpperCase(),
+      defaultRedirect: entry.defaultRedirect || '/',
+      keapProducts: Object.fromEntries(
+        Object.entries(entry.keapProducts || {}).map(([id, product]) => [id, product.toLowerCase()])
+      ),
+    };
+  }
+  return brands;
+}
+
+const brandsConfig: Record<string, BrandConfig> = loadBrands(REGISTRY_PATH);
+
 export function getBrandConfig(brandCode: string): BrandConfig | null {
   const normalizedCode = brandCode.toLowerCase();
   return brandsConfig[normalizedCode] || null;
@@ -63,4 +83,47 @@ export function addBrand(config: BrandConfig): void {
   brandsConfig[config.brandCode.toLowerCase()] = config;
 }
 
+/**
+ * Brand owning a Keap tag name, matched by prefix (e.g., "HRYW-WebSub" or "HRYW").
+ */
+export function getBrandByTagName(tagName: string): BrandConfig | null {
+  const upper = tagName.toUpperCase();
+  return (
+    Object.values(brandsConfig).find(
+      (b) => upper === b.keapTagPrefix || upper.startsWith(b.keapTagPrefix + '-')
+    ) || null
+  );
+}
+
+/**
+ * Brand owning a Keap payment gateway, matched by prefix of gateway_account_name
+ * (e.g., "HRYW-Auth.net").
+ */
+export function getBrandByGatewayName(gatewayName: string): BrandConfig | null {
+  const upper = gatewayName.toUpperCase();
+  return Object.values(brandsConfig).find((b) => upper.startsWith(b.gatewayPrefix)) || null;
+}
+
+/**
+ * Brand that owns a ClickBank vendor account, by vendor nickname.
+ */
+export function getBrandByClickbankVendor(vendor: string): BrandConfig | null {
+  const lower = vendor.toLowerCase();
+  return Object.values(brandsConfig).find((b) => b.clickbankVendors.includes(lower)) || null;
+}
+
+/**
+ * Brand and product code for a Keap product ID, from the brands' keapProducts.
+ */
+export function getBrandByKeapProduct(
+  productId: number | string
+): { brand: BrandConfig; productCode: string } | null {
+  const key = String(productId);
+  for (const brand of Object.values(brandsConfig)) {
+    const productCode = brand.keapProducts[key];
+    if (productCode) return { brand, productCode };
+  }
+  return null;
+}
+
 export default brandsConfig;
@@ -1,3 +1,5 @@
+import { getAllBrands, getBrandConfig } from './brands.js';
+
 /**
  * Keap Custom Field Definitions
  *
@@ -125,6 +127,21 @@ export const CUSTOMER_SUBSCRIPTION_FIELDS = {
   },
 } as const;
 
+/**
+ * Start/cancel field names for a brand's subscription product, or null if the
+ * product has no fields defined above.
+ */
+export function getSubscriptionFields(
+  brandCode: string,
+  productCode: string
+): { start: string; cancel: string } | null {
+  const brandProducts = (CUSTOMER_SUBSCRIPTION_FIELDS as Record<
+    string,
+    Record<string, { start: string; cancel: string }>
+  >)[brandCode.toLowerCase()];
+  return brandProducts?.[productCode.toLowerCase()] || null;
+}
+
 /**
  * Customer Purchase Date Fields
  *
@@ -144,6 +161,22 @@ export const CUSTOMER_PURCHASE_DATE_FIELDS = {
   },
 } as const;
 
+/**
+ * Purchase date field names to maintain for a sale: the shared pair, plus the
+ * brand's pair when the brand is known.
+ */
+export function getPurchaseDateFields(brandCode: string | null): { first: string[]; last: string[] } {
+  const { shared, brandSpecific } = CUSTOMER_PURCHASE_DATE_FIELDS;
+  const first: string[] = [shared.firstPurchaseDate];
+  const last: string[] = [shared.lastPurchaseDate];
+  const suffix = brandCode ? getBrandConfig(brandCode)?.customFieldSuffix : null;
+  if (suffix) {
+    first.push(`${brandSpecific.firstPurchaseDate}_${suffix}`);
+    last.push(`${brandSpecific.lastPurchaseDate}_${suffix}`);
+  }
+  return { first, last };
+}
+
 // ============================================
 // STANDARD CONTACT FIELDS (Built into Keap)
 // ============================================
@@ -185,13 +218,6 @@ export const STANDARD_CONTACT_FIELDS = {
   timeZone: 'time_zone',
 } as const;
 
-// ============================================
-// SUPPORTED BRANDS
-// ============================================
-
-export const SUPPORTED_BRANDS = ['chkh', 'hryw', 'gkh', 'flo'] as const;
-export type SupportedBrand = (typeof SUPPORTED_BRANDS)[number];
-
 // ============================================
 // FIELD ID CONFIGURATION
 // ============================================
@@ -232,8 +258,8 @@ export function getKeapFieldIds(): KeapFieldIds {
     brandFields: {},
   };
 
-  for (const brand of SUPPORTED_BRANDS) {
-    const prefix = `KEAP_FIELD_${brand.toUpperCase()}`;
+  for (const brand of getAllBrands()) {
+    const prefix = `KEAP_FIELD_${getBrandConfig(brand)!.customFieldSuffix}`;
     fieldIds.brandFields[brand] = {
       sourceId: parseFieldId(`${prefix}_SOURCE_ID`),
       subscriberIdEncoded: parseFieldId(`${prefix}_SUBSCRIBER_ID_ENCODED`),
@@ -0,0 +1,28 @@
+/**
+ * Keap REST hooks this service depends on. The hook monitor
+ * (services/keapHookMonitor.ts) keeps each one registered and verified at
+ * KEAP_HOOK_BASE_URL + path.
+ *
+ * invoice.payment.add stays on the original URL (hook key 169) so the monitor
+ * doesn't register a second hook for it.
+ */
+export const REQUIRED_KEAP_HOOKS: Array<{ eventKey: string; path: string }> = [
+  { eventKey: 'invoice.payment.add', path: '/webhooks/keap/invoice-payment' },
+  { eventKey: 'subscription.add', path: '/webhooks/keap/subscription.add' },
+  { eventKey: 'subscription.edit', path: '/webhooks/keap/subscription.edit' },
+  { eventKey: 'subscription.delete', path: '/webhooks/keap/subscription.delete' },
+  { eventKey: 'order.add', path: '/webhooks/keap/order.add' },
+];
+
+/**
+ * Required hooks with absolute URLs. Empty when KEAP_HOOK_BASE_URL (the
+ * service's public URL, e.g. https://amare-api-….run.app) is not set.
+ */
+export function getRequiredKeapHooks(): Array<{ eventKey: string; hookUrl: string }> {
+  const baseUrl = process.env.KEAP_HOOK_BASE_URL?.replace(/\/+$/, '');
+  if (!baseUrl) return [];
+  return REQUIRED_KEAP_HOOKS.map(({ eventKey, path }) => ({
+    eventKey,
+    hookUrl: `${baseUrl}${path}`,
+  }));
+}
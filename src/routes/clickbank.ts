@@ -10,10 +10,26 @@ import {
   extractFirstName,
   extractLastName,
   extractProductId,
+  extractLineItems,
+  verifyLegacyIpn,
 } from '../services/clickbank.js';
 import { keapClient } from '../services/keap.js';
-import { bigQueryClient } from '../services/bigquery.js';
-import type { ClickbankIpnDecrypted, ClickbankTransaction } from '../types/index.js';
+import { storage } from '../services/storage.js';
+import { metaCAPIClient } from '../services/meta.js';
+import { sendMetaWithQueue, sendMetaRefund } from '../services/metaQueue.js';
+import { syncPurchaseDates } from '../services/purchaseDates.js';
+import { acquireLeases, releaseLeases } from '../services/leases.js';
+import { getBrandByClickbankVendor } from '../config/brands.js';
+import type {
+  ClickbankIntakeClaim,
+  ClickbankIpnDecrypted,
+  ClickbankLineItem,
+  ClickbankLineItemResult,
+  ClickbankTransaction,
+  MetaCAPIEvent,
+  MetaQueueMetadata,
+  TagAction,
+} from '../types/index.js';
 import { logger } from '../utils/logger.js';
 
 interface LegacyIpnBody {
@@ -27,6 +43,7 @@ interface LegacyIpnBody {
   ctransamount?: string;
   caffitid?: string;
   ctranstime?: string;
+  cverify?: string;
   [key: string]: unknown;
 }
 
@@ -35,10 +52,48 @@ const SALE_TYPES = ['SALE', 'REBILL', 'TEST_SALE'];
 const REFUND_TYPES = ['RFND', 'CGBK', 'INSF', 'TEST_RFND'];
 const PROCESSABLE_TYPES = [...SALE_TYPES, ...REFUND_TYPES];
 
+// Transaction types that count as a purchase for FIRST_/LAST_PURCHASE_DATE
+const PURCHASE_DATE_TYPES = ['SALE', 'REBILL'];
+
+// Refund types reported to Meta against the original Purchase
+const META_REFUND_TYPES = ['RFND', 'CGBK'];
+
 // Transaction types to skip (log only, no tag changes)
 const SKIP_TYPES = ['CANCEL-REBILL', 'UNCANCEL-REBILL'];
 
+// Retry queued transactions after each IPN. Off when IN_PROCESS_WORKERS=false,
+// where a scheduler calls POST /jobs/clickbank-retry instead.
+const RETRY_AFTER_IPN = process.env.IN_PROCESS_WORKERS !== 'false';
+
+// When a refund-type IPN has no explicit remove_tag rows for a product, remove the
+// tags that product's SALE applies (CustomerHub access etc.). Set to 'false' to disable.
+const AUTO_REVERSE_REFUNDS = process.env.CLICKBANK_AUTO_REVERSE_REFUNDS !== 'false';
+
+// Brand recorded for IPNs from vendor accounts missing from the brand registry
+const UNKNOWN_BRAND = 'unknown';
+
+/**
+ * Map the IPN's vendor nickname to a brand via the brand registry.
+ * Unmapped vendors are flagged and recorded as brand 'unknown'.
+ */
+function resolveBrand(vendor: string, reqLogger: Logger): string {
+  const brandConfig = getBrandByClickbankVendor(vendor);
+  if (brandConfig) return brandConfig.brandCode;
+
+  reqLogger.warn({ vendor }, 'ClickBank vendor not in brand registry — recording brand as unknown');
+  return UNKNOWN_BRAND;
+}
+
 export async function clickbankRoutes(fastify: FastifyInstance) {
+  // Legacy IPNs are form-encoded POSTs
+  fastify.addContentTypeParser(
+    'application/x-www-form-urlencoded',
+    { parseAs: 'string' },
+    (_request, body, done) => {
+      done(null, Object.fromEntries(new URLSearchParams(body as string)));
+    }
+  );
+
   // GET handler for ClickBank URL validation test
   fastify.get('/ipn/clickbank', async (_request: FastifyRequest, reply: FastifyReply) => {
     return reply.status(200).send('OK');
@@ -56,6 +111,7 @@ export async function clickbankRoutes(fastify: FastifyInstance) {
 
     let ipnData: ClickbankIpnDecrypted | null = null;
     let isEncrypted = false;
+    let decryptionKeyId: string | null = null;
     let rawRequestBody: string | null = null;
 
     try {
@@ -64,14 +120,16 @@ export async function clickbankRoutes(fastify: FastifyInstance) {
       // Capture raw body for error logging
       try {
         rawRequestBody = JSON.stringify(body);
-      } catch (e) {
+      } catch {
         rawRequestBody = String(body);
       }
 
       // Check if this is encrypted v6.0+ format
       if (isEncryptedFormat(body)) {
         isEncrypted = true;
-        ipnData = decryptClickbankNotification(body);
+        const decrypted = decryptClickbankNotification(body);
+        ipnData = decrypted.ipnData;
+        decryptionKeyId = decrypted.keyId;
 
         if (!ipnData) {
           // Log decryption failure
@@ -79,6 +137,7 @@ export async function clickbankRoutes(fastify: FastifyInstance) {
             receipt: '',
             transactionType: 'UNKNOWN',
             brand: '',
+            vendor: '',
             email: '',
             productId: '',
             rawPayload: JSON.stringify(body),
@@ -87,15 +146,44 @@ export async function clickbankRoutes(fastify: FastifyInstance) {
             sourceIp,
             userAgent,
             processingStatus: 'DECRYPTION_FAILED',
-            errorMessage: 'Failed to decrypt notification',
+            errorMessage: decrypted.error,
             now,
           });
-          await bigQueryClient.logTransaction(transaction);
+          await storage.logTransaction(transaction);
           return reply.status(200).send('OK');
         }
       } else {
-        // Legacy form format
-        const legacyBody = body as LegacyIpnBody;
+        // Legacy form format — only trusted if its cverify signature checks out
+        const legacyBody = (body || {}) as LegacyIpnBody;
+        const verification = verifyLegacyIpn(legacyBody);
+
+        if (!verification.valid) {
+          const vendor = legacyBody.cvendor?.toLowerCase() || '';
+          reqLogger.warn(
+            { receipt: legacyBody.ctransreceipt, vendor, sourceIp, error: verification.error },
+            'Legacy ClickBank IPN failed signature verification — not processing'
+          );
+          const transaction = createTransaction({
+            receipt: legacyBody.ctransreceipt || '',
+            transactionType: legacyBody.ctransaction || 'UNKNOWN',
+            brand: vendor ? resolveBrand(vendor, reqLogger) : '',
+            vendor,
+            email: legacyBody.ccustemail || '',
+            productId: legacyBody.cproditem || '',
+            rawPayload: rawRequestBody,
+            isTest: false,
+            isEncrypted: false,
+            sourceIp,
+            userAgent,
+            processingStatus: 'SIGNATURE_INVALID',
+            errorMessage: verification.error,
+            now,
+          });
+          await storage.logTransaction(transaction);
+          return reply.status(200).send('OK');
+        }
+
+        decryptionKeyId = verification.keyId;
         ipnData = {
           transactionType: legacyBody.ctransaction || '',
           vendor: legacyBody.cvendor || '',
@@ -115,15 +203,17 @@ export async function clickbankRoutes(fastify: FastifyInstance) {
       // Extract transaction details
       const transactionType = ipnData.transactionType;
       const vendor = ipnData.vendor?.toLowerCase() || '';
+      const brand = resolveBrand(vendor, reqLogger);
       const receipt = ipnData.receipt;
       const email = extractEmail(ipnData);
       const firstName = extractFirstName(ipnData);
       const lastName = extractLastName(ipnData);
       const productId = extractProductId(ipnData);
+      const lineItemCount = extractLineItems(ipnData).length;
       const isTest = isTestTransaction(transactionType);
 
       reqLogger.info(
-        { receipt, transactionType, vendor, productId, email, isEncrypted, isTest },
+        { receipt, transactionType, vendor, brand, productId, lineItemCount, email, isEncrypted, isTest },
         'ClickBank IPN received'
       );
 
@@ -132,12 +222,14 @@ export async function clickbankRoutes(fastify: FastifyInstance) {
         const transaction = createTransaction({
           receipt,
           transactionType,
-          brand: vendor,
+          brand,
+          vendor,
           email,
           productId,
           rawPayload: JSON.stringify(ipnData),
           isTest: true,
           isEncrypted,
+          decryptionKeyId,
           sourceIp,
           userAgent,
           processingStatus: 'TEST',
@@ -145,7 +237,7 @@ export async function clickbankRoutes(fastify: FastifyInstance) {
           now,
           isProcessed: true,
         });
-        await bigQueryClient.logTransaction(transaction);
+        await storage.logTransaction(transaction);
         return reply.status(200).send('OK');
       }
 
@@ -154,19 +246,21 @@ export async function clickbankRoutes(fastify: FastifyInstance) {
         const transaction = createTransaction({
           receipt: receipt || '',
           transactionType: transactionType || 'UNKNOWN',
-          brand: vendor,
+          brand,
+          vendor,
           email,
           productId,
           rawPayload: JSON.stringify(ipnData),
           isTest,
           isEncrypted,
+          decryptionKeyId,
           sourceIp,
           userAgent,
           processingStatus: 'VALIDATION_FAILED',
           errorMessage: 'Missing required fields',
           now,
         });
-        await bigQueryClient.logTransaction(transaction);
+        await storage.logTransaction(transaction);
         return reply.status(200).send('OK');
       }
 
@@ -175,7 +269,8 @@ export async function clickbankRoutes(fastify: FastifyInstance) {
         id: uuidv4(),
         receipt,
         transaction_type: transactionType,
-        brand: vendor,
+        brand,
+        vendor,
         email,
         first_name: firstName || null,
         last_name: lastName || null,
@@ -187,6 +282,7 @@ export async function clickbankRoutes(fastify: FastifyInstance) {
         raw_payload: JSON.stringify(ipnData),
         is_test: isTest,
         is_encrypted: isEncrypted,
+        decryption_key_id: decryptionKeyId,
         source_ip: sourceIp,
         user_agent: userAgent,
         is_processed: false,
@@ -207,7 +303,7 @@ export async function clickbankRoutes(fastify: FastifyInstance) {
           transaction.processed_at = now;
           transaction.processing_status = 'FAILED';
           transaction.error_message = 'No email in IPN data';
-          await bigQueryClient.logTransaction(transaction);
+          await storage.logTransaction(transaction);
           return reply.status(200).send('OK');
         }
 
@@ -217,51 +313,91 @@ export async function clickbankRoutes(fastify: FastifyInstance) {
           transaction.processed_at = now;
           transaction.processing_status = 'FAILED';
           transaction.error_message = 'No product ID in IPN data';
-          await bigQueryClient.logTransaction(transaction);
+          await storage.logTransaction(transaction);
           return reply.status(200).send('OK');
         }
 
-        // Queue transaction first (never lose data)
-        await bigQueryClient.logTransaction(transaction);
+        // ClickBank redelivers IPNs it thinks we missed; a receipt + type + line
+        // items seen before is logged as DUPLICATE without re-running side effects
+        const duplicateOf = await storage.claimClickbankIntake(intakeClaims(transaction));
+        if (duplicateOf) {
+          transaction.is_processed = true;
+          transaction.processed_at = now;
+          transaction.processing_status = 'DUPLICATE';
+          transaction.error_message = `Duplicate of transaction ${duplicateOf}`;
+          await storage.logTransaction(transaction);
+          reqLogger.info({ receipt, transactionType, duplicateOf }, 'Duplicate ClickBank IPN — skipping');
+          return reply.status(200).send('OK');
+        }
+
+        // Queue transaction first (never lose data). If it can't be stored, give
+        // the intake claim back so ClickBank's redelivery isn't taken for a duplicate
+        try {
+          await storage.logTransaction(transaction);
+        } catch (err) {
+          await storage.releaseClickbankIntake(intakeClaims(transaction));
+          throw err;
+        }
         reqLogger.info({ transactionId: transaction.id, receipt }, 'Transaction queued');
 
-        // Attempt to process immediately
-        await processQueuedTransaction(reqLogger, transaction);
+        // Attempt to process immediately, unless a retry pass elsewhere already leased it
+        const contactId = (await processLeasedTransaction(reqLogger, transaction))?.contactId ?? null;
+
+        // Report new sales (incl. upsells, which arrive as their own SALE) to Meta CAPI
+        if (transactionType === 'SALE') {
+          sendPurchaseEvent(reqLogger, transaction, ipnData, contactId).catch((err) => {
+            reqLogger.error({ err, receipt }, 'Failed to queue ClickBank Purchase CAPI event');
+          });
+        } else if (META_REFUND_TYPES.includes(transactionType)) {
+          sendMetaRefund({
+            orderId: receipt,
+            eventId: `clickbank_${transactionType.toLowerCase()}_${receipt}`,
+            refundType: transactionType,
+            amount: transaction.amount,
+            currency: transaction.currency,
+          }).catch((err) => {
+            reqLogger.error({ err, receipt, transactionType }, 'Failed to queue ClickBank Refund CAPI event');
+          });
+        }
       } else if (SKIP_TYPES.includes(transactionType)) {
         transaction.is_processed = true;
         transaction.processed_at = now;
         transaction.processing_status = 'SKIPPED';
-        await bigQueryClient.logTransaction(transaction);
+        await storage.logTransaction(transaction);
         reqLogger.info({ receipt, transactionType }, 'Transaction type skipped');
       } else {
         transaction.is_processed = true;
         transaction.processed_at = now;
         transaction.processing_status = 'FAILED';
         transaction.error_message = `Unknown transaction type: ${transactionType}`;
-        await bigQueryClient.logTransaction(transaction);
+        await storage.logTransaction(transaction);
         reqLogger.warn({ transactionType }, 'Unknown transaction type');
       }
 
       // After processing current IPN, try to retry any failed transactions
-      retryFailedTransactions(reqLogger).catch((err) => {
-        reqLogger.error({ error: err }, 'Failed to retry transactions');
-      });
+      if (RETRY_AFTER_IPN) {
+        retryFailedTransactions(reqLogger).catch((err) => {
+          reqLogger.error({ error: err }, 'Failed to retry transactions');
+        });
+      }
 
       return reply.status(200).send('OK');
     } catch (error) {
       reqLogger.error({ error }, 'ClickBank IPN processing error');
 
-      // Always log to BigQuery even on catastrophic failures
+      // Always log to storage even on catastrophic failures
       // Use raw request body if ipnData parsing failed
       const transaction = createTransaction({
         receipt: ipnData?.receipt || '',
         transactionType: ipnData?.transactionType || 'UNKNOWN',
-        brand: ipnData?.vendor?.toLowerCase() || '',
+        brand: ipnData?.vendor ? getBrandByClickbankVendor(ipnData.vendor)?.brandCode || UNKNOWN_BRAND : '',
+        vendor: ipnData?.vendor?.toLowerCase() || '',
         email: ipnData ? extractEmail(ipnData) : '',
         productId: ipnData ? extractProductId(ipnData) : '',
         rawPayload: rawRequestBody || (ipnData ? JSON.stringify(ipnData) : null),
         isTest: ipnData ? isTestTransaction(ipnData.transactionType) : false,
         isEncrypted,
+        decryptionKeyId,
         sourceIp,
         userAgent,
         processingStatus: 'FAILED',
@@ -270,16 +406,16 @@ export async function clickbankRoutes(fastify: FastifyInstance) {
       });
 
       try {
-        await bigQueryClient.logTransaction(transaction);
+        await storage.logTransaction(transaction);
       } catch (bqError) {
-        // If even BigQuery logging fails, log to console/CloudWatch
+        // If even storage logging fails, log to console/CloudWatch
         reqLogger.error(
           {
             originalError: error,
             bigQueryError: bqError,
             transaction
           },
-          'Failed to log error transaction to BigQuery'
+          'Failed to log error transaction to storage'
         );
       }
 
@@ -295,11 +431,13 @@ function createTransaction(opts: {
   receipt: string;
   transactionType: string;
   brand: string;
+  vendor: string;
   email: string;
   productId: string;
   rawPayload: string | null;
   isTest: boolean;
   isEncrypted: boolean;
+  decryptionKeyId?: string | null;
   sourceIp: string;
   userAgent: string | null;
   processingStatus: ClickbankTransaction['processing_status'];
@@ -312,6 +450,7 @@ function createTransaction(opts: {
     receipt: opts.receipt,
     transaction_type: opts.transactionType,
     brand: opts.brand,
+    vendor: opts.vendor,
     email: opts.email,
     first_name: null,
     last_name: null,
@@ -323,6 +462,7 @@ function createTransaction(opts: {
     raw_payload: opts.rawPayload,
     is_test: opts.isTest,
     is_encrypted: opts.isEncrypted,
+    decryption_key_id: opts.decryptionKeyId ?? null,
     source_ip: opts.sourceIp,
     user_agent: opts.userAgent,
     is_processed: opts.isProcessed ?? true,
@@ -336,28 +476,69 @@ function createTransaction(opts: {
   };
 }
 
+/**
+ * Recover the line items for a queued transaction from its stored IPN payload.
+ * Falls back to the transaction's own product_id/amount when the payload is
+ * missing or unparseable (e.g., rows logged before line item support).
+ */
+function getTransactionLineItems(transaction: ClickbankTransaction): ClickbankLineItem[] {
+  if (transaction.raw_payload) {
+    try {
+      const lineItems = extractLineItems(JSON.parse(transaction.raw_payload) as ClickbankIpnDecrypted);
+      if (lineItems.length > 0) return lineItems;
+    } catch {
+      // Fall through to single product
+    }
+  }
+
+  return [
+    {
+      index: 0,
+      productId: transaction.product_id,
+      productTitle: null,
+      amount: transaction.amount,
+    },
+  ];
+}
+
+/**
+ * One intake claim per line item, keyed on receipt, transaction type and line item.
+ */
+function intakeClaims(transaction: ClickbankTransaction): ClickbankIntakeClaim[] {
+  return getTransactionLineItems(transaction).map((item) => ({
+    intake_key: [transaction.receipt, transaction.transaction_type, item.index, item.productId].join('|'),
+    receipt: transaction.receipt,
+    transaction_type: transaction.transaction_type,
+    line_item_index: item.index,
+    product_id: item.productId,
+    transaction_id: transaction.id,
+    delivery_count: 1,
+    created_at: transaction.created_at,
+    last_seen_at: transaction.created_at,
+  }));
+}
+
 /**
  * Process a queued transaction (used for both new and retry)
+ *
+ * Fans out over every line item in the IPN (main product, order bumps, upsells),
+ * applying each product's own tag actions. A failing line item does not stop the
+ * others; its error is recorded per item and rolled up into the transaction result.
  */
 async function processQueuedTransaction(
   reqLogger: Logger,
   transaction: ClickbankTransaction
-): Promise<void> {
-  const { id, receipt, email, first_name, last_name, product_id, transaction_type } = transaction;
+): Promise<number | null> {
+  const { id, receipt, email, first_name, last_name, transaction_type } = transaction;
+  const lineItems = getTransactionLineItems(transaction);
 
   let contactId: number | null = null;
-  let tagsApplied: number[] = [];
-  let tagsRemoved: number[] = [];
+  const tagsApplied: number[] = [];
+  const tagsRemoved: number[] = [];
+  const lineItemResults: ClickbankLineItemResult[] = [];
   let errorMessage: string | null = null;
 
   try {
-    // Get tag actions for this product + transaction type
-    const tagActions = await bigQueryClient.getTagActionsForProduct(product_id, transaction_type);
-
-    if (tagActions.length === 0) {
-      reqLogger.warn({ product_id, transaction_type }, 'No tag actions configured');
-    }
-
     // Find or create contact in Keap
     const contact = await keapClient.findOrCreateClickbankContact(
       email,
@@ -369,72 +550,314 @@ async function processQueuedTransaction(
 
     contactId = contact.id;
 
-    // Process each action
-    for (const action of tagActions) {
-      if (action.action === 'apply_tag' && action.tagId > 0) {
-        // Apply tag
-        await keapClient.applyTags(contact.id, [action.tagId]);
-        tagsApplied.push(action.tagId);
-        reqLogger.info(
-          { contactId: contact.id, tagId: action.tagId, tagName: action.triggerTag },
-          'Tag applied'
+    if (PURCHASE_DATE_TYPES.includes(transaction_type)) {
+      const brand = transaction.brand !== UNKNOWN_BRAND ? transaction.brand : null;
+      syncPurchaseDates(contact.id, brand, transaction.clickbank_timestamp || transaction.created_at).catch((err) => {
+        reqLogger.error({ err, contactId: contact.id, receipt }, 'Failed to update purchase date fields');
+      });
+    }
+
+    for (const lineItem of lineItems) {
+      const itemTagsApplied: number[] = [];
+      const itemTagsToRemove: number[] = [];
+      let itemTagsRemoved: number[] = [];
+      let itemStatus: ClickbankLineItemResult['processing_status'] = 'SUCCESS';
+      let itemError: string | null = null;
+
+      try {
+        // Get tag actions for this product + transaction type
+        const tagActions = await storage.getTagActionsForProduct(
+          lineItem.productId,
+          transaction_type
         );
-      } else if (action.action === 'apply_note' && action.triggerTag) {
-        // Add note - extract text after "ADDNOTE:" prefix
-        const noteText = action.triggerTag.startsWith('ADDNOTE:')
-          ? action.triggerTag.substring(8)
-          : action.triggerTag;
-        await keapClient.addNote(contact.id, noteText);
-        reqLogger.info(
-          { contactId: contact.id, noteText },
-          'Note added to contact'
+
+        // Refunds with no explicit remove_tag rows reverse the product's SALE tags
+        if (
+          AUTO_REVERSE_REFUNDS &&
+          REFUND_TYPES.includes(transaction_type) &&
+          !tagActions.some((a) => a.action === 'remove_tag')
+        ) {
+          const saleType = isTestTransaction(transaction_type) ? 'TEST_SALE' : 'SALE';
+          const saleActions = await storage.getTagActionsForProduct(lineItem.productId, saleType);
+          const refundAppliedTags = new Set(
+            tagActions.filter((a) => a.action === 'apply_tag').map((a) => a.tagId)
+          );
+          const reversedTags = saleActions
+            .filter((a) => a.action === 'apply_tag' && a.tagId > 0 && !refundAppliedTags.has(a.tagId))
+            .map((a): TagAction => ({ ...a, action: 'remove_tag' }));
+          tagActions.push(...reversedTags);
+          reqLogger.info(
+            { productId: lineItem.productId, transaction_type, reversedTags: reversedTags.map((a) => a.tagId) },
+            'Auto-reversing SALE tags for refund'
+          );
+        }
+
+        if (tagActions.length === 0) {
+          itemStatus = 'NO_TAGS';
+          reqLogger.warn(
+            { product_id: lineItem.productId, transaction_type, lineItem: lineItem.index },
+            'No tag actions configured'
+          );
+        }
+
+        // Process each action
+        for (const action of tagActions) {
+          if (action.action === 'apply_tag' && action.tagId > 0) {
+            // Apply tag
+            await keapClient.applyTags(contact.id, [action.tagId]);
+            itemTagsApplied.push(action.tagId);
+            reqLogger.info(
+              { contactId: contact.id, tagId: action.tagId, tagName: action.triggerTag, productId: lineItem.productId },
+              'Tag applied'
+            );
+          } else if (action.action === 'remove_tag' && action.tagId > 0) {
+            // Removed together after the loop (Keap removes one tag per call)
+            itemTagsToRemove.push(action.tagId);
+          } else if (action.action === 'apply_note' && action.triggerTag) {
+            // Add note - extract text after "ADDNOTE:" prefix
+            const noteText = action.triggerTag.startsWith('ADDNOTE:')
+              ? action.triggerTag.substring(8)
+              : action.triggerTag;
+            await keapClient.addNote(contact.id, noteText);
+            reqLogger.info(
+              { contactId: contact.id, noteText, productId: lineItem.productId },
+              'Note added to contact'
+            );
+          }
+        }
+
+        if (itemTagsToRemove.length > 0) {
+          itemTagsRemoved = await keapClient.removeTags(contact.id, [...new Set(itemTagsToRemove)]);
+          reqLogger.info(
+            { contactId: contact.id, tagIds: itemTagsRemoved, productId: lineItem.productId },
+            'Tags removed'
+          );
+        }
+      } catch (error) {
+        itemStatus = 'FAILED';
+        itemError = error instanceof Error ? error.message : 'Unknown error';
+        reqLogger.error(
+          { error, transactionId: id, receipt, lineItem: lineItem.index, productId: lineItem.productId },
+          'Failed to process line item'
         );
       }
+
+      tagsApplied.push(...itemTagsApplied);
+      tagsRemoved.push(...itemTagsRemoved);
+      lineItemResults.push({
+        transaction_id: id,
+        receipt,
+        transaction_type,
+        line_item_index: lineItem.index,
+        product_id: lineItem.productId,
+        amount: lineItem.amount,
+        keap_contact_id: contactId,
+        tags_applied: itemTagsApplied,
+        tags_removed: itemTagsRemoved,
+        processing_status: itemStatus,
+        error_message: itemError,
+        processed_at: new Date().toISOString(),
+      });
+    }
+
+    const failedItems = lineItemResults.filter((r) => r.processing_status === 'FAILED');
+    if (failedItems.length > 0) {
+      errorMessage = failedItems
+        .map((r) => `Line item ${r.line_item_index} (${r.product_id}): ${r.error_message}`)
+        .join('; ');
     }
 
     reqLogger.info(
-      { transactionId: id, receipt, contactId, tagsApplied, actionsProcessed: tagActions.length },
-      'Transaction processed successfully'
+      {
+        transactionId: id,
+        receipt,
+        contactId,
+        tagsApplied,
+        tagsRemoved,
+        lineItems: lineItemResults.map((r) => ({
+          index: r.line_item_index,
+          productId: r.product_id,
+          amount: r.amount,
+          status: r.processing_status,
+          tagsApplied: r.tags_applied,
+          tagsRemoved: r.tags_removed,
+        })),
+      },
+      failedItems.length > 0 ? 'Transaction processed with line item failures' : 'Transaction processed successfully'
     );
   } catch (error) {
     errorMessage = error instanceof Error ? error.message : 'Unknown error';
     reqLogger.error({ error, transactionId: id, receipt, email }, 'Failed to process transaction');
   }
 
-  // Update transaction status in BigQuery
-  await bigQueryClient.updateTransactionStatus(id, contactId, tagsApplied, tagsRemoved, errorMessage);
+  // Record per-line-item outcomes, then update transaction status in storage
+  await storage.insertLineItemResults(lineItemResults);
+  await storage.updateTransactionStatus(id, contactId, tagsApplied, tagsRemoved, errorMessage);
+
+  return contactId;
 }
 
-// Track transaction IDs currently being retried to prevent duplicate processing
-// when multiple IPNs arrive before the results table streaming buffer is visible.
-const retryInFlight = new Set<string>();
+/**
+ * Meta event_id for a ClickBank sale. The order form / thank-you page pixel
+ * should fire its Purchase with the same eventID so Meta dedupes the two.
+ */
+export function clickbankPurchaseEventId(receipt: string): string {
+  return `clickbank_${receipt}`;
+}
 
 /**
- * Retry failed transactions (triggered by new IPNs or startup)
+ * Send a Meta CAPI Purchase event for a ClickBank sale through the durable queue.
+ * Enriched with the buyer's tracking context (fbp, fbc, IP, UA, pixel) when we
+ * have one from an earlier signup.
  */
-export async function retryFailedTransactions(reqLogger: Logger): Promise<void> {
-  const unprocessed = await bigQueryClient.getUnprocessedTransactions(100);
+async function sendPurchaseEvent(
+  reqLogger: Logger,
+  transaction: ClickbankTransaction,
+  ipnData: ClickbankIpnDecrypted,
+  contactId: number | null
+): Promise<void> {
+  const { receipt, email } = transaction;
+  const contactIdStr = contactId ? String(contactId) : null;
+
+  const trackingCtx = await storage.lookupTrackingContext(contactIdStr, email || null);
+
+  // Brand from the vendor mapping, falling back to where the buyer signed up
+  const brand =
+    transaction.brand && transaction.brand !== UNKNOWN_BRAND
+      ? transaction.brand
+      : trackingCtx?.brand?.toLowerCase() || null;
+  if (!brand) {
+    reqLogger.warn({ receipt, vendor: transaction.vendor }, 'Cannot determine brand for ClickBank sale — skipping CAPI');
+    return;
+  }
 
-  if (unprocessed.length === 0) {
+  const pixelId = trackingCtx?.pixel_id || metaCAPIClient.getPixelId(brand);
+  if (!pixelId) {
+    reqLogger.info({ receipt, brand }, 'No pixel_id available for brand — skipping CAPI');
     return;
   }
 
-  // Filter out any already being processed by a concurrent retry cycle
-  const toRetry = unprocessed.filter(t => !retryInFlight.has(t.id));
+  const billing = ipnData.customer?.billing;
+  const hashedUserData = metaCAPIClient.hashUserData({
+    em: email || null,
+    fn: transaction.first_name,
+    ln: transaction.last_name,
+    ph: billing?.phoneNumber || null,
+    external_id: contactIdStr,
+    ct: billing?.address?.city || null,
+    st: billing?.address?.state || null,
+    zp: billing?.address?.postalCode || null,
+  });
 
-  if (toRetry.length === 0) {
-    return;
+  const userData: Record<string, unknown> = { ...hashedUserData };
+  if (trackingCtx?.fbp) userData.fbp = trackingCtx.fbp;
+  if (trackingCtx?.fbc) userData.fbc = trackingCtx.fbc;
+  if (trackingCtx?.ip_address) userData.client_ip_address = trackingCtx.ip_address;
+  if (trackingCtx?.user_agent) userData.client_user_agent = trackingCtx.user_agent;
+
+  const lineItems = getTransactionLineItems(transaction);
+  const customData: Record<string, unknown> = {
+    currency: transaction.currency,
+    order_id: receipt,
+    content_type: 'product',
+    contents: lineItems.map((item) => ({
+      id: item.productId,
+      quantity: 1,
+      item_price: item.amount ?? 0,
+    })),
+  };
+  if (transaction.amount != null) customData.value = transaction.amount;
+
+  const eventId = clickbankPurchaseEventId(receipt);
+  const capiEvent: MetaCAPIEvent = {
+    event_name: 'Purchase',
+    event_time: Math.floor(Date.now() / 1000),
+    event_id: eventId,
+    action_source: 'website',
+    event_source_url: trackingCtx?.source_url || undefined,
+    user_data: userData,
+    custom_data: customData,
+  };
+
+  const queueMetadata: MetaQueueMetadata = {
+    source: 'purchase',
+    brand,
+    eventName: 'Purchase',
+    email: email || null,
+    emailHash: hashedUserData.em || null,
+    keapContactId: contactIdStr,
+    orderId: receipt,
+    eventId,
+    pixelId,
+  };
+
+  await sendMetaWithQueue(queueMetadata, capiEvent);
+
+  reqLogger.info(
+    { receipt, contactId, pixelId, brand, hasTrackingContext: !!trackingCtx },
+    'ClickBank Purchase CAPI event queued'
+  );
+}
+
+// Keap calls for one transaction (contact + every line item's tags) finish well within this
+const TRANSACTION_LEASE_TTL_MS = 5 * 60000;
+
+/**
+ * Process a queued transaction under a lease on its id, so the IPN handler,
+ * retry passes and the startup flush on any instance never process it twice.
+ * Returns null when another processor holds (or held) it.
+ *
+ * The lease is released only once the result is recorded: if that write
+ * fails the transaction is still unprocessed, and its lease expires so a
+ * later pass retries it.
+ */
+async function processLeasedTransaction(
+  reqLogger: Logger,
+  transaction: ClickbankTransaction
+): Promise<{ contactId: number | null } | null> {
+  const lease = await acquireLeases([`clickbank:${transaction.id}`], TRANSACTION_LEASE_TTL_MS);
+  if (lease.keys.size === 0) {
+    reqLogger.info({ transactionId: transaction.id, receipt: transaction.receipt }, 'Transaction leased elsewhere — skipping');
+    return null;
+  }
+  let contactId: number | null;
+  try {
+    contactId = await processQueuedTransaction(reqLogger, transaction);
+  } catch (err) {
+    reqLogger.error(
+      { err, transactionId: transaction.id, receipt: transaction.receipt },
+      'Failed to record transaction result — leaving it leased until the lease expires'
+    );
+    return { contactId: null };
   }
+  await releaseLeases(lease);
+  return { contactId };
+}
 
-  reqLogger.info({ count: toRetry.length }, 'Retrying unprocessed transactions');
+/**
+ * Retry up to `limit` queued transactions (after new IPNs, on startup, or
+ * from POST /jobs/clickbank-retry). `skipped` were leased by another processor.
+ */
+export async function retryFailedTransactions(
+  reqLogger: Logger,
+  limit: number = 100
+): Promise<{ pending: number; processed: number; skipped: number }> {
+  const unprocessed = await storage.getUnprocessedTransactions(limit);
+  const summary = { pending: unprocessed.length, processed: 0, skipped: 0 };
 
-  for (const transaction of toRetry) {
-    retryInFlight.add(transaction.id);
-    try {
-      reqLogger.info({ transactionId: transaction.id, receipt: transaction.receipt }, 'Retrying transaction');
-      await processQueuedTransaction(reqLogger, transaction);
-    } finally {
-      retryInFlight.delete(transaction.id);
+  if (unprocessed.length === 0) {
+    return summary;
+  }
+
+  reqLogger.info({ count: unprocessed.length }, 'Retrying unprocessed transactions');
+
+  for (const transaction of unprocessed) {
+    reqLogger.info({ transactionId: transaction.id, receipt: transaction.receipt }, 'Retrying transaction');
+    if (await processLeasedTransaction(reqLogger, transaction)) {
+      summary.processed++;
+    } else {
+      summary.skipped++;
     }
   }
+  return summary;
 }
@@ -0,0 +1,82 @@
+import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import type { Logger } from 'pino';
+import { retryFailedTransactions } from './clickbank.js';
+import { runDueReconciliationJobs, sweepRecentKeapPayments } from './keap-webhook.js';
+import { replayDueMetaEvents } from '../services/metaQueue.js';
+import { retryFailedSubscribers } from '../services/subscriberQueue.js';
+import { checkKeapHooks } from '../services/keapHookMonitor.js';
+import { adminAuth } from '../utils/adminAuth.js';
+import { logger } from '../utils/logger.js';
+
+const MAX_META_REPLAY_LIMIT = 1000;
+
+/**
+ * POST /jobs/* — run one bounded batch of a background task and return a JSON
+ * summary, for Cloud Scheduler (or cron) to call. Needs an X-API-Key with jobs:run.
+ *
+ * These run the same code as the in-process workers; with IN_PROCESS_WORKERS=false
+ * the timers are off and the scheduler drives everything. Every job except
+ * keap-hook-check leases its work in storage (ClickBank transactions, Meta
+ * queue rows, subscriber attempts, reconciliation jobs, Keap payments), so
+ * overlapping calls (or a worker still running) don't double-process.
+ */
+export async function jobRoutes(fastify: FastifyInstance) {
+  const job = (
+    name: string,
+    run: (request: FastifyRequest, jobLogger: Logger) => Promise<Record<string, unknown>>
+  ) => {
+    fastify.post(`/jobs/${name}`, async (request: FastifyRequest, reply: FastifyReply) => {
+      if (!adminAuth(request, reply, 'jobs:run')) return;
+      const jobLogger = logger.child({ requestId: request.id, job: name });
+      const startedAt = Date.now();
+
+      try {
+        const summary = await run(request, jobLogger);
+        const durationMs = Date.now() - startedAt;
+        jobLogger.info({ ...summary, durationMs }, 'Job run complete');
+        return reply.send({ job: name, ...summary, durationMs });
+      } catch (err) {
+        jobLogger.error({ err }, 'Job run failed');
+        return reply
+          .status(500)
+          .send({ job: name, error: err instanceof Error ? err.message : String(err) });
+      }
+    });
+  };
+
+  // ClickBank transactions still PENDING (up to 100)
+  job('clickbank-retry', async (_request, jobLogger) => retryFailedTransactions(jobLogger));
+
+  // Due Meta CAPI queue events; ?limit= (default 50, max 1000)
+  job('meta-replay', async (request) => {
+    const { limit } = request.query as { limit?: string };
+    return replayDueMetaEvents(
+      Math.min(Math.max(parseInt(limit || '50', 10) || 50, 1), MAX_META_REPLAY_LIMIT)
+    );
+  });
+
+  // Failed newsletter signups (up to 25)
+  job('subscriber-retry', async () => retryFailedSubscribers(25));
+
+  // Due deferred id=0 payment reconciliation jobs (up to 20)
+  job('keap-reconcile', async (_request, jobLogger) => ({
+    jobs: await runDueReconciliationJobs(jobLogger),
+  }));
+
+  // Keap payments from the sweep lookback window that were never processed
+  job('keap-payment-sweep', async (_request, jobLogger) => ({
+    reconciledTxnIds: await sweepRecentKeapPayments(jobLogger),
+  }));
+
+  // Required Keap REST hooks: recreate missing ones, re-verify inactive ones
+  job('keap-hook-check', async () => {
+    const report = await checkKeapHooks(true);
+    return {
+      required: report.hooks.length,
+      changed: report.hooks
+        .filter((h) => h.action !== 'none')
+        .map((h) => ({ eventKey: h.eventKey, action: h.action })),
+      unmanaged: report.unmanaged.length,
+    };
+  });
+}
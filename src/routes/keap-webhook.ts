@@ -1,198 +1,586 @@
 import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
-import { bigQueryClient } from '../services/bigquery.js';
+import type { Logger } from 'pino';
+import { v4 as uuidv4 } from 'uuid';
+import { storage } from '../services/storage.js';
 import { metaCAPIClient } from '../services/meta.js';
 import { keapClient } from '../services/keap.js';
-import { sendMetaWithQueue } from '../services/metaQueue.js';
+import { sendMetaWithQueue, sendMetaRefund } from '../services/metaQueue.js';
+import { handleSubscriptionEvent, handleOrderAdded } from '../services/keapLifecycle.js';
+import {
+  registerKeapHookHandler,
+  dispatchKeapHookEvent,
+  getRegisteredEventKeys,
+  objectIds,
+} from '../services/keapHooks.js';
+import {
+  acceptKeapHookHandshake,
+  allowsUnsignedDeliveries,
+  checkKeapHookSecret,
+  keapHookPath,
+} from '../services/keapHookSecrets.js';
+import type { KeapHookSecretCheck } from '../services/keapHookSecrets.js';
+import type { KeapHookObjectKey } from '../services/keapHooks.js';
+import { syncPurchaseDates } from '../services/purchaseDates.js';
+import { classifyOrderPayment } from '../services/paymentPlans.js';
+import { getCustomerValue, isLtvEnrichmentEnabled } from '../services/customerValue.js';
+import { acquireLeases, releaseLeases, leaseVersion } from '../services/leases.js';
+import { getBrandByGatewayName } from '../config/brands.js';
+import { REQUIRED_KEAP_HOOKS } from '../config/keapHooks.js';
 import { logger } from '../utils/logger.js';
-import type { MetaCAPIEvent, MetaQueueMetadata, TrackingContextRecord } from '../types/index.js';
+import type {
+  KeapHookEventRecord,
+  KeapReconciliationJob,
+  MetaCAPIEvent,
+  MetaQueueMetadata,
+  TrackingContextRecord,
+} from '../types/index.js';
 
 /**
  * Keap REST Hook payload format:
  * - Verification: POST with X-Hook-Secret header (no body or empty body)
  * - Event: POST with { event_key: string, object_keys: Array<{ id, apiUrl, timestamp }> }
+ *   and the X-Hook-Secret from the verification
  */
 interface KeapHookEventBody {
   event_key?: string;
-  object_keys?: Array<{ id: number; [key: string]: unknown }>;
+  object_keys?: KeapHookObjectKey[];
   [key: string]: unknown;
 }
 
-export async function keapWebhookRoutes(fastify: FastifyInstance) {
-  fastify.post<{ Body: KeapHookEventBody }>(
-    '/webhooks/keap/invoice-payment',
-    {
-      schema: {
-        body: {
-          type: 'object',
-          additionalProperties: true,
-        },
-        response: {
-          200: {
-            type: 'object',
-            properties: {
-              received: { type: 'boolean' },
-            },
-          },
-        },
+const hookRouteSchema = {
+  body: {
+    type: 'object',
+    additionalProperties: true,
+  },
+  response: {
+    200: {
+      type: 'object',
+      properties: {
+        received: { type: 'boolean' },
       },
     },
-    async (request: FastifyRequest<{ Body: KeapHookEventBody }>, reply: FastifyReply) => {
-      const reqLogger = logger.child({ requestId: request.id });
-
-      // ── Keap REST Hook Verification ──
-      // When Keap creates/verifies a hook, it sends a POST with X-Hook-Secret header.
-      // We must echo it back in the response header to verify ownership.
-      const hookSecret = request.headers['x-hook-secret'];
-      if (hookSecret) {
-        reqLogger.info('Keap hook verification request received — echoing X-Hook-Secret');
-        return reply
-          .header('X-Hook-Secret', hookSecret)
-          .send({ received: true });
-      }
+  },
+};
+
+// ── Handler registry ──
+registerKeapHookHandler('invoice.payment.add', handlePaymentsAdded);
+for (const eventKey of ['subscription.add', 'subscription.edit', 'subscription.delete']) {
+  registerKeapHookHandler(eventKey, async (objectKeys, reqLogger) => {
+    for (const subscriptionId of objectIds(objectKeys)) {
+      await handleSubscriptionEvent(eventKey, subscriptionId, reqLogger);
+    }
+  });
+}
+registerKeapHookHandler('order.add', async (objectKeys, reqLogger) => {
+  for (const orderId of objectIds(objectKeys)) {
+    await handleOrderAdded(orderId, reqLogger);
+  }
+});
 
-      // ── Event Processing ──
-      // Always return 200 to prevent Keap marking hook as inactive
-      const ack = () => reply.send({ received: true });
+export async function keapWebhookRoutes(fastify: FastifyInstance) {
+  // ── Keap REST Hook Verification ──
+  // When Keap creates/verifies a hook, it sends a POST with X-Hook-Secret header.
+  // We must echo it back in the response header to verify ownership, and every
+  // later delivery must carry the same secret (services/keapHookSecrets.ts).
+  fastify.addHook('preHandler', async (request, reply) => {
+    const reqLogger = logger.child({ requestId: request.id });
+    const hookPath = keapHookPath(request.url);
+    const header = request.headers['x-hook-secret'];
+    const hookSecret = typeof header === 'string' ? header : undefined;
+    const body = request.body as KeapHookEventBody | undefined;
+
+    if (hookSecret && !body?.object_keys) {
+      const accepted = await acceptKeapHookHandshake(hookPath, hookSecret, request.id).catch((err) => {
+        reqLogger.error({ err, hookPath }, 'Failed to store Keap hook secret');
+        return false;
+      });
+      if (!accepted) {
+        reqLogger.warn({ hookPath }, 'Keap hook handshake outside a verification window — refusing');
+        return reply.status(403).send({ error: 'Unexpected hook verification' });
+      }
+      reqLogger.info({ hookPath }, 'Keap hook verification request received — echoing X-Hook-Secret');
+      return reply.header('X-Hook-Secret', hookSecret).send({ received: true });
+    }
 
-      try {
-        const { event_key, object_keys } = request.body;
+    let check: KeapHookSecretCheck;
+    try {
+      check = await checkKeapHookSecret(hookPath, hookSecret);
+    } catch (err) {
+      reqLogger.error({ err, hookPath }, 'Failed to load Keap hook secret — refusing delivery');
+      return reply.status(503).send({ error: 'Hook secret unavailable' });
+    }
+    if (check === 'unregistered' && allowsUnsignedDeliveries(hookPath)) {
+      // Legacy payment hook during the rollout (KEAP_LEGACY_HOOK_UNSIGNED=true)
+      reqLogger.warn(
+        { hookPath, alert: 'keap_hook' },
+        'No X-Hook-Secret stored for legacy Keap hook — accepting delivery; re-verify the hook'
+      );
+    } else if (check !== 'ok') {
+      reqLogger.warn({ hookPath, check, event_key: body?.event_key }, 'Keap hook delivery rejected');
+      logRejectedDelivery(body, check, reqLogger);
+      return reply.status(401).send({ error: 'Invalid X-Hook-Secret' });
+    }
+  });
 
-        reqLogger.info({ event_key, object_keys }, 'Keap webhook event received');
+  // One endpoint per Keap event key, e.g. /webhooks/keap/invoice.payment.add
+  fastify.post<{ Body: KeapHookEventBody; Params: { eventKey: string } }>(
+    '/webhooks/keap/:eventKey',
+    { schema: hookRouteSchema },
+    async (request, reply) => {
+      const { eventKey } = request.params;
+      if (!isServedEventKey(eventKey)) {
+        return reply.status(404).send({ error: `No Keap hook handler for event: ${eventKey}` });
+      }
+      return handleHookDelivery(request, reply, eventKey, eventKey);
+    }
+  );
 
-        if (!event_key || !object_keys || object_keys.length === 0) {
-          reqLogger.warn('Missing event_key or object_keys in webhook payload');
-          return ack();
-        }
+  // Original payment hook URL (hook key 169), kept as an alias
+  fastify.post<{ Body: KeapHookEventBody }>(
+    '/webhooks/keap/invoice-payment',
+    { schema: hookRouteSchema },
+    async (request, reply) => handleHookDelivery(request, reply, 'invoice.payment.add', null)
+  );
+}
 
-        if (event_key !== 'invoice.payment.add') {
-          reqLogger.info({ event_key }, 'Ignoring non-payment event');
-          return ack();
-        }
+/**
+ * Event keys the per-event route accepts: declared in REQUIRED_KEAP_HOOKS and
+ * with a registered handler.
+ */
+function isServedEventKey(eventKey: string): boolean {
+  return (
+    REQUIRED_KEAP_HOOKS.some((hook) => hook.eventKey === eventKey) &&
+    getRegisteredEventKeys().includes(eventKey)
+  );
+}
 
-        // Process each payment — object_keys are objects with { id, apiUrl, timestamp }
-        // Payments with id=0 are deferred (Keap fires before transaction is ready, common with upsells).
-        // Keap does NOT fire again with the real ID, so we must retry to find the transaction.
-        const immediate: number[] = [];
-        let deferredCount = 0;
-
-        for (const objectKey of object_keys) {
-          const paymentId = typeof objectKey === 'object' ? objectKey.id : objectKey;
-          if (paymentId && paymentId > 0) {
-            immediate.push(paymentId);
-          } else {
-            deferredCount++;
-          }
-        }
+/**
+ * Webhook log row per object of a rejected delivery. Logged as is_duplicate so
+ * it never counts as a processed payment.
+ */
+function logRejectedDelivery(
+  body: KeapHookEventBody | undefined,
+  check: KeapHookSecretCheck,
+  reqLogger: Logger
+): void {
+  const ids = Array.isArray(body?.object_keys) ? objectIds(body.object_keys) : [];
+  for (const paymentId of ids.length > 0 ? ids : [0]) {
+    storage.insertWebhookLog({
+      created_at: new Date().toISOString(),
+      payment_id: paymentId,
+      is_duplicate: true,
+      contact_id: null,
+      brand: null,
+      event_name: null,
+      subscription_plan_id: null,
+      prior_order_count: null,
+      order_id: null,
+      amount: null,
+      currency: null,
+      raw_transaction_json: null,
+      raw_order_json: null,
+      classification_note: `rejected_hook_secret_${check}`,
+    }).catch(err => {
+      reqLogger.error({ err, paymentId }, 'Failed to insert rejected webhook log');
+    });
+  }
+}
 
-        // Process immediate (real-ID) payments
-        for (const paymentId of immediate) {
-          try {
-            await processPayment(paymentId, reqLogger);
-          } catch (err) {
-            reqLogger.error({ err, paymentId }, 'Error processing payment');
-          }
-        }
+/**
+ * Persist the delivery's object_keys, then dispatch to the handler of the
+ * hook URL's event key. A body event_key that names a different event gets
+ * 400; otherwise returns 200 to prevent Keap marking the hook inactive.
+ */
+async function handleHookDelivery(
+  request: FastifyRequest<{ Body: KeapHookEventBody }>,
+  reply: FastifyReply,
+  eventKey: string,
+  routeKey: string | null
+): Promise<FastifyReply> {
+  const reqLogger = logger.child({ requestId: request.id });
+  const ack = () => reply.send({ received: true });
+
+  const { event_key, object_keys } = request.body || {};
+  if (event_key && event_key !== eventKey) {
+    reqLogger.warn({ event_key, eventKey, routeKey }, 'Keap event_key does not match hook URL — rejecting');
+    return reply.status(400).send({ error: `event_key ${event_key} does not match hook URL (${eventKey})` });
+  }
 
-        // Handle deferred (id=0) payments — reconcile by querying ALL recent
-        // Keap transactions and diffing against what we've already sent to Meta.
-        // No contactId needed — we catch any unprocessed transaction.
-        if (deferredCount > 0) {
-          reqLogger.info({ deferredCount }, 'Deferring id=0 payments for background reconciliation');
-          reconcileDeferredPayments(deferredCount, reqLogger).catch(err => {
-            reqLogger.error({ err }, 'Deferred payment reconciliation failed');
-          });
-        }
+  try {
+    reqLogger.info({ event_key, routeKey, object_keys }, 'Keap webhook event received');
 
-        return ack();
-      } catch (error) {
-        reqLogger.error({ error }, 'Keap webhook processing error');
-        return ack();
-      }
+    if (!object_keys || object_keys.length === 0) {
+      reqLogger.warn('Missing object_keys in webhook payload');
+      return ack();
     }
-  );
+
+    const record: KeapHookEventRecord = {
+      created_at: new Date().toISOString(),
+      event_id: uuidv4(),
+      event_key: eventKey,
+      route_key: routeKey,
+      object_count: object_keys.length,
+      object_keys_json: JSON.stringify(object_keys),
+      request_id: request.id,
+    };
+    await storage.insertKeapHookEvent(record);
+
+    await dispatchKeapHookEvent(eventKey, object_keys, reqLogger.child({ hookEventId: record.event_id }));
+    return ack();
+  } catch (error) {
+    reqLogger.error({ error }, 'Keap webhook processing error');
+    return ack();
+  }
 }
 
-function sleep(ms: number): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, ms));
+/**
+ * Replay a persisted delivery through the current handlers. Payment processing
+ * is idempotent per payment_id, so replaying an already-handled event is safe.
+ */
+export async function replayKeapHookEvent(eventId: string, reqLogger: Logger): Promise<KeapHookEventRecord | null> {
+  const record = await storage.getKeapHookEvent(eventId);
+  if (!record) return null;
+
+  const objectKeys = JSON.parse(record.object_keys_json) as KeapHookObjectKey[];
+  reqLogger.info({ eventId, eventKey: record.event_key, objectCount: objectKeys.length }, 'Replaying Keap hook event');
+  await dispatchKeapHookEvent(record.event_key, objectKeys, reqLogger.child({ hookEventId: eventId }));
+  return record;
 }
 
 /**
- * Reconcile deferred (id=0) payments by querying ALL recent Keap transactions
- * and diffing against what we've already sent to Meta CAPI.
- *
- * Keap fires invoice.payment.add for upsells before the transaction ID is assigned
- * and does NOT fire again with the real ID. Instead of trying to correlate by
- * contactId (which we don't have from id=0), we query all recent transactions
- * from Keap and process any we haven't already handled.
- *
- * Retries 3 times: wait 15s, 30s, 60s.
+ * invoice.payment.add: process each payment — object_keys are objects with { id, apiUrl, timestamp }.
+ * Payments with id=0 are deferred (Keap fires before transaction is ready, common with upsells).
+ * Keap does NOT fire again with the real ID, so we must retry to find the transaction.
  */
-async function reconcileDeferredPayments(
-  expectedCount: number,
-  reqLogger: typeof logger
-): Promise<void> {
-  const delays = [15000, 30000, 60000]; // 15s, 30s, 60s
-  const reconciled = new Set<number>();
+async function handlePaymentsAdded(objectKeys: KeapHookObjectKey[], reqLogger: Logger): Promise<void> {
+  const immediate = objectIds(objectKeys);
+  const deferredCount = objectKeys.length - immediate.length;
+
+  // Process immediate (real-ID) payments
+  for (const paymentId of immediate) {
+    try {
+      await processPayment(paymentId, reqLogger);
+    } catch (err) {
+      reqLogger.error({ err, paymentId }, 'Error processing payment');
+    }
+  }
 
-  for (let i = 0; i < delays.length; i++) {
-    if (reconciled.size >= expectedCount) break;
+  // Handle deferred (id=0) payments — persist a reconciliation job; the
+  // reconciliation worker diffs ALL recent Keap transactions against what
+  // we've already processed once it's due. No contactId needed.
+  if (deferredCount > 0) {
+    await queueReconciliationJob(deferredCount, reqLogger);
+  }
+}
 
-    reqLogger.info(
-      { attempt: i + 1, delayMs: delays[i], remaining: expectedCount - reconciled.size },
-      'Waiting to reconcile deferred payments'
-    );
-    await sleep(delays[i]);
+// Delay before each reconciliation attempt of a deferred (id=0) payment job
+const DEFERRED_RETRY_DELAYS_MS = [15000, 30000, 60000];
 
-    try {
-      // Query all Keap transactions from the last 15 minutes
-      const since = new Date(Date.now() - 15 * 60 * 1000).toISOString();
-      const recentTxns = await keapClient.getRecentTransactions(since, 50);
+// How far back a deferred payment job looks for its transaction
+const DEFERRED_LOOKBACK_MINUTES = 15;
 
-      // Get transaction IDs we've already sent to Meta
-      const alreadyProcessed = await bigQueryClient.getRecentlyProcessedTransactionIds(30);
+// A reconciliation pass should finish well within this; after it, another instance may take over
+const RECONCILE_LEASE_TTL_MS = 5 * 60000;
 
-      reqLogger.info(
-        { attempt: i + 1, keapTxnCount: recentTxns.length, alreadyProcessedCount: alreadyProcessed.size },
-        'Reconciliation: fetched recent transactions'
-      );
+/**
+ * Persist a reconciliation job for a delivery's id=0 payments. It runs from
+ * storage (not an in-process timer), so it survives the instance being
+ * throttled or replaced after the response is sent.
+ */
+async function queueReconciliationJob(expectedCount: number, reqLogger: Logger): Promise<void> {
+  const now = new Date();
+  const job: KeapReconciliationJob = {
+    created_at: now.toISOString(),
+    updated_at: now.toISOString(),
+    job_id: uuidv4(),
+    expected_count: expectedCount,
+    reconciled_txn_ids: [],
+    status: 'PENDING',
+    attempt_count: 0,
+    due_at: new Date(now.getTime() + DEFERRED_RETRY_DELAYS_MS[0]).toISOString(),
+    last_error: null,
+  };
+  await storage.insertReconciliationJobRow(job);
+  reqLogger.info(
+    { jobId: job.job_id, deferredCount: expectedCount, dueAt: job.due_at },
+    'Deferring id=0 payments for background reconciliation'
+  );
+}
 
-      for (const txn of recentTxns) {
-        const txnId = txn.id as number;
-        if (!txnId || txnId <= 0) continue;
+/**
+ * Process recent Keap transactions (across all contacts) that aren't in the
+ * Meta queue or webhook log yet. Transactions younger than minAgeMs are left
+ * for their own hook delivery. Returns the transaction IDs processed.
+ *
+ * Keap fires invoice.payment.add for upsells before the transaction ID is
+ * assigned and does NOT fire again with the real ID, so diffing is the only
+ * way to catch them.
+ *
+ * Each payment is leased (keap-payment:<id>) so overlapping jobs and sweeps,
+ * on any instance, process it once. Leases of failed payments are left to
+ * expire, so a later pass can try again.
+ */
+async function reconcileRecentTransactions(
+  lookbackMinutes: number,
+  reqLogger: Logger,
+  minAgeMs: number = 0
+): Promise<number[]> {
+  const since = new Date(Date.now() - lookbackMinutes * 60 * 1000).toISOString();
+  const recentTxns = await keapClient.getRecentTransactions(since, 50);
+  const alreadyProcessed = await storage.getRecentlyProcessedTransactionIds(lookbackMinutes * 2);
+
+  reqLogger.info(
+    { keapTxnCount: recentTxns.length, alreadyProcessedCount: alreadyProcessed.size },
+    'Reconciliation: fetched recent transactions'
+  );
 
-        // Skip if we've already processed this transaction (in queue or this reconciliation run)
-        const txnIdStr = String(txnId);
-        if (alreadyProcessed.has(txnIdStr) || reconciled.has(txnId)) continue;
+  const cutoff = Date.now() - minAgeMs;
+  const candidates: number[] = [];
+  for (const txn of recentTxns) {
+    const txnId = txn.id as number;
+    if (!txnId || txnId <= 0 || alreadyProcessed.has(String(txnId))) continue;
 
-        try {
-          await processPayment(txnId, reqLogger);
-          reconciled.add(txnId);
-          reqLogger.info(
-            { txnId, attempt: i + 1 },
-            'Deferred payment (upsell) reconciled successfully'
-          );
-        } catch (err) {
-          reqLogger.warn({ err, txnId, attempt: i + 1 }, 'Deferred payment reconciliation failed for txn');
-        }
-      }
+    const txnTime = Date.parse(String(txn.transaction_date || ''));
+    if (minAgeMs > 0 && !isNaN(txnTime) && txnTime > cutoff) continue;
+    candidates.push(txnId);
+  }
+
+  const lease = await acquireLeases(candidates.map((id) => `keap-payment:${id}`), RECONCILE_LEASE_TTL_MS);
+  const reconciled: number[] = [];
+  for (const txnId of candidates) {
+    if (!lease.keys.has(`keap-payment:${txnId}`)) continue;
+    try {
+      await processPayment(txnId, reqLogger);
+      reconciled.push(txnId);
+      reqLogger.info({ txnId }, 'Unprocessed Keap payment reconciled successfully');
     } catch (err) {
-      reqLogger.warn({ err, attempt: i + 1 }, 'Error during deferred payment reconciliation');
+      reqLogger.warn({ err, txnId }, 'Reconciliation failed for txn');
     }
   }
+  await releaseLeases(lease, reconciled.map((id) => `keap-payment:${id}`));
+  return reconciled;
+}
 
-  if (reconciled.size > 0) {
-    reqLogger.info(
-      { expected: expectedCount, reconciled: reconciled.size, txnIds: [...reconciled] },
+/**
+ * One attempt of a reconciliation job. Appends the job's next row: DONE once
+ * as many transactions as id=0 payments were found, EXHAUSTED after the last
+ * delay, otherwise PENDING with the next due_at.
+ */
+async function runReconciliationJob(job: KeapReconciliationJob, workerLogger: Logger): Promise<void> {
+  const jobLogger = workerLogger.child({ jobId: job.job_id });
+  const attempt = job.attempt_count + 1;
+  let lastError: string | null = null;
+  let found: number[] = [];
+
+  try {
+    found = await reconcileRecentTransactions(DEFERRED_LOOKBACK_MINUTES, jobLogger);
+  } catch (err) {
+    lastError = err instanceof Error ? err.message : String(err);
+    jobLogger.warn({ err, attempt }, 'Error during deferred payment reconciliation');
+  }
+
+  const reconciled = [...job.reconciled_txn_ids, ...found];
+  const done = reconciled.length >= job.expected_count;
+  const status = done ? 'DONE' : attempt >= DEFERRED_RETRY_DELAYS_MS.length ? 'EXHAUSTED' : 'PENDING';
+  const now = new Date();
+
+  await storage.insertReconciliationJobRow({
+    ...job,
+    updated_at: now.toISOString(),
+    reconciled_txn_ids: reconciled,
+    status,
+    attempt_count: attempt,
+    due_at:
+      status === 'PENDING'
+        ? new Date(now.getTime() + DEFERRED_RETRY_DELAYS_MS[attempt]).toISOString()
+        : job.due_at,
+    last_error: lastError,
+  });
+
+  if (done) {
+    jobLogger.info(
+      { expected: job.expected_count, reconciled: reconciled.length, txnIds: reconciled },
       'Deferred payment reconciliation complete'
     );
-  } else {
-    reqLogger.warn(
-      { expected: expectedCount },
+  } else if (status === 'EXHAUSTED') {
+    jobLogger.warn(
+      { expected: job.expected_count, reconciled: reconciled.length },
       'Deferred payment reconciliation found no new transactions after all retries'
     );
   }
 }
 
+/**
+ * Lease key of one job row version: a job is leased again once its next
+ * attempt's row replaces this one.
+ */
+function reconciliationLeaseKey(job: KeapReconciliationJob): string {
+  return `keap-reconcile:${job.job_id}:${leaseVersion(job.updated_at)}`;
+}
+
+/**
+ * Run every reconciliation job whose due_at has passed and that no other pass
+ * holds. Returns the number of jobs run.
+ */
+export async function runDueReconciliationJobs(workerLogger: Logger): Promise<number> {
+  const due = await storage.getDueReconciliationJobs(20);
+  const lease = await acquireLeases(due.map(reconciliationLeaseKey), RECONCILE_LEASE_TTL_MS);
+  const jobs = due.filter((job) => lease.keys.has(reconciliationLeaseKey(job)));
+  try {
+    for (const job of jobs) {
+      await runReconciliationJob(job, workerLogger);
+    }
+  } finally {
+    await releaseLeases(lease);
+  }
+  return jobs.length;
+}
+
+/**
+ * Periodic safety net: reconcile Keap payments from the last
+ * KEAP_RECONCILE_SWEEP_LOOKBACK_MINUTES whether or not an id=0 hook arrived
+ * (lost deliveries, Inactive hooks, exhausted jobs). Payments under 2 minutes
+ * old are skipped so their own hook delivery handles them.
+ */
+export async function sweepRecentKeapPayments(workerLogger: Logger): Promise<number[]> {
+  const lookbackMinutes = parseInt(process.env.KEAP_RECONCILE_SWEEP_LOOKBACK_MINUTES || '60', 10);
+  const reconciled = await reconcileRecentTransactions(lookbackMinutes, workerLogger, 2 * 60 * 1000);
+  if (reconciled.length > 0) {
+    workerLogger.warn({ txnIds: reconciled }, 'Keap payment sweep processed payments the webhook missed');
+  }
+  return reconciled;
+}
+
+/**
+ * Start the reconciliation worker: due jobs every KEAP_RECONCILE_INTERVAL_MS
+ * (default 15s) and the sweep every KEAP_RECONCILE_SWEEP_INTERVAL_MS
+ * (default 5 minutes).
+ */
+export function startKeapReconciliationWorker(): void {
+  const workerLogger = logger.child({ worker: 'keap-reconciliation' });
+  const jobIntervalMs = parseInt(process.env.KEAP_RECONCILE_INTERVAL_MS || '15000', 10);
+  const sweepIntervalMs = parseInt(process.env.KEAP_RECONCILE_SWEEP_INTERVAL_MS || '300000', 10);
+  let jobsRunning = false;
+  let sweepRunning = false;
+
+  setInterval(async () => {
+    if (jobsRunning) return;
+    jobsRunning = true;
+    try {
+      await runDueReconciliationJobs(workerLogger);
+    } catch (err) {
+      workerLogger.error({ err }, 'Reconciliation job tick error');
+    } finally {
+      jobsRunning = false;
+    }
+  }, jobIntervalMs);
+
+  setInterval(async () => {
+    if (sweepRunning) return;
+    sweepRunning = true;
+    try {
+      await sweepRecentKeapPayments(workerLogger);
+    } catch (err) {
+      workerLogger.error({ err }, 'Keap payment sweep error');
+    } finally {
+      sweepRunning = false;
+    }
+  }, sweepIntervalMs);
+
+  workerLogger.info({ jobIntervalMs, sweepIntervalMs }, 'Keap reconciliation worker started');
+}
+
+/**
+ * Keap records a refund as a transaction of type REFUND (negative amount).
+ */
+function isRefundTransaction(transaction: Record<string, unknown>): boolean {
+  const type = String(transaction.type || '').toUpperCase();
+  const amount = transaction.amount as number | undefined;
+  return type === 'REFUND' || (typeof amount === 'number' && amount < 0);
+}
+
+/**
+ * Report a Keap refund to Meta against the order's original Purchase/RecurringPayment.
+ */
+async function processRefund(
+  paymentId: number,
+  transaction: Record<string, unknown>,
+  contactId: number,
+  orderId: string | null,
+  reqLogger: typeof logger
+): Promise<void> {
+  const amount = transaction.amount as number | undefined;
+  const currency = (transaction.currency as string) || 'USD';
+
+  storage.insertWebhookLog({
+    created_at: new Date().toISOString(),
+    payment_id: paymentId,
+    is_duplicate: false,
+    contact_id: contactId,
+    brand: null,
+    event_name: orderId ? 'Refund' : null,
+    subscription_plan_id: null,
+    prior_order_count: null,
+    order_id: orderId,
+    amount: amount ?? null,
+    currency,
+    raw_transaction_json: JSON.stringify(transaction),
+    raw_order_json: null,
+    classification_note: orderId ? 'refund' : 'refund_no_order_id',
+  }).catch(err => {
+    reqLogger.error({ err, paymentId }, 'Failed to insert webhook log');
+  });
+
+  if (!orderId) {
+    reqLogger.warn({ paymentId, contactId }, 'Refund has no order_id — cannot match original Purchase');
+    return;
+  }
+
+  reqLogger.info({ paymentId, contactId, orderId, amount }, 'Processing Keap refund');
+  sendMetaRefund({
+    orderId,
+    eventId: `refund_txn_${paymentId}`,
+    refundType: 'keap_refund',
+    amount: amount ?? null,
+    currency,
+  }).catch(err => {
+    reqLogger.error({ err, paymentId, orderId }, 'Failed to queue Refund CAPI event');
+  });
+}
+
+/**
+ * Webhook log row for a payment that ends without a CAPI event. Every terminal
+ * outcome needs one, or the reconciliation sweep keeps picking the payment up.
+ */
+function logSkippedPayment(
+  paymentId: number,
+  transaction: Record<string, unknown>,
+  contactId: number | null,
+  brand: string | null,
+  orderId: string | null,
+  note: string,
+  reqLogger: typeof logger
+): void {
+  storage.insertWebhookLog({
+    created_at: new Date().toISOString(),
+    payment_id: paymentId,
+    is_duplicate: false,
+    contact_id: contactId,
+    brand,
+    event_name: null,
+    subscription_plan_id: null,
+    prior_order_count: null,
+    order_id: orderId,
+    amount: (transaction.amount as number | undefined) ?? null,
+    currency: (transaction.currency as string) || 'USD',
+    raw_transaction_json: JSON.stringify(transaction),
+    raw_order_json: null,
+    classification_note: note,
+  }).catch(err => {
+    reqLogger.error({ err, paymentId }, 'Failed to insert webhook log');
+  });
+}
+
 /**
  * Process a single payment from Keap webhook.
  * Fetches payment details from Keap API, looks up tracking context
@@ -206,10 +594,10 @@ async function processPayment(
   // ── Duplicate check ──
   // Keap sometimes fires the same payment_id multiple times.
   // Check the webhook log for a prior non-duplicate row before doing any API work.
-  const alreadyProcessed = await bigQueryClient.checkPaymentProcessed(paymentId);
+  const alreadyProcessed = await storage.checkPaymentProcessed(paymentId);
   if (alreadyProcessed) {
     reqLogger.warn({ paymentId }, 'Duplicate payment webhook — skipping processing, logging as duplicate');
-    bigQueryClient.insertWebhookLog({
+    storage.insertWebhookLog({
       created_at: new Date().toISOString(),
       payment_id: paymentId,
       is_duplicate: true,
@@ -249,13 +637,21 @@ async function processPayment(
 
   if (!contactId) {
     reqLogger.warn({ paymentId }, 'No contact_id in transaction');
+    logSkippedPayment(paymentId, transaction, null, null, orderId, 'no_contact_id', reqLogger);
     return null;
   }
 
+  // Refunds come through as their own payment transaction against the original order
+  if (isRefundTransaction(transaction)) {
+    await processRefund(paymentId, transaction, contactId, orderId, reqLogger);
+    return contactId;
+  }
+
   // Fetch contact details for email + name
   const contact = await keapClient.getContactById(contactId);
   if (!contact) {
     reqLogger.warn({ contactId }, 'Contact not found in Keap');
+    logSkippedPayment(paymentId, transaction, contactId, null, orderId, 'contact_not_found', reqLogger);
     return contactId;
   }
 
@@ -287,7 +683,7 @@ async function processPayment(
   const contactIdStr = String(contactId);
 
   // Look up tracking context for enrichment (fbp, fbc, pixel_id, etc.)
-  const trackingCtx = await bigQueryClient.lookupTrackingContext(contactIdStr, email);
+  const trackingCtx = await storage.lookupTrackingContext(contactIdStr, email);
 
   // If we found tracking context by email but it had no keap_contact_id, backfill
   if (trackingCtx && contactIdStr && !trackingCtx.keap_contact_id) {
@@ -310,7 +706,7 @@ async function processPayment(
       user_agent: trackingCtx.user_agent,
       ip_address: trackingCtx.ip_address,
     };
-    bigQueryClient.insertTrackingContext(backfillRecord).catch(err => {
+    storage.insertTrackingContext(backfillRecord).catch(err => {
       reqLogger.error({ err }, 'Failed to backfill tracking context with contact_id');
     });
   }
@@ -320,17 +716,16 @@ async function processPayment(
   let pixelId: string | null = trackingCtx?.pixel_id || null;
 
   if (!brand && email) {
-    brand = await bigQueryClient.lookupBrandByEmail(email);
+    brand = await storage.lookupBrandByEmail(email);
     if (brand) brand = brand.toLowerCase();
   }
 
   // Fallback: detect brand from transaction's gateway_account_name (e.g., "HRYW-Auth.net")
   if (!brand) {
     const gatewayName = (transaction.gateway_account_name as string) || '';
-    const brandPrefixes = ['hryw', 'chkh', 'gkh', 'flo'];
-    const matched = brandPrefixes.find(b => gatewayName.toLowerCase().startsWith(b));
+    const matched = getBrandByGatewayName(gatewayName);
     if (matched) {
-      brand = matched;
+      brand = matched.brandCode;
       reqLogger.info({ gatewayName, brand }, 'Brand detected from gateway_account_name');
     }
   }
@@ -341,8 +736,14 @@ async function processPayment(
     if (brand) reqLogger.info({ contactId, brand }, 'Brand detected from Keap tags');
   }
 
+  // Keep FIRST_/LAST_PURCHASE_DATE current whether or not the payment goes to Meta
+  syncPurchaseDates(contactId, brand, transaction.transaction_date).catch(err => {
+    reqLogger.error({ err, contactId, paymentId }, 'Failed to update purchase date fields');
+  });
+
   if (!brand) {
     reqLogger.warn({ contactId, email }, 'Cannot determine brand for purchase — skipping CAPI');
+    logSkippedPayment(paymentId, transaction, contactId, null, orderId, 'no_brand', reqLogger);
     return contactId;
   }
 
@@ -352,6 +753,7 @@ async function processPayment(
 
   if (!pixelId) {
     reqLogger.info({ contactId, brand }, 'No pixel_id available for brand — skipping CAPI');
+    logSkippedPayment(paymentId, transaction, contactId, brand, orderId, 'no_pixel_id', reqLogger);
     return contactId;
   }
 
@@ -369,38 +771,35 @@ async function processPayment(
       if (order) {
         rawOrderJson = JSON.stringify(order);
 
-        // If the order was created on a prior date, this is an installment payment
-        // (multi-pay plan) on an order already reported to Meta. Skip CAPI entirely.
-        const orderCreationDate = order.creation_date as string | undefined;
-        if (orderCreationDate) {
-          const orderDay = new Date(orderCreationDate).toISOString().slice(0, 10);
-          const today = new Date().toISOString().slice(0, 10);
-          if (orderDay !== today) {
-            classificationNote = 'installment_skip';
-            reqLogger.info(
-              { paymentId, orderId, orderDay, today },
-              'Skipping CAPI — installment payment on old order'
-            );
-            bigQueryClient.insertWebhookLog({
-              created_at: new Date().toISOString(),
-              payment_id: paymentId,
-              is_duplicate: false,
-              contact_id: contactId,
-              brand,
-              event_name: null,
-              subscription_plan_id: null,
-              prior_order_count: null,
-              order_id: orderId,
-              amount: amount ?? null,
-              currency,
-              raw_transaction_json: JSON.stringify(transaction),
-              raw_order_json: rawOrderJson,
-              classification_note: classificationNote,
-            }).catch(err => {
-              reqLogger.error({ err, paymentId }, 'Failed to insert webhook log');
-            });
-            return contactId;
-          }
+        // A later payment on a payment-plan order is an installment on an order
+        // already reported to Meta. Skip CAPI entirely.
+        const history = await keapClient.getOrderTransactions(Number(orderId)).catch(() => null);
+        const classification = classifyOrderPayment(paymentId, transaction, order, history);
+        classificationNote = classification.note;
+        if (classification.isInstallment) {
+          reqLogger.info(
+            { paymentId, orderId, classificationNote },
+            'Skipping CAPI — installment payment on payment-plan order'
+          );
+          storage.insertWebhookLog({
+            created_at: new Date().toISOString(),
+            payment_id: paymentId,
+            is_duplicate: false,
+            contact_id: contactId,
+            brand,
+            event_name: null,
+            subscription_plan_id: null,
+            prior_order_count: null,
+            order_id: orderId,
+            amount: amount ?? null,
+            currency,
+            raw_transaction_json: JSON.stringify(transaction),
+            raw_order_json: rawOrderJson,
+            classification_note: classificationNote,
+          }).catch(err => {
+            reqLogger.error({ err, paymentId }, 'Failed to insert webhook log');
+          });
+          return contactId;
         }
 
         const items = order.order_items as Array<Record<string, unknown>> | undefined;
@@ -432,7 +831,7 @@ async function processPayment(
   // (indicating a subscription rebill), Purchase otherwise (new subscription or one-time product).
   // jobRecurringId > 0 is the reliable signal — subscription_plan is not populated by Keap for rebills.
   let eventName = 'Purchase';
-  const priorOrderCount: number | null = null;
+  let priorOrderCount: number | null = null;
   if (subscriptionPlanId) {
     eventName = 'RecurringPayment';
     reqLogger.info(
@@ -441,8 +840,19 @@ async function processPayment(
     );
   }
 
+  // Optional LTV / new_customer enrichment for value-based bidding. Computed
+  // before this payment's webhook log row exists, so it only sees prior history.
+  const customerValue =
+    eventName === 'Purchase' && isLtvEnrichmentEnabled()
+      ? await getCustomerValue({ contactId, email, orderId, value: amount ?? 0 })
+      : null;
+  if (customerValue) {
+    priorOrderCount = customerValue.priorPurchaseCount;
+    reqLogger.info({ contactId, ...customerValue }, 'Customer lifetime value computed');
+  }
+
   // Log every processed payment for classification debugging
-  bigQueryClient.insertWebhookLog({
+  storage.insertWebhookLog({
     created_at: new Date().toISOString(),
     payment_id: paymentId,
     is_duplicate: false,
@@ -500,6 +910,11 @@ async function processPayment(
   customData.currency = currency;
   if (orderId) customData.order_id = orderId;
   if (lineItems.length > 0) customData.contents = lineItems;
+  if (customerValue) {
+    customData.predicted_ltv = customerValue.lifetimeValue;
+    customData.customer_lifetime_value = customerValue.lifetimeValue;
+    customData.new_customer = customerValue.newCustomer;
+  }
 
   // Use transaction ID as event_id for Meta dedup + reconciliation tracking
   const eventId = `purchase_txn_${paymentId}`;
@@ -0,0 +1,195 @@
+import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { storage } from '../services/storage.js';
+import { requeueMetaEvent, retryMetaEventNow } from '../services/metaQueue.js';
+import { adminAuth } from '../utils/adminAuth.js';
+import type { MetaQueueRecord } from '../types/index.js';
+
+const STATUSES: MetaQueueRecord['status'][] = ['PENDING', 'SENT', 'FAILED', 'DEAD'];
+const MAX_LIMIT = 1000;
+
+function parseStatuses(value: string | string[] | undefined): MetaQueueRecord['status'][] | null {
+  if (!value) return [];
+  const list = (Array.isArray(value) ? value : value.split(','))
+    .map((s) => s.trim().toUpperCase())
+    .filter(Boolean);
+  return list.every((s) => STATUSES.includes(s as MetaQueueRecord['status']))
+    ? (list as MetaQueueRecord['status'][])
+    : null;
+}
+
+function isIsoDate(value: string | undefined): boolean {
+  return !value || !Number.isNaN(Date.parse(value));
+}
+
+/**
+ * Admin endpoints for the durable Meta CAPI queue (meta_capi_queue).
+ * All require an X-API-Key with the admin:queue scope.
+ *
+ * - GET  /admin/meta-queue                   list latest state per queue_id
+ * - GET  /admin/meta-queue/:queueId          full attempt history of one event
+ * - POST /admin/meta-queue/:queueId/retry    resend a FAILED/DEAD event now
+ * - POST /admin/meta-queue/requeue           requeue everything that failed in a window
+ *
+ * Retries and requeues append rows like the workers do, so history is kept.
+ */
+export async function metaQueueAdminRoutes(fastify: FastifyInstance) {
+  fastify.get(
+    '/admin/meta-queue',
+    async (
+      request: FastifyRequest<{
+        Querystring: {
+          status?: string;
+          brand?: string;
+          source?: string;
+          from?: string;
+          to?: string;
+          limit?: string;
+        };
+      }>,
+      reply: FastifyReply
+    ) => {
+      if (!adminAuth(request, reply, 'admin:queue')) return;
+      const { status, brand, source, from, to, limit } = request.query;
+
+      const statuses = parseStatuses(status);
+      if (!statuses) {
+        return reply.status(400).send({ error: `status must be one of ${STATUSES.join(', ')}` });
+      }
+      if (!isIsoDate(from) || !isIsoDate(to)) {
+        return reply.status(400).send({ error: 'from and to must be ISO timestamps' });
+      }
+
+      const events = await storage.listMetaEvents({
+        statuses,
+        brand: brand?.toLowerCase(),
+        source,
+        from,
+        to,
+        limit: Math.min(Math.max(parseInt(limit || '100', 10) || 100, 1), MAX_LIMIT),
+      });
+      return reply.send({ count: events.length, events });
+    }
+  );
+
+  fastify.get(
+    '/admin/meta-queue/:queueId',
+    async (request: FastifyRequest<{ Params: { queueId: string } }>, reply: FastifyReply) => {
+      if (!adminAuth(request, reply, 'admin:queue')) return;
+      const { queueId } = request.params;
+
+      const history = await storage.getMetaEventHistory(queueId);
+      if (history.length === 0) {
+        return reply.status(404).send({ error: `No queued Meta event: ${queueId}` });
+      }
+      return reply.send({ queueId, status: history[history.length - 1].status, history });
+    }
+  );
+
+  fastify.post(
+    '/admin/meta-queue/:queueId/retry',
+    async (
+      request: FastifyRequest<{
+        Params: { queueId: string };
+        Body:
+          | { payload?: Record<string, unknown> | Record<string, unknown>[]; pixelId?: string }
+          | undefined;
+      }>,
+      reply: FastifyReply
+    ) => {
+      if (!adminAuth(request, reply, 'admin:queue')) return;
+      const { queueId } = request.params;
+      const { payload, pixelId } = request.body || {};
+
+      if (payload !== undefined && (typeof payload !== 'object' || payload === null)) {
+        return reply
+          .status(400)
+          .send({ error: 'payload must be an event object or an array of events' });
+      }
+
+      const history = await storage.getMetaEventHistory(queueId);
+      const latest = history[history.length - 1];
+      if (!latest) {
+        return reply.status(404).send({ error: `No queued Meta event: ${queueId}` });
+      }
+      if (latest.status !== 'FAILED' && latest.status !== 'DEAD') {
+        return reply
+          .status(409)
+          .send({ error: `Event is ${latest.status}; only FAILED or DEAD events can be retried` });
+      }
+
+      const { record, result } = await retryMetaEventNow(latest, {
+        capiPayloadJson: payload
+          ? JSON.stringify(Array.isArray(payload) ? payload : [payload])
+          : undefined,
+        pixelId,
+        reason: 'Retried by admin',
+      });
+      request.log.info(
+        { queueId, pixelId: record.pixel_id, editedPayload: !!payload, success: result.success },
+        'Meta queue event retried by admin'
+      );
+      return reply.send({
+        queueId,
+        status: result.success ? 'SENT' : 'FAILED',
+        httpStatus: result.httpStatus ?? null,
+        error: result.error ?? null,
+      });
+    }
+  );
+
+  fastify.post(
+    '/admin/meta-queue/requeue',
+    async (
+      request: FastifyRequest<{
+        Body:
+          | {
+              from?: string;
+              to?: string;
+              statuses?: string[];
+              brand?: string;
+              source?: string;
+              dryRun?: boolean;
+            }
+          | undefined;
+      }>,
+      reply: FastifyReply
+    ) => {
+      if (!adminAuth(request, reply, 'admin:queue')) return;
+      const { from, to, statuses: statusList, brand, source, dryRun } = request.body || {};
+
+      if (!from || !to || !isIsoDate(from) || !isIsoDate(to)) {
+        return reply.status(400).send({ error: 'from and to (ISO timestamps) are required' });
+      }
+      const statuses = parseStatuses(
+        statusList && statusList.length > 0 ? statusList : ['FAILED', 'DEAD']
+      );
+      if (!statuses || statuses.some((s) => s !== 'FAILED' && s !== 'DEAD')) {
+        return reply.status(400).send({ error: 'statuses may only contain FAILED and DEAD' });
+      }
+
+      const events = await storage.listMetaEvents({
+        statuses,
+        brand: brand?.toLowerCase(),
+        source,
+        from,
+        to,
+        dateField: 'updated_at',
+        limit: MAX_LIMIT,
+      });
+
+      if (!dryRun) {
+        for (const event of events) {
+          await requeueMetaEvent(event, { reason: 'Requeued by admin' });
+        }
+        request.log.info(
+          { from, to, statuses, brand, source, count: events.length },
+          'Meta queue events requeued by admin'
+        );
+      }
+      return reply.send({
+        requeued: dryRun ? 0 : events.length,
+        queueIds: events.map((e) => e.queue_id),
+      });
+    }
+  );
+}
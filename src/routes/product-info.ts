@@ -1,5 +1,5 @@
 import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
-import { bigQueryClient } from '../services/bigquery.js';
+import { storage } from '../services/storage.js';
 
 /**
  * GET /product-info?item=<clickbank_product_id>
@@ -46,7 +46,7 @@ export async function productInfoRoutes(fastify: FastifyInstance) {
         return reply.status(400).send({ error: 'Missing required query parameter: item' });
       }
 
-      const info = await bigQueryClient.getProductInfo(item);
+      const info = await storage.getProductInfo(item);
       if (!info) {
         return reply.status(404).send({ error: `No product found for item: ${item}` });
       }
@@ -1,16 +1,15 @@
 import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { v4 as uuidv4 } from 'uuid';
 import { keapClient } from '../services/keap.js';
-import { bigQueryClient } from '../services/bigquery.js';
-import { SUPPORTED_BRANDS } from '../config/keapFields.js';
+import { storage } from '../services/storage.js';
+import { getAllBrands, getBrandConfig } from '../config/brands.js';
+import { findApiKey, hasApiKeys, hasScope } from '../config/apiKeys.js';
 import { sendMetaWithQueue } from '../services/metaQueue.js';
+import { processSubscriber, recordSubscriberAttempt } from '../services/subscriberQueue.js';
 import { metaCAPIClient } from '../services/meta.js';
 import type { SubscriberQueueEntry, TrackingContextRecord, MetaCAPIEvent, MetaQueueMetadata } from '../types/index.js';
 import { logger } from '../utils/logger.js';
 
-// API key for authenticating requests from brand sites
-const API_KEY = process.env.SUBSCRIBE_API_KEY;
-
 /**
  * Server-side bot detection for first names.
  * Returns a reason string if the name looks suspicious, null if OK.
@@ -49,17 +48,17 @@ function detectBotName(firstName: string): string | null {
  * Required fields:
  * - email: Email address
  * - firstName: First name
- * - brand: Brand code (chkh, hryw, gkh, flo)
- * - tag: Keap tag name to apply (e.g., "HRYW-WebSub")
+ * - brand: Brand code from the brand registry (chkh, hryw, gkh, flo)
  *
  * Optional fields:
+ * - tag: Keap tag name(s) to apply (e.g., "HRYW-WebSub"); defaults to the brand's signup tags
  * - customFields: Object with Keap field names as keys (passed through to Keap)
  */
 interface SubscribeBody {
   email: string;
   firstName: string;
   brand: string;
-  tag: string;
+  tag?: string;
   customFields?: Record<string, string>;
   sourceUrl?: string;
   redirectSlug?: string;
@@ -88,11 +87,11 @@ export async function subscribeRoutes(fastify: FastifyInstance) {
       schema: {
         body: {
           type: 'object',
-          required: ['email', 'firstName', 'brand', 'tag'],
+          required: ['email', 'firstName', 'brand'],
           properties: {
             email: { type: 'string', format: 'email' },
             firstName: { type: 'string' },
-            brand: { type: 'string', enum: [...SUPPORTED_BRANDS] },
+            brand: { type: 'string', enum: getAllBrands() },
             tag: { type: 'string', description: 'Keap tag name to apply' },
             customFields: {
               type: 'object',
@@ -135,6 +134,13 @@ export async function subscribeRoutes(fastify: FastifyInstance) {
               error: { type: 'string' },
             },
           },
+          403: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              error: { type: 'string' },
+            },
+          },
         },
       },
     },
@@ -142,18 +148,19 @@ export async function subscribeRoutes(fastify: FastifyInstance) {
       const requestId = request.id;
       const reqLogger = logger.child({ requestId });
 
-      // Validate API key
-      const apiKey = request.headers['x-api-key'];
-      if (!API_KEY) {
-        reqLogger.error('SUBSCRIBE_API_KEY not configured');
+      // Validate API key (brand scope is checked once the brand is known)
+      const providedKey = request.headers['x-api-key'] as string | undefined;
+      if (!hasApiKeys()) {
+        reqLogger.error('No API keys configured (API_KEYS / SUBSCRIBE_API_KEY)');
         return reply.status(500).send({
           success: false,
           error: 'Server configuration error',
         } satisfies SubscribeResponse);
       }
 
-      if (apiKey !== API_KEY) {
-        reqLogger.warn({ providedKey: apiKey ? 'present' : 'missing' }, 'Invalid API key');
+      const apiKey = findApiKey(providedKey);
+      if (!apiKey) {
+        reqLogger.warn({ providedKey: providedKey ? 'present' : 'missing' }, 'Invalid API key');
         return reply.status(401).send({
           success: false,
           error: 'Unauthorized',
@@ -162,7 +169,7 @@ export async function subscribeRoutes(fastify: FastifyInstance) {
 
       try {
         const {
-          email, firstName, brand, tag, customFields, sourceUrl, redirectSlug,
+          email, firstName, brand, tag: requestedTag, customFields, sourceUrl, redirectSlug,
           eventId, fbp, fbc, fbclid,
           utm_source, utm_medium, utm_campaign, utm_content, utm_term,
           pixelId, userAgent: browserUA,
@@ -172,10 +179,10 @@ export async function subscribeRoutes(fastify: FastifyInstance) {
         const rawPayload = JSON.stringify(request.body);
 
         // Validate required fields
-        if (!email || !firstName || !brand || !tag) {
+        if (!email || !firstName || !brand) {
           return reply.status(400).send({
             success: false,
-            error: 'Missing required fields: email, firstName, brand, tag',
+            error: 'Missing required fields: email, firstName, brand',
           } satisfies SubscribeResponse);
         }
 
@@ -188,12 +195,30 @@ export async function subscribeRoutes(fastify: FastifyInstance) {
         }
 
         // Validate brand
-        if (!SUPPORTED_BRANDS.includes(brand.toLowerCase() as any)) {
+        const brandConfig = getBrandConfig(brand);
+        if (!brandConfig) {
+          return reply.status(400).send({
+            success: false,
+            error: `Unknown brand: ${brand}. Supported: ${getAllBrands().join(', ')}`,
+          } satisfies SubscribeResponse);
+        }
+
+        if (!hasScope(apiKey, `subscribe:${brandConfig.brandCode}`)) {
+          reqLogger.warn({ keyName: apiKey.name, brand: brandConfig.brandCode }, 'API key not allowed for brand');
+          return reply.status(403).send({
+            success: false,
+            error: `API key not allowed for brand: ${brandConfig.brandCode}`,
+          } satisfies SubscribeResponse);
+        }
+
+        const tag = requestedTag || brandConfig.signupTags.join('|');
+        if (!tag) {
           return reply.status(400).send({
             success: false,
-            error: `Unknown brand: ${brand}. Supported: ${SUPPORTED_BRANDS.join(', ')}`,
+            error: `No tag provided and brand ${brand} has no default signup tags`,
           } satisfies SubscribeResponse);
         }
+        const fieldSuffix = brandConfig.customFieldSuffix;
 
         // Extract request metadata
         const forwardedFor = request.headers['x-forwarded-for'];
@@ -211,10 +236,10 @@ export async function subscribeRoutes(fastify: FastifyInstance) {
           email,
           first_name: firstName,
           brand: brand.toUpperCase(),
-          dp_source_id: customFields?.['DP_SOURCE_ID_' + brand.toUpperCase()] || null,
+          dp_source_id: customFields?.['DP_SOURCE_ID_' + fieldSuffix] || null,
           dp_ip_address: customFields?.['DP_IP_ADDRESS'] || ipAddress,
-          dp_first_upload_time: customFields?.['DP_FIRST_UPLOAD_TIME_' + brand.toUpperCase()] || now,
-          dp_optional_inputs: customFields?.['DP_OPTIONAL_INPUTS_' + brand.toUpperCase()] || null,
+          dp_first_upload_time: customFields?.['DP_FIRST_UPLOAD_TIME_' + fieldSuffix] || now,
+          dp_optional_inputs: customFields?.['DP_OPTIONAL_INPUTS_' + fieldSuffix] || null,
           redirect_slug: redirectSlug || null, // For forensic tracking of subscriber journey
           source_url: resolvedSourceUrl,
           user_agent: userAgent,
@@ -228,8 +253,8 @@ export async function subscribeRoutes(fastify: FastifyInstance) {
           processed_at: null,
         };
 
-        // Queue to BigQuery first (ensures we never lose a submission)
-        await bigQueryClient.queueSubscriber(queueEntry);
+        // Queue to storage first (ensures we never lose a submission)
+        await storage.queueSubscriber(queueEntry);
 
         reqLogger.info(
           { queueId: queueEntry.id, email, brand, tag },
@@ -237,51 +262,23 @@ export async function subscribeRoutes(fastify: FastifyInstance) {
         );
 
         // Now attempt to process immediately
-        let contactId: number | null = null;
-        let processingError: string | null = null;
-        let tagsApplied: string[] = [];
-
-        try {
-          // Create or update contact in Keap with custom fields passed through
-          const contact = await keapClient.createOrUpdateContactWithFields(
-            email,
-            firstName,
-            customFields || {}
-          );
-          contactId = contact.id;
-
-          // Apply tags - support pipe-delimited multiple tags (e.g., "HRYW-WebSub|HRYW-Clickbank-Lead")
-          const tagNames = tag.split('|').map(t => t.trim()).filter(t => t.length > 0);
-          for (const tagName of tagNames) {
-            await keapClient.applyTagByName(contact.id, tagName);
-            tagsApplied.push(tagName);
-          }
-
-          // Opt-in the contact for email marketing
-          // This is REQUIRED for them to receive welcome emails and marketing
-          await keapClient.optInEmail(email, 'Website signup form');
+        const outcome = await processSubscriber(
+          { email, firstName, tag, customFields: customFields || {} },
+          reqLogger
+        );
+        const contactId = outcome.contactId;
 
-          reqLogger.info(
-            { contactId, tags: tagsApplied },
-            'Keap processing completed'
-          );
-        } catch (keapError) {
-          // Keap failed - subscriber is queued, will retry later
-          processingError = keapError instanceof Error ? keapError.message : 'Keap processing failed';
+        if (outcome.error) {
+          // Keap failed - subscriber is queued, the retry worker will pick it up
           reqLogger.warn(
-            { error: keapError, queueId: queueEntry.id },
+            { error: outcome.error, queueId: queueEntry.id },
             'Keap processing failed, subscriber queued for retry'
           );
         }
 
-        // Record processing result to BigQuery (append-only, no streaming buffer issues)
+        // Record processing result to storage
         // Fire and forget - don't make client wait
-        bigQueryClient.updateSubscriberStatus(
-          queueEntry.id,
-          contactId,
-          tagsApplied,
-          processingError
-        ).catch(bqError => {
+        recordSubscriberAttempt(queueEntry.id, 1, outcome).catch(bqError => {
           reqLogger.error({ queueId: queueEntry.id, error: bqError }, 'Failed to record processing result');
         });
 
@@ -310,7 +307,7 @@ export async function subscribeRoutes(fastify: FastifyInstance) {
               user_agent: browserUA || userAgent,
               ip_address: ipAddress,
             };
-            await bigQueryClient.insertTrackingContext(trackingRecord);
+            await storage.insertTrackingContext(trackingRecord);
 
             // Send Meta CAPI Subscribe event
             // Use pixelId from frontend, or fall back to env var for the brand
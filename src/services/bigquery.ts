@@ -1,8 +1,9 @@
 import { BigQuery } from '@google-cloud/bigquery';
-import type { TagAction, ClickbankTransaction, ClickbankTransactionResult, SubscriberQueueEntry, TrackingContextRecord, MetaQueueRecord, KeapWebhookLogRecord } from '../types/index.js';
+import type { TagAction, ClickbankTransaction, ClickbankTransactionResult, ClickbankLineItemResult, SubscriberQueueEntry, SubscriberProcessingResult, RetryableSubscriber, TrackingContextRecord, MetaQueueRecord, KeapWebhookLogRecord, KeapLifecycleEventRecord, KeapHookEventRecord, KeapHookSecretRecord, KeapReconciliationJob, PurchaseHistoryRow, MetaQueueFilter, ClickbankIntakeClaim } from '../types/index.js';
+import type { StorageBackend } from './storage.js';
 import { logger } from '../utils/logger.js';
 
-class BigQueryClient {
+class BigQueryClient implements StorageBackend {
   private client: BigQuery;
   private projectId: string;
   private dataset: string;
@@ -13,6 +14,13 @@ class BigQueryClient {
   private trackingContextTable: string;
   private metaCapiQueueTable: string;
   private transactionResultsTable: string;
+  private lineItemResultsTable: string;
+  private intakeTable: string;
+  private lifecycleEventsTable: string;
+  private hookEventsTable: string;
+  private reconciliationJobsTable: string;
+  private leasesTable: string;
+  private hookSecretsTable: string;
 
   constructor() {
     this.projectId = process.env.GCP_PROJECT_ID || 'watchful-force-477418-b9';
@@ -26,6 +34,13 @@ class BigQueryClient {
     this.trackingContextTable = 'tracking_context';
     this.metaCapiQueueTable = 'meta_capi_queue';
     this.transactionResultsTable = 'clickbank_transaction_results';
+    this.lineItemResultsTable = 'clickbank_line_item_results';
+    this.intakeTable = 'clickbank_ipn_intake';
+    this.lifecycleEventsTable = 'keap_lifecycle_events';
+    this.hookEventsTable = 'keap_hook_events';
+    this.reconciliationJobsTable = 'keap_reconciliation_jobs';
+    this.leasesTable = 'work_leases';
+    this.hookSecretsTable = 'keap_hook_secrets';
 
     this.client = new BigQuery({
       projectId: this.projectId,
@@ -65,7 +80,7 @@ class BigQueryClient {
   /**
    * Get tag actions for a product and transaction type
    *
-   * Returns array of action objects where action is 'apply_tag' or 'apply_note'
+   * Returns array of action objects where action is 'apply_tag', 'apply_note' or 'remove_tag'
    * Supports pipe-delimited transaction types (e.g., 'SALE|TEST_SALE')
    * Matches if transactionType is in the pipe-delimited list
    */
@@ -101,7 +116,7 @@ class BigQueryClient {
           keap_tag_category?: string;
           fulfillment_trigger_tag?: string;
         }) => ({
-          action: row.action as 'apply_tag' | 'apply_note',
+          action: row.action as TagAction['action'],
           tagId: row.keap_tag_id,
           tagCategory: row.keap_tag_category,
           triggerTag: row.fulfillment_trigger_tag,
@@ -127,6 +142,8 @@ class BigQueryClient {
    * - Affiliate information (for reporting, not as Keap tags)
    * - Tags applied/removed
    * - Processing status
+   *
+   * Throws if the row isn't written.
    */
   async logTransaction(transaction: ClickbankTransaction): Promise<void> {
     try {
@@ -144,6 +161,7 @@ class BigQueryClient {
       } else {
         logger.error({ error }, 'Failed to log transaction to BigQuery');
       }
+      throw error;
     }
   }
 
@@ -173,54 +191,68 @@ class BigQueryClient {
    * Record subscriber processing result (append-only pattern)
    *
    * Instead of UPDATE (which fails on streaming buffer), we INSERT to a
-   * separate results table. Use the subscriber_with_status view to see
-   * the combined data.
+   * separate results table — one row per attempt. Use the subscriber_with_status
+   * view to see the combined data. Throws if the row isn't written.
    */
-  async updateSubscriberStatus(
-    id: string,
-    keapContactId: number | null,
-    tagsApplied: string[],
-    error: string | null
-  ): Promise<void> {
+  async insertSubscriberResult(result: SubscriberProcessingResult): Promise<void> {
     try {
       const tableRef = this.client.dataset(this.dataset).table(this.subscriberResultsTable);
 
-      const resultRecord = {
-        subscriber_id: id,
-        keap_contact_id: keapContactId,
-        tags_applied: tagsApplied,
-        processing_error: error,
-        is_success: !error,
-        processed_at: new Date().toISOString(),
-      };
-
-      await tableRef.insert([resultRecord]);
-      logger.info({ id, keapContactId, tagsApplied, success: !error }, 'Subscriber processing result recorded');
+      await tableRef.insert([result]);
+      logger.info(
+        {
+          id: result.subscriber_id,
+          keapContactId: result.keap_contact_id,
+          tagsApplied: result.tags_applied,
+          status: result.status,
+          attempt: result.attempt_count,
+        },
+        'Subscriber processing result recorded'
+      );
     } catch (err) {
       const bqError = err as { errors?: Array<{ errors: unknown[] }> };
       if (bqError.errors) {
-        logger.error({ errors: bqError.errors, id }, 'BigQuery result insert errors');
+        logger.error({ errors: bqError.errors, id: result.subscriber_id }, 'BigQuery result insert errors');
       } else {
         const errorMessage = err instanceof Error ? err.message : String(err);
-        logger.error({ error: errorMessage, id }, 'Failed to record subscriber processing result');
+        logger.error({ error: errorMessage, id: result.subscriber_id }, 'Failed to record subscriber processing result');
       }
+      throw err;
     }
   }
 
   /**
    * Get unprocessed subscribers for retry processing
    *
-   * Uses LEFT JOIN with results table to find subscribers that don't
-   * have a processing result yet (append-only pattern).
+   * Uses the latest result row per subscriber (append-only pattern) and returns:
+   * - subscribers with no result at all, once they are older than the in-flight
+   *   window (the route records its own first attempt asynchronously)
+   * - subscribers whose latest attempt FAILED and whose backoff has elapsed
+   *
+   * Result rows written before attempt tracking existed have no status /
+   * attempt_count; they are treated as a single FAILED attempt.
    */
-  async getUnprocessedSubscribers(limit: number = 100): Promise<SubscriberQueueEntry[]> {
+  async getUnprocessedSubscribers(limit: number = 100): Promise<RetryableSubscriber[]> {
     try {
       const query = `
-        SELECT q.*
+        WITH latest AS (
+          SELECT AS VALUE ARRAY_AGG(r ORDER BY processed_at DESC LIMIT 1)[OFFSET(0)]
+          FROM \`${this.projectId}.${this.dataset}.${this.subscriberResultsTable}\` r
+          GROUP BY subscriber_id
+        )
+        SELECT q.*, COALESCE(l.attempt_count, IF(l.subscriber_id IS NULL, 0, 1)) AS attempt_count
         FROM \`${this.projectId}.${this.dataset}.${this.subscriberQueueTable}\` q
-        LEFT JOIN \`${this.projectId}.${this.dataset}.${this.subscriberResultsTable}\` r
-          ON q.id = r.subscriber_id
-        WHERE r.subscriber_id IS NULL
+        LEFT JOIN latest l
+          ON q.id = l.subscriber_id
+        WHERE (
+            l.subscriber_id IS NULL
+            AND q.created_at <= TIMESTAMP_SUB(CURRENT_TIMESTAMP(), INTERVAL 5 MINUTE)
+          )
+          OR (
+            l.is_success = false
+            AND COALESCE(l.status, 'FAILED') = 'FAILED'
+            AND COALESCE(l.next_attempt_at, l.processed_at) <= CURRENT_TIMESTAMP()
+          )
         ORDER BY q.created_at ASC
         LIMIT @limit
       `;
@@ -230,7 +262,7 @@ class BigQueryClient {
         params: { limit },
       });
 
-      return rows as SubscriberQueueEntry[];
+      return rows as RetryableSubscriber[];
     } catch (error) {
       logger.error({ error }, 'Failed to get unprocessed subscribers');
       return [];
@@ -272,7 +304,8 @@ class BigQueryClient {
    * Record transaction processing result as an append-only row.
    * Avoids BigQuery streaming buffer limitation (DML UPDATE fails on recently
    * streamed rows). getUnprocessedTransactions LEFT JOINs this table to
-   * exclude completed transactions.
+   * exclude completed transactions. Throws if the result isn't recorded, so
+   * the caller can leave the transaction leased.
    */
   async updateTransactionStatus(
     id: string,
@@ -298,6 +331,114 @@ class BigQueryClient {
       logger.info({ id, keapContactId, success: !error }, 'Transaction result recorded');
     } catch (err) {
       logger.error({ error: err, id }, 'Failed to record transaction result');
+      throw err;
+    }
+  }
+
+  /**
+   * Record per-line-item outcomes for a processed transaction (append-only).
+   * One row per product in the IPN, so a failed order bump / upsell can be
+   * told apart from the main product.
+   */
+  async insertLineItemResults(results: ClickbankLineItemResult[]): Promise<void> {
+    if (results.length === 0) return;
+
+    try {
+      const tableRef = this.client.dataset(this.dataset).table(this.lineItemResultsTable);
+      await tableRef.insert(results);
+
+      logger.info(
+        { transactionId: results[0].transaction_id, lineItems: results.length },
+        'Line item results recorded'
+      );
+    } catch (error) {
+      const bqError = error as { errors?: Array<{ errors: unknown[] }> };
+      if (bqError.errors) {
+        logger.error({ errors: bqError.errors }, 'BigQuery line item results insert errors');
+      } else {
+        logger.error({ error }, 'Failed to record line item results');
+      }
+    }
+  }
+
+  /**
+   * Claim an IPN's line items by intake_key, across all instances.
+   * Returns null when this delivery claimed at least one key, otherwise the id
+   * of the transaction that claimed them first (a redelivery).
+   *
+   * The MERGE has an UPDATE clause (delivery_count) so BigQuery serializes it
+   * with concurrent MERGEs on the table instead of running them as plain
+   * INSERTs. DML rows are visible immediately, unlike streamed inserts.
+   * Fails open: if the claim can't be made the IPN is processed.
+   */
+  async claimClickbankIntake(claims: ClickbankIntakeClaim[]): Promise<string | null> {
+    if (claims.length === 0) return null;
+    const table = `\`${this.projectId}.${this.dataset}.${this.intakeTable}\``;
+
+    try {
+      await this.client.query({
+        query: `
+          MERGE ${table} t
+          USING UNNEST(@claims) s
+          ON t.intake_key = s.intake_key
+          WHEN MATCHED THEN
+            UPDATE SET delivery_count = t.delivery_count + 1, last_seen_at = CURRENT_TIMESTAMP()
+          WHEN NOT MATCHED THEN
+            INSERT (intake_key, receipt, transaction_type, line_item_index, product_id, transaction_id,
+                    delivery_count, created_at, last_seen_at)
+            VALUES (s.intake_key, s.receipt, s.transaction_type, s.line_item_index, s.product_id,
+                    s.transaction_id, 1, CURRENT_TIMESTAMP(), CURRENT_TIMESTAMP())
+        `,
+        params: {
+          claims: claims.map(({ intake_key, receipt, transaction_type, line_item_index, product_id, transaction_id }) => ({
+            intake_key,
+            receipt,
+            transaction_type,
+            line_item_index,
+            product_id,
+            transaction_id,
+          })),
+        },
+      });
+
+      const [rows] = await this.client.query({
+        query: `
+          SELECT transaction_id
+          FROM ${table}
+          WHERE intake_key IN UNNEST(@keys)
+          ORDER BY created_at ASC
+        `,
+        params: { keys: claims.map((c) => c.intake_key) },
+      });
+
+      const owners = (rows as Array<{ transaction_id: string }>).map((r) => r.transaction_id);
+      if (owners.length === 0 || owners.includes(claims[0].transaction_id)) return null;
+      return owners[0];
+    } catch (error) {
+      logger.error({ error, receipt: claims[0].receipt }, 'Failed to claim ClickBank IPN intake — processing anyway');
+      return null;
+    }
+  }
+
+  /**
+   * Drop the intake keys a delivery claimed (its transaction couldn't be
+   * logged), so a redelivery of the IPN is processed instead of marked
+   * DUPLICATE. Keys claimed by an earlier transaction are left alone.
+   */
+  async releaseClickbankIntake(claims: ClickbankIntakeClaim[]): Promise<void> {
+    if (claims.length === 0) return;
+    const table = `\`${this.projectId}.${this.dataset}.${this.intakeTable}\``;
+
+    try {
+      await this.client.query({
+        query: `
+          DELETE FROM ${table}
+          WHERE transaction_id = @transactionId AND intake_key IN UNNEST(@keys)
+        `,
+        params: { transactionId: claims[0].transaction_id, keys: claims.map((c) => c.intake_key) },
+      });
+    } catch (error) {
+      logger.error({ error, receipt: claims[0].receipt }, 'Failed to release ClickBank IPN intake claim');
     }
   }
 
@@ -381,20 +522,23 @@ class BigQueryClient {
    */
   async getRecentlyProcessedTransactionIds(minutesBack: number = 30): Promise<Set<string>> {
     try {
+      // Sent to Meta ("purchase_txn_845325" → "845325"), plus payments the
+      // webhook handled without a Purchase (refunds, no brand, ...)
       const query = `
-        SELECT DISTINCT event_id
+        SELECT DISTINCT REPLACE(event_id, 'purchase_txn_', '') AS txn_id
         FROM \`${this.projectId}.${this.dataset}.${this.metaCapiQueueTable}\`
         WHERE source = 'purchase'
           AND event_id IS NOT NULL
           AND event_id LIKE 'purchase_txn_%'
           AND created_at >= TIMESTAMP_SUB(CURRENT_TIMESTAMP(), INTERVAL ${minutesBack} MINUTE)
+        UNION DISTINCT
+        SELECT CAST(payment_id AS STRING) AS txn_id
+        FROM \`${this.projectId}.${this.dataset}.keap_webhook_log\`
+        WHERE is_duplicate = false
+          AND created_at >= TIMESTAMP_SUB(CURRENT_TIMESTAMP(), INTERVAL ${minutesBack} MINUTE)
       `;
       const [rows] = await this.client.query({ query });
-      return new Set(rows.map((r: Record<string, unknown>) => {
-        const eventId = String(r.event_id);
-        // Extract transaction ID from "purchase_txn_845325" → "845325"
-        return eventId.replace('purchase_txn_', '');
-      }));
+      return new Set(rows.map((r: Record<string, unknown>) => String(r.txn_id)));
     } catch (error) {
       logger.error({ error }, 'Failed to get recently processed transaction IDs');
       return new Set();
@@ -403,7 +547,7 @@ class BigQueryClient {
 
   /**
    * Insert a meta CAPI queue row (append-only).
-   * Used for both initial PENDING and subsequent status rows.
+   * Used for both initial PENDING and subsequent status rows. Throws on failure.
    */
   async insertMetaQueueRow(record: MetaQueueRecord): Promise<void> {
     try {
@@ -420,6 +564,7 @@ class BigQueryClient {
       } else {
         logger.error({ error }, 'Failed to insert meta queue row');
       }
+      throw error;
     }
   }
 
@@ -455,6 +600,117 @@ class BigQueryClient {
     }
   }
 
+  /**
+   * Latest status row of the first Purchase/RecurringPayment queued for an order
+   * (ClickBank receipt or Keap order ID). Used to tie a refund back to the sale.
+   */
+  async getPurchaseMetaEvent(orderId: string): Promise<MetaQueueRecord | null> {
+    try {
+      const query = `
+        WITH latest AS (
+          SELECT AS VALUE ARRAY_AGG(t ORDER BY updated_at DESC LIMIT 1)[OFFSET(0)]
+          FROM \`${this.projectId}.${this.dataset}.${this.metaCapiQueueTable}\` t
+          WHERE source = 'purchase' AND order_id = @orderId
+          GROUP BY queue_id
+        )
+        SELECT * FROM latest
+        ORDER BY created_at ASC
+        LIMIT 1
+      `;
+      const [rows] = await this.client.query({
+        query,
+        params: { orderId },
+      });
+      return rows.length > 0 ? (rows[0] as MetaQueueRecord) : null;
+    } catch (error) {
+      logger.error({ error, orderId }, 'Failed to look up purchase meta event');
+      return null;
+    }
+  }
+
+  /**
+   * Latest row of each queue_id matching the filter, newest first (admin API).
+   * Throws on query errors so the admin endpoint reports them.
+   */
+  async listMetaEvents(filter: MetaQueueFilter): Promise<MetaQueueRecord[]> {
+    const dateField = filter.dateField === 'updated_at' ? 'updated_at' : 'created_at';
+    const conditions: string[] = [];
+    const params: Record<string, unknown> = { limit: filter.limit };
+    if (filter.statuses?.length) {
+      conditions.push('status IN UNNEST(@statuses)');
+      params.statuses = filter.statuses;
+    }
+    if (filter.brand) {
+      conditions.push('brand = @brand');
+      params.brand = filter.brand;
+    }
+    if (filter.source) {
+      conditions.push('source = @source');
+      params.source = filter.source;
+    }
+    if (filter.from) {
+      conditions.push(`${dateField} >= TIMESTAMP(@from)`);
+      params.from = filter.from;
+    }
+    if (filter.to) {
+      conditions.push(`${dateField} < TIMESTAMP(@to)`);
+      params.to = filter.to;
+    }
+
+    const query = `
+      WITH latest AS (
+        SELECT AS VALUE ARRAY_AGG(t ORDER BY updated_at DESC LIMIT 1)[OFFSET(0)]
+        FROM \`${this.projectId}.${this.dataset}.${this.metaCapiQueueTable}\` t
+        ${filter.from && dateField === 'created_at' ? 'WHERE created_at >= TIMESTAMP(@from)' : ''}
+        GROUP BY queue_id
+      )
+      SELECT * FROM latest
+      ${conditions.length ? `WHERE ${conditions.join(' AND ')}` : ''}
+      ORDER BY ${dateField} DESC
+      LIMIT @limit
+    `;
+    try {
+      const [rows] = await this.client.query({ query, params });
+      return rows as MetaQueueRecord[];
+    } catch (error) {
+      logger.error({ error, filter }, 'Failed to list meta events');
+      throw error;
+    }
+  }
+
+  /**
+   * Every row of a queue_id, oldest first — the event's attempt history.
+   */
+  async getMetaEventHistory(queueId: string): Promise<MetaQueueRecord[]> {
+    const query = `
+      SELECT *
+      FROM \`${this.projectId}.${this.dataset}.${this.metaCapiQueueTable}\`
+      WHERE queue_id = @queueId
+      ORDER BY updated_at ASC
+    `;
+    try {
+      const [rows] = await this.client.query({ query, params: { queueId } });
+      return rows as MetaQueueRecord[];
+    } catch (error) {
+      logger.error({ error, queueId }, 'Failed to get meta event history');
+      throw error;
+    }
+  }
+
+  /**
+   * Mark a queued purchase as refunded by appending a copy of its latest row
+   * with refunded_at / refund_event_id set (status is unchanged).
+   */
+  async markMetaEventRefunded(record: MetaQueueRecord, refundEventId: string): Promise<void> {
+    const now = new Date().toISOString();
+    await this.insertMetaQueueRow({
+      ...record,
+      updated_at: now,
+      refunded_at: now,
+      refund_event_id: refundEventId,
+    });
+  }
+
   /**
    * Look up brand for a contact by email (from subscriber_queue).
    * Returns the most recent brand, or null if never subscribed.
@@ -482,6 +738,42 @@ class BigQueryClient {
     }
   }
 
+  /**
+   * A contact's ClickBank sales/refunds (one row per receipt + type, matched
+   * by contact ID or email) and Keap payments/refunds from the webhook log.
+   * Returns null if the query fails, so callers can tell "unknown" from "none".
+   */
+  async getPurchaseHistory(keapContactId: number, email: string | null): Promise<PurchaseHistoryRow[] | null> {
+    try {
+      const query = `
+        SELECT 'clickbank' AS source, receipt AS order_id, transaction_type,
+               ANY_VALUE(amount) AS amount, MIN(created_at) AS created_at
+        FROM \`${this.projectId}.${this.dataset}.${this.transactionsTable}\`
+        WHERE (keap_contact_id = @keapContactId OR (@email != '' AND LOWER(email) = LOWER(@email)))
+          AND transaction_type IN ('SALE', 'REBILL', 'RFND', 'CGBK')
+          AND amount IS NOT NULL
+        GROUP BY receipt, transaction_type
+        UNION ALL
+        SELECT 'keap' AS source, order_id,
+               IF(classification_note LIKE 'refund%', 'REFUND', 'PAYMENT') AS transaction_type,
+               ANY_VALUE(amount) AS amount, MIN(created_at) AS created_at
+        FROM \`${this.projectId}.${this.dataset}.keap_webhook_log\`
+        WHERE contact_id = @keapContactId
+          AND is_duplicate = false
+          AND amount IS NOT NULL
+        GROUP BY payment_id, order_id, transaction_type
+      `;
+      const [rows] = await this.client.query({
+        query,
+        params: { keapContactId, email: email || '' },
+      });
+      return rows.map((r: Record<string, unknown>) => ({ ...r, amount: Number(r.amount) })) as PurchaseHistoryRow[];
+    } catch (error) {
+      logger.error({ error, keapContactId }, 'Failed to get purchase history');
+      return null;
+    }
+  }
+
   /**
    * Check whether a payment_id has already been processed (non-duplicate row exists).
    * Used to detect Keap duplicate webhook deliveries before doing any API work.
@@ -530,6 +822,191 @@ class BigQueryClient {
     }
   }
 
+  /**
+   * Insert a Keap subscription/order lifecycle event row (append-only)
+   */
+  async insertLifecycleEvent(record: KeapLifecycleEventRecord): Promise<void> {
+    try {
+      const tableRef = this.client.dataset(this.dataset).table(this.lifecycleEventsTable);
+      await tableRef.insert([record]);
+      logger.info(
+        { eventKey: record.event_key, objectId: record.object_id, status: record.status },
+        'Lifecycle event row inserted'
+      );
+    } catch (error) {
+      const bqError = error as { errors?: Array<{ errors: unknown[] }> };
+      if (bqError.errors) {
+        logger.error({ errors: bqError.errors }, 'BigQuery lifecycle event insert errors');
+      } else {
+        logger.error({ error }, 'Failed to insert lifecycle event row');
+      }
+    }
+  }
+
+  /**
+   * Insert a raw Keap REST hook delivery (append-only)
+   */
+  async insertKeapHookEvent(record: KeapHookEventRecord): Promise<void> {
+    try {
+      const tableRef = this.client.dataset(this.dataset).table(this.hookEventsTable);
+      await tableRef.insert([record]);
+      logger.info({ eventId: record.event_id, eventKey: record.event_key }, 'Keap hook event row inserted');
+    } catch (error) {
+      const bqError = error as { errors?: Array<{ errors: unknown[] }> };
+      if (bqError.errors) {
+        logger.error({ errors: bqError.errors }, 'BigQuery Keap hook event insert errors');
+      } else {
+        logger.error({ error }, 'Failed to insert Keap hook event row');
+      }
+    }
+  }
+
+  /**
+   * Get a persisted Keap REST hook delivery by event_id (for replay)
+   */
+  async getKeapHookEvent(eventId: string): Promise<KeapHookEventRecord | null> {
+    try {
+      const query = `
+        SELECT *
+        FROM \`${this.projectId}.${this.dataset}.${this.hookEventsTable}\`
+        WHERE event_id = @eventId
+        LIMIT 1
+      `;
+      const [rows] = await this.client.query({
+        query,
+        params: { eventId },
+      });
+      return rows.length > 0 ? (rows[0] as KeapHookEventRecord) : null;
+    } catch (error) {
+      logger.error({ error, eventId }, 'Failed to get Keap hook event');
+      return null;
+    }
+  }
+
+  /**
+   * Append a Keap hook secret row (a handshake secret, or an opened handshake
+   * window). Throws, so a handshake is only echoed once its secret is stored.
+   */
+  async insertKeapHookSecret(record: KeapHookSecretRecord): Promise<void> {
+    const tableRef = this.client.dataset(this.dataset).table(this.hookSecretsTable);
+    await tableRef.insert([record]);
+  }
+
+  /**
+   * Latest Keap hook secret for a hook path (or latest row, secret or handshake
+   * window, with includeWindows). Throws on query errors.
+   */
+  async getKeapHookSecret(hookPath: string, includeWindows: boolean = false): Promise<KeapHookSecretRecord | null> {
+    const [rows] = await this.client.query({
+      query: `
+        SELECT FORMAT_TIMESTAMP('%Y-%m-%dT%H:%M:%E3SZ', created_at) AS created_at,
+               hook_path, secret_hash, request_id
+        FROM \`${this.projectId}.${this.dataset}.${this.hookSecretsTable}\`
+        WHERE hook_path = @hookPath
+          ${includeWindows ? '' : 'AND secret_hash IS NOT NULL'}
+        ORDER BY created_at DESC
+        LIMIT 1
+      `,
+      params: { hookPath },
+    });
+    return rows.length > 0 ? (rows[0] as KeapHookSecretRecord) : null;
+  }
+
+  /**
+   * Append a reconciliation job row (initial PENDING and every later attempt)
+   */
+  async insertReconciliationJobRow(job: KeapReconciliationJob): Promise<void> {
+    try {
+      const tableRef = this.client.dataset(this.dataset).table(this.reconciliationJobsTable);
+      await tableRef.insert([job]);
+      logger.info(
+        { jobId: job.job_id, status: job.status, attempt: job.attempt_count },
+        'Reconciliation job row inserted'
+      );
+    } catch (error) {
+      const bqError = error as { errors?: Array<{ errors: unknown[] }> };
+      if (bqError.errors) {
+        logger.error({ errors: bqError.errors }, 'BigQuery reconciliation job insert errors');
+      } else {
+        logger.error({ error }, 'Failed to insert reconciliation job row');
+      }
+    }
+  }
+
+  /**
+   * Latest row of each PENDING job whose due_at has passed
+   */
+  async getDueReconciliationJobs(limit: number = 20): Promise<KeapReconciliationJob[]> {
+    try {
+      const query = `
+        WITH latest AS (
+          SELECT AS VALUE ARRAY_AGG(t ORDER BY updated_at DESC LIMIT 1)[OFFSET(0)]
+          FROM \`${this.projectId}.${this.dataset}.${this.reconciliationJobsTable}\` t
+          WHERE created_at >= TIMESTAMP_SUB(CURRENT_TIMESTAMP(), INTERVAL 7 DAY)
+          GROUP BY job_id
+        )
+        SELECT * FROM latest
+        WHERE status = 'PENDING'
+          AND due_at <= CURRENT_TIMESTAMP()
+        ORDER BY due_at ASC
+        LIMIT @limit
+      `;
+      const [rows] = await this.client.query({
+        query,
+        params: { limit },
+      });
+      return rows as KeapReconciliationJob[];
+    } catch (error) {
+      logger.error({ error }, 'Failed to get due reconciliation jobs');
+      return [];
+    }
+  }
+
+  /**
+   * Take the leases that are free: keys never leased, or leased and expired
+   * without being released. Returns the keys now held by `owner`.
+   * The MERGE serializes with concurrent lease MERGEs on the table; one that
+   * loses a conflict throws, and the caller treats that as nothing acquired.
+   */
+  async acquireLeases(keys: string[], owner: string, ttlMs: number): Promise<string[]> {
+    if (keys.length === 0) return [];
+    const table = `\`${this.projectId}.${this.dataset}.${this.leasesTable}\``;
+
+    await this.client.query({
+      query: `
+        MERGE ${table} t
+        USING (SELECT lease_key FROM UNNEST(@keys) AS lease_key) s
+        ON t.lease_key = s.lease_key
+        WHEN MATCHED AND t.released_at IS NULL AND t.expires_at < CURRENT_TIMESTAMP() THEN
+          UPDATE SET owner = @owner, acquired_at = CURRENT_TIMESTAMP(),
+            expires_at = TIMESTAMP_ADD(CURRENT_TIMESTAMP(), INTERVAL @ttlMs MILLISECOND)
+        WHEN NOT MATCHED THEN
+          INSERT (lease_key, owner, created_at, acquired_at, expires_at, released_at)
+          VALUES (s.lease_key, @owner, CURRENT_TIMESTAMP(), CURRENT_TIMESTAMP(),
+            TIMESTAMP_ADD(CURRENT_TIMESTAMP(), INTERVAL @ttlMs MILLISECOND), NULL)
+      `,
+      params: { keys, owner, ttlMs },
+    });
+
+    const [rows] = await this.client.query({
+      query: `SELECT lease_key FROM ${table} WHERE lease_key IN UNNEST(@keys) AND owner = @owner`,
+      params: { keys, owner },
+    });
+    return (rows as Array<{ lease_key: string }>).map((r) => r.lease_key);
+  }
+
+  async releaseLeases(keys: string[], owner: string): Promise<void> {
+    if (keys.length === 0) return;
+    await this.client.query({
+      query: `
+        UPDATE \`${this.projectId}.${this.dataset}.${this.leasesTable}\`
+        SET released_at = CURRENT_TIMESTAMP()
+        WHERE lease_key IN UNNEST(@keys) AND owner = @owner
+      `,
+      params: { keys, owner },
+    });
+  }
+
   async ensureTablesExist(): Promise<void> {
     try {
       const dataset = this.client.dataset(this.dataset);
@@ -546,7 +1023,7 @@ class BigQueryClient {
         { name: 'clickbank_product_id', type: 'STRING', mode: 'REQUIRED' },
         { name: 'brand', type: 'STRING', mode: 'REQUIRED' },
         { name: 'transaction_type', type: 'STRING', mode: 'REQUIRED' }, // Pipe-delimited: 'SALE|TEST_SALE'
-        { name: 'action', type: 'STRING', mode: 'REQUIRED' }, // 'apply_tag' or 'apply_note'
+        { name: 'action', type: 'STRING', mode: 'REQUIRED' }, // 'apply_tag', 'apply_note' or 'remove_tag'
         { name: 'fulfillment_trigger_tag', type: 'STRING', mode: 'NULLABLE' }, // Human-readable tag name or ADDNOTE: text
         { name: 'keap_tag_id', type: 'INTEGER', mode: 'REQUIRED' }, // Keap numeric tag ID (0 for notes)
         { name: 'keap_tag_category', type: 'STRING', mode: 'NULLABLE' }, // e.g., 'CustomerHub', 'Products Purchased'
@@ -560,7 +1037,8 @@ class BigQueryClient {
         { name: 'id', type: 'STRING', mode: 'REQUIRED' },
         { name: 'receipt', type: 'STRING', mode: 'REQUIRED' },
         { name: 'transaction_type', type: 'STRING', mode: 'REQUIRED' },
-        { name: 'brand', type: 'STRING', mode: 'REQUIRED' },
+        { name: 'brand', type: 'STRING', mode: 'REQUIRED' }, // From the brand registry by vendor; 'unknown' if unmapped
+        { name: 'vendor', type: 'STRING', mode: 'NULLABLE' }, // ClickBank vendor nickname from the IPN
         { name: 'email', type: 'STRING', mode: 'REQUIRED' },
         { name: 'first_name', type: 'STRING', mode: 'NULLABLE' },
         { name: 'last_name', type: 'STRING', mode: 'NULLABLE' },
@@ -573,6 +1051,7 @@ class BigQueryClient {
         { name: 'raw_payload', type: 'STRING', mode: 'NULLABLE' },
         { name: 'is_test', type: 'BOOLEAN', mode: 'REQUIRED' },
         { name: 'is_encrypted', type: 'BOOLEAN', mode: 'REQUIRED' },
+        { name: 'decryption_key_id', type: 'STRING', mode: 'NULLABLE' }, // e.g., 'default', 'hrywpub:previous'
         { name: 'source_ip', type: 'STRING', mode: 'NULLABLE' },
         { name: 'user_agent', type: 'STRING', mode: 'NULLABLE' },
         // Processing queue fields
@@ -617,9 +1096,96 @@ class BigQueryClient {
         { name: 'tags_applied', type: 'STRING', mode: 'REPEATED' },
         { name: 'processing_error', type: 'STRING', mode: 'NULLABLE' },
         { name: 'is_success', type: 'BOOLEAN', mode: 'REQUIRED' },
+        { name: 'status', type: 'STRING', mode: 'NULLABLE' }, // SUCCESS, FAILED, DEAD
+        { name: 'attempt_count', type: 'INTEGER', mode: 'NULLABLE' },
+        { name: 'next_attempt_at', type: 'TIMESTAMP', mode: 'NULLABLE' },
         { name: 'processed_at', type: 'TIMESTAMP', mode: 'REQUIRED' },
       ];
 
+      // ClickBank line item results table schema (append-only, one row per product per attempt)
+      const lineItemResultsSchema = [
+        { name: 'transaction_id', type: 'STRING', mode: 'REQUIRED' },
+        { name: 'receipt', type: 'STRING', mode: 'REQUIRED' },
+        { name: 'transaction_type', type: 'STRING', mode: 'REQUIRED' },
+        { name: 'line_item_index', type: 'INTEGER', mode: 'REQUIRED' },
+        { name: 'product_id', type: 'STRING', mode: 'REQUIRED' },
+        { name: 'amount', type: 'NUMERIC', mode: 'NULLABLE' },
+        { name: 'keap_contact_id', type: 'INTEGER', mode: 'NULLABLE' },
+        { name: 'tags_applied', type: 'INTEGER', mode: 'REPEATED' },
+        { name: 'tags_removed', type: 'INTEGER', mode: 'REPEATED' },
+        { name: 'processing_status', type: 'STRING', mode: 'REQUIRED' }, // SUCCESS, FAILED, NO_TAGS
+        { name: 'error_message', type: 'STRING', mode: 'NULLABLE' },
+        { name: 'processed_at', type: 'TIMESTAMP', mode: 'REQUIRED' },
+      ];
+
+      // One row per IPN line item ever received; MERGEd on intake_key to dedupe redeliveries
+      const intakeSchema = [
+        { name: 'intake_key', type: 'STRING', mode: 'REQUIRED' },
+        { name: 'receipt', type: 'STRING', mode: 'REQUIRED' },
+        { name: 'transaction_type', type: 'STRING', mode: 'REQUIRED' },
+        { name: 'line_item_index', type: 'INTEGER', mode: 'REQUIRED' },
+        { name: 'product_id', type: 'STRING', mode: 'REQUIRED' },
+        { name: 'transaction_id', type: 'STRING', mode: 'REQUIRED' },
+        { name: 'delivery_count', type: 'INTEGER', mode: 'REQUIRED' },
+        { name: 'created_at', type: 'TIMESTAMP', mode: 'REQUIRED' },
+        { name: 'last_seen_at', type: 'TIMESTAMP', mode: 'REQUIRED' },
+      ];
+
+      // Keap subscription/order lifecycle events (append-only, one row per object per delivery)
+      const lifecycleEventsSchema = [
+        { name: 'created_at', type: 'TIMESTAMP', mode: 'REQUIRED' },
+        { name: 'event_key', type: 'STRING', mode: 'REQUIRED' },
+        { name: 'object_id', type: 'INTEGER', mode: 'REQUIRED' },
+        { name: 'contact_id', type: 'INTEGER', mode: 'NULLABLE' },
+        { name: 'brand', type: 'STRING', mode: 'NULLABLE' },
+        { name: 'product_id', type: 'INTEGER', mode: 'NULLABLE' },
+        { name: 'product_code', type: 'STRING', mode: 'NULLABLE' },
+        { name: 'status', type: 'STRING', mode: 'REQUIRED' }, // PROCESSED, SKIPPED, FAILED
+        { name: 'fields_updated', type: 'STRING', mode: 'REPEATED' },
+        { name: 'note', type: 'STRING', mode: 'NULLABLE' },
+        { name: 'raw_object_json', type: 'STRING', mode: 'NULLABLE' },
+      ];
+
+      // Raw Keap REST hook deliveries (append-only, persisted before dispatch)
+      const hookEventsSchema = [
+        { name: 'created_at', type: 'TIMESTAMP', mode: 'REQUIRED' },
+        { name: 'event_id', type: 'STRING', mode: 'REQUIRED' },
+        { name: 'event_key', type: 'STRING', mode: 'REQUIRED' },
+        { name: 'route_key', type: 'STRING', mode: 'NULLABLE' },
+        { name: 'object_count', type: 'INTEGER', mode: 'REQUIRED' },
+        { name: 'object_keys_json', type: 'STRING', mode: 'REQUIRED' },
+        { name: 'request_id', type: 'STRING', mode: 'NULLABLE' },
+      ];
+
+      const reconciliationJobsSchema = [
+        { name: 'created_at', type: 'TIMESTAMP', mode: 'REQUIRED' },
+        { name: 'updated_at', type: 'TIMESTAMP', mode: 'REQUIRED' },
+        { name: 'job_id', type: 'STRING', mode: 'REQUIRED' },
+        { name: 'expected_count', type: 'INTEGER', mode: 'REQUIRED' },
+        { name: 'reconciled_txn_ids', type: 'INTEGER', mode: 'REPEATED' },
+        { name: 'status', type: 'STRING', mode: 'REQUIRED' },
+        { name: 'attempt_count', type: 'INTEGER', mode: 'REQUIRED' },
+        { name: 'due_at', type: 'TIMESTAMP', mode: 'REQUIRED' },
+        { name: 'last_error', type: 'STRING', mode: 'NULLABLE' },
+      ];
+
+      // Work leases (MERGEd / UPDATEd, not append-only); old leases expire with their partition
+      const leasesSchema = [
+        { name: 'lease_key', type: 'STRING', mode: 'REQUIRED' },
+        { name: 'owner', type: 'STRING', mode: 'REQUIRED' },
+        { name: 'created_at', type: 'TIMESTAMP', mode: 'REQUIRED' },
+        { name: 'acquired_at', type: 'TIMESTAMP', mode: 'REQUIRED' },
+        { name: 'expires_at', type: 'TIMESTAMP', mode: 'REQUIRED' },
+        { name: 'released_at', type: 'TIMESTAMP', mode: 'NULLABLE' },
+      ];
+
+      const hookSecretsSchema = [
+        { name: 'created_at', type: 'TIMESTAMP', mode: 'REQUIRED' },
+        { name: 'hook_path', type: 'STRING', mode: 'REQUIRED' },
+        { name: 'secret_hash', type: 'STRING', mode: 'NULLABLE' },
+        { name: 'request_id', type: 'STRING', mode: 'NULLABLE' },
+      ];
+
       // Create product tags table if not exists
       const productTagsTableRef = dataset.table(this.productTagsTable);
       const [productTagsExists] = await productTagsTableRef.exists();
@@ -643,6 +1209,8 @@ class BigQueryClient {
           },
         });
         logger.info({ table: this.transactionsTable }, 'Created transactions table');
+      } else {
+        await this.addMissingColumns(transactionsTableRef, transactionsSchema);
       }
 
       // Create subscriber queue table if not exists
@@ -677,11 +1245,153 @@ class BigQueryClient {
           },
         });
         logger.info({ table: this.subscriberResultsTable }, 'Created subscriber processing results table');
+      } else {
+        await this.addMissingColumns(subscriberResultsTableRef, subscriberResultsSchema);
+      }
+
+      // Create line item results table if not exists
+      const lineItemResultsTableRef = dataset.table(this.lineItemResultsTable);
+      const [lineItemResultsExists] = await lineItemResultsTableRef.exists();
+      if (!lineItemResultsExists) {
+        await lineItemResultsTableRef.create({
+          schema: lineItemResultsSchema,
+          timePartitioning: {
+            type: 'DAY',
+            field: 'processed_at',
+          },
+          clustering: {
+            fields: ['receipt', 'product_id'],
+          },
+        });
+        logger.info({ table: this.lineItemResultsTable }, 'Created line item results table');
+      }
+
+      // Create IPN intake table if not exists
+      const intakeTableRef = dataset.table(this.intakeTable);
+      const [intakeExists] = await intakeTableRef.exists();
+      if (!intakeExists) {
+        await intakeTableRef.create({
+          schema: intakeSchema,
+          clustering: {
+            fields: ['intake_key'],
+          },
+        });
+        logger.info({ table: this.intakeTable }, 'Created IPN intake table');
+      }
+
+      // Create lifecycle events table if not exists
+      const lifecycleEventsTableRef = dataset.table(this.lifecycleEventsTable);
+      const [lifecycleEventsExists] = await lifecycleEventsTableRef.exists();
+      if (!lifecycleEventsExists) {
+        await lifecycleEventsTableRef.create({
+          schema: lifecycleEventsSchema,
+          timePartitioning: {
+            type: 'DAY',
+            field: 'created_at',
+          },
+          clustering: {
+            fields: ['event_key', 'contact_id'],
+          },
+        });
+        logger.info({ table: this.lifecycleEventsTable }, 'Created lifecycle events table');
+      }
+
+      // Create Keap hook events table if not exists
+      const hookEventsTableRef = dataset.table(this.hookEventsTable);
+      const [hookEventsExists] = await hookEventsTableRef.exists();
+      if (!hookEventsExists) {
+        await hookEventsTableRef.create({
+          schema: hookEventsSchema,
+          timePartitioning: {
+            type: 'DAY',
+            field: 'created_at',
+          },
+          clustering: {
+            fields: ['event_key'],
+          },
+        });
+        logger.info({ table: this.hookEventsTable }, 'Created Keap hook events table');
+      }
+
+      // Create reconciliation jobs table if not exists
+      const reconciliationJobsTableRef = dataset.table(this.reconciliationJobsTable);
+      const [reconciliationJobsExists] = await reconciliationJobsTableRef.exists();
+      if (!reconciliationJobsExists) {
+        await reconciliationJobsTableRef.create({
+          schema: reconciliationJobsSchema,
+          timePartitioning: {
+            type: 'DAY',
+            field: 'created_at',
+          },
+          clustering: {
+            fields: ['job_id'],
+          },
+        });
+        logger.info({ table: this.reconciliationJobsTable }, 'Created reconciliation jobs table');
+      }
+
+      // Create work leases table if not exists
+      const leasesTableRef = dataset.table(this.leasesTable);
+      const [leasesExists] = await leasesTableRef.exists();
+      if (!leasesExists) {
+        await leasesTableRef.create({
+          schema: leasesSchema,
+          timePartitioning: {
+            type: 'DAY',
+            field: 'created_at',
+            expirationMs: String(7 * 24 * 60 * 60 * 1000),
+          },
+          clustering: {
+            fields: ['lease_key'],
+          },
+        });
+        logger.info({ table: this.leasesTable }, 'Created work leases table');
+      }
+
+      // Create Keap hook secrets table if not exists
+      const hookSecretsTableRef = dataset.table(this.hookSecretsTable);
+      const [hookSecretsExists] = await hookSecretsTableRef.exists();
+      if (!hookSecretsExists) {
+        await hookSecretsTableRef.create({
+          schema: hookSecretsSchema,
+          clustering: {
+            fields: ['hook_path'],
+          },
+        });
+        logger.info({ table: this.hookSecretsTable }, 'Created Keap hook secrets table');
+      }
+
+      // meta_capi_queue is created outside the app; only add the refund columns
+      const metaQueueTableRef = dataset.table(this.metaCapiQueueTable);
+      const [metaQueueExists] = await metaQueueTableRef.exists();
+      if (metaQueueExists) {
+        await this.addMissingColumns(metaQueueTableRef, [
+          { name: 'refunded_at', type: 'TIMESTAMP', mode: 'NULLABLE' },
+          { name: 'refund_event_id', type: 'STRING', mode: 'NULLABLE' },
+        ]);
       }
     } catch (error) {
       logger.error({ error }, 'Failed to ensure BigQuery tables exist');
     }
   }
+
+  /**
+   * Add any NULLABLE columns from the schema that an existing table is missing.
+   * BigQuery only allows appending columns, so this never touches existing ones.
+   */
+  private async addMissingColumns(
+    tableRef: ReturnType<ReturnType<BigQuery['dataset']>['table']>,
+    schema: Array<{ name: string; type: string; mode: string }>
+  ): Promise<void> {
+    const [metadata] = await tableRef.getMetadata();
+    const existingFields = (metadata.schema?.fields || []) as Array<{ name: string }>;
+    const existingNames = new Set(existingFields.map((f) => f.name));
+    const missing = schema.filter((f) => !existingNames.has(f.name) && f.mode !== 'REQUIRED');
+    if (missing.length === 0) return;
+
+    await tableRef.setMetadata({ schema: { fields: [...existingFields, ...missing] } });
+    logger.info({ table: tableRef.id, columns: missing.map((f) => f.name) }, 'Added missing BigQuery columns');
+  }
 }
 
 export const bigQueryClient = new BigQueryClient();
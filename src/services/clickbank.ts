@@ -1,58 +1,200 @@
 import crypto from 'crypto';
-import type { ClickbankIpnEncrypted, ClickbankIpnDecrypted } from '../types/index.js';
+import type { ClickbankIpnEncrypted, ClickbankIpnDecrypted, ClickbankLineItem } from '../types/index.js';
 import { logger } from '../utils/logger.js';
 
+const SECRET_ENV = 'CLICKBANK_SECRET_KEY';
+const PREVIOUS_SUFFIX = '_PREVIOUS';
+
+/**
+ * One ClickBank secret key the decryptor may try.
+ * keyId identifies it in logs and on the transaction row without exposing
+ * the secret: 'default', 'default:previous', 'hrywpub', 'hrywpub:previous'.
+ */
+export interface ClickbankSecretCandidate {
+  keyId: string;
+  vendor: string | null;
+  secret: string;
+}
+
+/**
+ * ClickBank secret keys configured for this service.
+ * - CLICKBANK_SECRET_KEY: default key (vendor: null)
+ * - CLICKBANK_SECRET_KEY_{VENDOR}: key for one vendor account (e.g., CLICKBANK_SECRET_KEY_HRYWPUB)
+ * - ..._PREVIOUS: the key being rotated out, accepted until the new one is live in ClickBank
+ *
+ * Encrypted IPNs don't say which vendor they're from until decrypted, so the
+ * decryptor tries each of these in turn — current keys before previous ones.
+ */
+export function getClickbankSecrets(): ClickbankSecretCandidate[] {
+  const current: ClickbankSecretCandidate[] = [];
+  const previous: ClickbankSecretCandidate[] = [];
+
+  for (const [name, value] of Object.entries(process.env)) {
+    if (!value || (name !== SECRET_ENV && !name.startsWith(SECRET_ENV + '_'))) continue;
+
+    const isPrevious = name.endsWith(PREVIOUS_SUFFIX);
+    const base = isPrevious ? name.slice(0, -PREVIOUS_SUFFIX.length) : name;
+    const vendor = base === SECRET_ENV ? null : base.slice(SECRET_ENV.length + 1).toLowerCase();
+    const keyId = (vendor || 'default') + (isPrevious ? ':previous' : '');
+
+    (isPrevious ? previous : current).push({ keyId, vendor, secret: value });
+  }
+
+  // Default key first, then vendor keys in a stable order
+  const byKeyId = (a: ClickbankSecretCandidate, b: ClickbankSecretCandidate) =>
+    (a.vendor === null ? -1 : b.vendor === null ? 1 : a.keyId.localeCompare(b.keyId));
+  return [...current.sort(byKeyId), ...previous.sort(byKeyId)];
+}
+
+/**
+ * Keys that may have signed an IPN from a vendor: the vendor's own keys if
+ * configured, otherwise the default keys. Current before previous.
+ */
+export function getSecretsForVendor(vendor: string): ClickbankSecretCandidate[] {
+  const all = getClickbankSecrets();
+  const vendorKeys = all.filter((c) => c.vendor === vendor.toLowerCase());
+  return vendorKeys.length > 0 ? vendorKeys : all.filter((c) => c.vendor === null);
+}
+
+/**
+ * Decrypt a v6.0+ IPN with a single secret key. Throws if the key is wrong
+ * (bad padding or non-JSON output).
+ */
+function decryptWithSecret(encryptedBytes: Buffer, ivBytes: Buffer, secretKey: string): ClickbankIpnDecrypted {
+  // Derive key using ClickBank's method:
+  // PHP: substr(sha1($secretKey), 0, 32) - uses the first 32 hex chars AS-IS as ASCII bytes
+  const sha1Hash = crypto.createHash('sha1').update(secretKey).digest('hex');
+  const key = sha1Hash.substring(0, 32);
+
+  // Decrypt using AES-256-CBC
+  const decipher = crypto.createDecipheriv('aes-256-cbc', key, ivBytes);
+  let decrypted = decipher.update(encryptedBytes);
+  decrypted = Buffer.concat([decrypted, decipher.final()]);
+
+  // Trim null bytes and control characters (ASCII 0-32)
+  // This matches PHP's trim($str, "\0..\32")
+  let decryptedStr = decrypted.toString('utf8');
+  decryptedStr = decryptedStr.replace(/^[\x00-\x20]+|[\x00-\x20]+$/g, '');
+
+  return JSON.parse(decryptedStr) as ClickbankIpnDecrypted;
+}
+
+/**
+ * Outcome of decrypting an IPN. On failure ipnData is null and error says
+ * why, including which keys were tried.
+ */
+export interface ClickbankDecryptResult {
+  ipnData: ClickbankIpnDecrypted | null;
+  keyId: string | null;
+  keysTried: string[];
+  error: string | null;
+}
+
 export function decryptClickbankNotification(
-  encryptedData: ClickbankIpnEncrypted
-): ClickbankIpnDecrypted | null {
-  try {
-    const { notification, iv } = encryptedData;
+  encryptedData: ClickbankIpnEncrypted,
+  secrets: ClickbankSecretCandidate[] = getClickbankSecrets()
+): ClickbankDecryptResult {
+  const { notification, iv } = encryptedData;
+
+  if (!notification || !iv) {
+    logger.error('Missing notification or iv in encrypted IPN');
+    return { ipnData: null, keyId: null, keysTried: [], error: 'Missing notification or iv' };
+  }
 
-    if (!notification || !iv) {
-      logger.error('Missing notification or iv in encrypted IPN');
-      return null;
-    }
+  if (secrets.length === 0) {
+    logger.error('No ClickBank secret key configured (CLICKBANK_SECRET_KEY or CLICKBANK_SECRET_KEY_{VENDOR})');
+    return { ipnData: null, keyId: null, keysTried: [], error: 'No ClickBank secret key configured' };
+  }
 
-    const secretKey = process.env.CLICKBANK_SECRET_KEY;
-    if (!secretKey) {
-      logger.error('CLICKBANK_SECRET_KEY not configured');
-      return null;
+  const encryptedBytes = Buffer.from(notification, 'base64');
+  const ivBytes = Buffer.from(iv, 'base64');
+  const keysTried: string[] = [];
+
+  for (const { keyId, secret } of secrets) {
+    keysTried.push(keyId);
+    try {
+      const ipnData = decryptWithSecret(encryptedBytes, ivBytes, secret);
+
+      logger.info(
+        {
+          transactionType: ipnData.transactionType,
+          receipt: ipnData.receipt,
+          keyId,
+        },
+        'Successfully decrypted ClickBank IPN'
+      );
+      if (keyId.endsWith(':previous')) {
+        logger.warn({ keyId, receipt: ipnData.receipt }, 'ClickBank IPN decrypted with a previous (rotating-out) key');
+      }
+
+      return { ipnData, keyId, keysTried, error: null };
+    } catch {
+      // Wrong key for this IPN — try the next one
     }
+  }
 
-    const encryptedBytes = Buffer.from(notification, 'base64');
-    const ivBytes = Buffer.from(iv, 'base64');
-
-    // Derive key using ClickBank's method:
-    // PHP: substr(sha1($secretKey), 0, 32) - uses the first 32 hex chars AS-IS as ASCII bytes
-    const sha1Hash = crypto.createHash('sha1').update(secretKey).digest('hex');
-    const key = sha1Hash.substring(0, 32);
+  logger.error({ keysTried }, 'ClickBank decryption error: no configured key decrypted the IPN');
+  return {
+    ipnData: null,
+    keyId: null,
+    keysTried,
+    error: `Failed to decrypt notification (keys tried: ${keysTried.join(', ')})`,
+  };
+}
 
-    // Decrypt using AES-256-CBC
-    const decipher = crypto.createDecipheriv('aes-256-cbc', key, ivBytes);
-    let decrypted = decipher.update(encryptedBytes);
-    decrypted = Buffer.concat([decrypted, decipher.final()]);
+/**
+ * Compute ClickBank's legacy (v2.1) IPN signature: every POSTed field except
+ * cverify, sorted by field name, values joined with '|', then '|' + secret key;
+ * cverify is the first 8 hex chars of the SHA-1, uppercased.
+ */
+export function computeLegacyCverify(fields: Record<string, unknown>, secretKey: string): string {
+  const names = Object.keys(fields)
+    .filter((name) => name !== 'cverify')
+    .sort();
+  const pop = names.map((name) => `${fields[name] ?? ''}|`).join('') + secretKey;
+  return crypto.createHash('sha1').update(pop, 'utf8').digest('hex').substring(0, 8).toUpperCase();
+}
 
-    // Trim null bytes and control characters (ASCII 0-32)
-    // This matches PHP's trim($str, "\0..\32")
-    let decryptedStr = decrypted.toString('utf8');
-    decryptedStr = decryptedStr.replace(/^[\x00-\x20]+|[\x00-\x20]+$/g, '');
+/**
+ * Outcome of checking a legacy IPN's cverify. keyId is the secret that
+ * matched; on failure error says why, including which keys were tried.
+ */
+export interface LegacyVerifyResult {
+  valid: boolean;
+  keyId: string | null;
+  error: string | null;
+}
 
-    // Parse JSON
-    const ipnData = JSON.parse(decryptedStr) as ClickbankIpnDecrypted;
+/**
+ * Verify a legacy (unencrypted) IPN's cverify against the vendor's secret keys.
+ */
+export function verifyLegacyIpn(fields: Record<string, unknown>): LegacyVerifyResult {
+  const cverify = typeof fields.cverify === 'string' ? fields.cverify.toUpperCase() : '';
+  if (!cverify) {
+    return { valid: false, keyId: null, error: 'Missing cverify signature' };
+  }
 
-    logger.info(
-      {
-        transactionType: ipnData.transactionType,
-        receipt: ipnData.receipt,
-      },
-      'Successfully decrypted ClickBank IPN'
-    );
+  const vendor = typeof fields.cvendor === 'string' ? fields.cvendor : '';
+  const candidates = getSecretsForVendor(vendor);
+  if (candidates.length === 0) {
+    return { valid: false, keyId: null, error: 'No ClickBank secret key configured' };
+  }
 
-    return ipnData;
-  } catch (error) {
-    logger.error({ error }, 'ClickBank decryption error');
-    return null;
+  for (const { keyId, secret } of candidates) {
+    const expected = computeLegacyCverify(fields, secret);
+    if (
+      expected.length === cverify.length &&
+      crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(cverify))
+    ) {
+      return { valid: true, keyId, error: null };
+    }
   }
+
+  return {
+    valid: false,
+    keyId: null,
+    error: `cverify mismatch (keys tried: ${candidates.map((c) => c.keyId).join(', ')})`,
+  };
 }
 
 export function isEncryptedFormat(body: unknown): body is ClickbankIpnEncrypted {
@@ -184,3 +326,34 @@ export function extractProductId(ipnData: ClickbankIpnDecrypted): string {
 
   return '';
 }
+
+/**
+ * Extract every product in the IPN
+ * v8+ notifications can bundle order bumps / upsells as additional lineItems;
+ * legacy notifications carry a single top-level itemNo and order amount.
+ */
+export function extractLineItems(ipnData: ClickbankIpnDecrypted): ClickbankLineItem[] {
+  if (ipnData.lineItems && ipnData.lineItems.length > 0) {
+    return ipnData.lineItems
+      .map((item, index) => ({
+        index,
+        productId: item.itemNo || '',
+        productTitle: item.productTitle || null,
+        amount: item.productPrice ?? item.accountAmount ?? null,
+      }))
+      .filter((item) => item.productId !== '');
+  }
+
+  if (ipnData.itemNo) {
+    return [
+      {
+        index: 0,
+        productId: ipnData.itemNo,
+        productTitle: ipnData.productTitle || null,
+        amount: ipnData.totalOrderAmount ?? null,
+      },
+    ];
+  }
+
+  return [];
+}
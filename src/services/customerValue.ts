@@ -0,0 +1,84 @@
+import { keapClient } from './keap.js';
+import { storage } from './storage.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Lifetime value of a contact as of a new purchase, for value-based bidding.
+ */
+export interface CustomerValue {
+  lifetimeValue: number;        // net prior spend + this purchase
+  priorPurchaseCount: number;   // ClickBank SALE receipts + paid Keap orders before this one
+  newCustomer: boolean;
+}
+
+const SALE_TYPES = ['SALE', 'REBILL', 'PAYMENT'];
+
+/**
+ * LTV / new_customer enrichment of Keap Purchase events is opt-in
+ * (META_LTV_ENRICHMENT=true): it costs a storage query and a Keap call per purchase.
+ */
+export function isLtvEnrichmentEnabled(): boolean {
+  return process.env.META_LTV_ENRICHMENT === 'true';
+}
+
+/**
+ * Combine the contact's history from clickbank_transactions, keap_webhook_log
+ * and Keap's paid orders. Keap orders are counted once: by the order's total,
+ * or by its logged payments when Keap didn't list the order. The current order
+ * is excluded — `value` stands for it.
+ *
+ * Returns null when either source can't be read (storage, or Keap's order
+ * list), so a lookup failure is never reported to Meta as a new customer.
+ */
+export async function getCustomerValue(params: {
+  contactId: number;
+  email: string | null;
+  orderId: string | null;
+  value: number;
+}): Promise<CustomerValue | null> {
+  const { contactId, email, orderId, value } = params;
+  try {
+    const history = await storage.getPurchaseHistory(contactId, email);
+    if (!history) return null;
+    const keapOrders = await keapClient.getOrdersByContact(contactId, 'PAID');
+
+    let net = 0;
+    let priorPurchaseCount = 0;
+
+    const orderTotals = new Map<string, number>();
+    for (const order of keapOrders) {
+      const id = String(order.id);
+      if (id === orderId) continue;
+      orderTotals.set(id, Number(order.total) || 0);
+    }
+    for (const total of orderTotals.values()) net += total;
+    priorPurchaseCount += orderTotals.size;
+
+    const loggedOnlyOrders = new Set<string>();
+    for (const row of history) {
+      const isSale = SALE_TYPES.includes(row.transaction_type);
+      if (row.source === 'keap') {
+        if (row.order_id && row.order_id === orderId) continue;
+        if (!isSale) {
+          net -= Math.abs(row.amount);
+        } else if (!row.order_id || !orderTotals.has(row.order_id)) {
+          net += row.amount;
+          loggedOnlyOrders.add(row.order_id || `payment:${loggedOnlyOrders.size}`);
+        }
+      } else {
+        net += isSale ? row.amount : -Math.abs(row.amount);
+        if (row.transaction_type === 'SALE') priorPurchaseCount++;
+      }
+    }
+    priorPurchaseCount += loggedOnlyOrders.size;
+
+    return {
+      lifetimeValue: Math.round((Math.max(net, 0) + value) * 100) / 100,
+      priorPurchaseCount,
+      newCustomer: priorPurchaseCount === 0,
+    };
+  } catch (err) {
+    logger.warn({ err, contactId }, 'Failed to compute customer lifetime value');
+    return null;
+  }
+}
@@ -1,9 +1,11 @@
 import axios, { AxiosInstance } from 'axios';
 import { SecretManagerServiceClient } from '@google-cloud/secret-manager';
-import type { KeapContact, KeapTokenResponse } from '../types/index.js';
+import type { KeapContact, KeapHook, KeapTokenResponse } from '../types/index.js';
+import { getBrandByTagName } from '../config/brands.js';
 import { logger } from '../utils/logger.js';
 
 const KEAP_API_BASE = 'https://api.infusionsoft.com/crm/rest/v1';
+const KEAP_API_V2_BASE = 'https://api.infusionsoft.com/crm/rest/v2';
 const KEAP_TOKEN_URL = 'https://api.infusionsoft.com/token';
 
 /**
@@ -329,17 +331,13 @@ class KeapClient {
 
   /**
    * Determine brand from a contact's tags.
-   * Scans tag names for brand prefixes (HRYW-, FLO-, CHKH-, GKH-).
+   * Scans tag names for the registry's Keap tag prefixes (HRYW-, FLO-, ...).
    */
   async detectBrandFromTags(contactId: number): Promise<string | null> {
     const tags = await this.getContactTags(contactId);
-    const brandPrefixes = ['HRYW', 'FLO', 'CHKH', 'GKH'];
     for (const tag of tags) {
-      for (const prefix of brandPrefixes) {
-        if (tag.name.toUpperCase().startsWith(prefix + '-') || tag.name.toUpperCase() === prefix) {
-          return prefix.toLowerCase();
-        }
-      }
+      const brand = getBrandByTagName(tag.name);
+      if (brand) return brand.brandCode;
     }
     return null;
   }
@@ -423,6 +421,43 @@ class KeapClient {
     }
   }
 
+  /**
+   * Current values of named custom fields on a contact (null when empty or
+   * the field doesn't exist in Keap).
+   */
+  async getContactCustomFieldValues(
+    contactId: number,
+    fieldNames: string[]
+  ): Promise<Record<string, string | null>> {
+    const fieldMap = await this.getFieldNameToIdMap();
+    const contact = await this.getContactById(contactId);
+    const contentById = new Map((contact?.custom_fields || []).map((f) => [f.id, f.content]));
+
+    const values: Record<string, string | null> = {};
+    for (const name of fieldNames) {
+      const fieldId = fieldMap.get(name);
+      const content = fieldId ? contentById.get(fieldId) : undefined;
+      values[name] = content ? String(content) : null;
+    }
+    return values;
+  }
+
+  /**
+   * Update named custom fields on an existing contact
+   */
+  async updateContactCustomFields(contactId: number, fields: Record<string, string>): Promise<void> {
+    const customFields = await this.convertFieldNamesToIds(fields);
+    if (customFields.length === 0) return;
+
+    try {
+      await this.axiosInstance.patch(`/contacts/${contactId}`, { custom_fields: customFields });
+      logger.info({ contactId, fields: Object.keys(fields) }, 'Contact custom fields updated');
+    } catch (error) {
+      logger.error({ error, contactId, fields: Object.keys(fields) }, 'Failed to update contact custom fields');
+      throw error;
+    }
+  }
+
   /**
    * Convert field names to Keap field IDs
    * Caches the field mapping to avoid repeated API calls
@@ -587,11 +622,13 @@ class KeapClient {
    * Keap API only allows removing one tag at a time, so we loop through
    * and remove each tag individually. Errors for individual tags are logged
    * but don't stop the process (tag may already be removed).
+   *
+   * Returns the tag IDs that were actually removed.
    */
-  async removeTags(contactId: number, tagIds: number[]): Promise<void> {
+  async removeTags(contactId: number, tagIds: number[]): Promise<number[]> {
     if (tagIds.length === 0) {
       logger.debug({ contactId }, 'No tags to remove');
-      return;
+      return [];
     }
 
     const removedTags: number[] = [];
@@ -614,6 +651,8 @@ class KeapClient {
     if (failedTags.length > 0) {
       logger.warn({ contactId, failedTags }, 'Some tags could not be removed');
     }
+
+    return removedTags;
   }
 
   /**
@@ -681,7 +720,7 @@ class KeapClient {
   /**
    * List all REST hook subscriptions (to check status / get IDs)
    */
-  async listHooks(): Promise<unknown> {
+  async listHooks(): Promise<KeapHook[]> {
     const response = await this.axiosInstance.get('/hooks');
     return response.data;
   }
@@ -696,7 +735,7 @@ class KeapClient {
   /**
    * Create a REST hook subscription
    */
-  async createHook(eventKey: string, hookUrl: string): Promise<unknown> {
+  async createHook(eventKey: string, hookUrl: string): Promise<KeapHook> {
     const response = await this.axiosInstance.post('/hooks', {
       eventKey,
       hookUrl,
@@ -707,7 +746,7 @@ class KeapClient {
   /**
    * Verify a REST hook by key
    */
-  async verifyHook(hookKey: number): Promise<unknown> {
+  async verifyHook(hookKey: number): Promise<KeapHook> {
     const response = await this.axiosInstance.post(`/hooks/${hookKey}/verify`);
     return response.data;
   }
@@ -764,10 +803,24 @@ class KeapClient {
     }
   }
 
+  /**
+   * List the payments recorded against an order (invoice).
+   * Used to tell a payment plan's first payment from its installments.
+   */
+  async getOrderTransactions(orderId: number): Promise<Array<Record<string, unknown>>> {
+    try {
+      const response = await this.axiosInstance.get(`/orders/${orderId}/transactions`);
+      return response.data.transactions || [];
+    } catch (error) {
+      logger.error({ error, orderId }, 'Failed to get order transactions');
+      throw error;
+    }
+  }
+
   /**
    * Get all orders for a contact from Keap.
-   * Used to count prior subscription invoices to distinguish initial Purchase
-   * from RecurringPayment events sent to Meta CAPI.
+   * Used to count prior purchases for LTV / new_customer enrichment.
+   * Throws on failure, so an outage isn't mistaken for a contact with no orders.
    *
    * @param contactId - Keap contact ID
    * @param status - Optional order status filter (e.g. 'PAID')
@@ -783,7 +836,23 @@ class KeapClient {
       return response.data.orders || [];
     } catch (error) {
       logger.error({ error, contactId }, 'Failed to get orders for contact');
-      return [];
+      throw error;
+    }
+  }
+
+  /**
+   * Get a subscription by ID. The v1 API can only list subscriptions per
+   * contact, so this uses the v2 endpoint.
+   */
+  async getSubscription(subscriptionId: number): Promise<Record<string, unknown> | null> {
+    try {
+      const response = await this.axiosInstance.get(`${KEAP_API_V2_BASE}/subscriptions/${subscriptionId}`);
+      return response.data;
+    } catch (error) {
+      const axiosErr = error as { response?: { status?: number } };
+      if (axiosErr.response?.status === 404) return null;
+      logger.error({ error, subscriptionId }, 'Failed to get subscription by ID');
+      throw error;
     }
   }
 
@@ -0,0 +1,154 @@
+import { keapClient } from './keap.js';
+import { getRequiredKeapHooks } from '../config/keapHooks.js';
+import { hasKeapHookSecret, openKeapHookHandshake } from './keapHookSecrets.js';
+import { logger } from '../utils/logger.js';
+import type { KeapHook, KeapHookReport, KeapHookState } from '../types/index.js';
+
+const VERIFIED = 'Verified';
+
+// Last scheduled/forced check, shown next to the live state by the admin endpoint
+let lastRepairReport: KeapHookReport | null = null;
+
+export function getLastKeapHookRepair(): KeapHookReport | null {
+  return lastRepairReport;
+}
+
+function errorMessage(err: unknown): string {
+  const e = err as { response?: { data?: unknown; status?: number }; message?: string };
+  if (e.response?.data) return `Keap ${e.response.status}: ${JSON.stringify(e.response.data)}`;
+  return e.message || String(err);
+}
+
+/**
+ * Bring one required hook back to Verified: create it if missing, otherwise
+ * ask Keap to re-verify, and delete + recreate it if it still isn't Verified.
+ * Either way Keap sends a new X-Hook-Secret, so a handshake window is opened first.
+ */
+async function repairHook(hook: KeapHookState): Promise<void> {
+  try {
+    await openKeapHookHandshake(hook.hookUrl);
+    if (!hook.actual) {
+      hook.actual = await keapClient.createHook(hook.eventKey, hook.hookUrl);
+      hook.action = 'created';
+    } else {
+      const key = Number(hook.actual.key);
+      const verified = await keapClient.verifyHook(key).catch((err: unknown) => {
+        logger.warn(
+          { eventKey: hook.eventKey, hookKey: key, error: errorMessage(err) },
+          'Keap hook verify failed'
+        );
+        return null;
+      });
+      if (verified?.status === VERIFIED) {
+        hook.actual = verified;
+        hook.action = 'verified';
+      } else {
+        await keapClient.deleteHook(key);
+        hook.actual = await keapClient.createHook(hook.eventKey, hook.hookUrl);
+        hook.action = 'recreated';
+      }
+    }
+    if (hook.actual?.status !== VERIFIED) {
+      const attempted = hook.action;
+      hook.action = 'failed';
+      hook.error = `Hook status after ${attempted}: ${hook.actual?.status ?? 'unknown'}`;
+    }
+  } catch (err) {
+    hook.action = 'failed';
+    hook.error = errorMessage(err);
+  }
+
+  const log = hook.action === 'failed' ? logger.error.bind(logger) : logger.warn.bind(logger);
+  log(
+    {
+      alert: 'keap_hook',
+      eventKey: hook.eventKey,
+      hookUrl: hook.hookUrl,
+      previousState: hook.state,
+      action: hook.action,
+      hookKey: hook.actual?.key,
+      status: hook.actual?.status,
+      error: hook.error,
+    },
+    hook.action === 'failed' ? 'Keap hook repair failed' : `Keap hook ${hook.action}`
+  );
+}
+
+/**
+ * Compare Keap's registered hooks (GET /hooks) with REQUIRED_KEAP_HOOKS.
+ * With repair=true, missing hooks are created and non-Verified ones
+ * (Inactive after delivery failures, or Unverified) are re-verified/recreated,
+ * as are Verified hooks whose X-Hook-Secret this service never stored.
+ */
+export async function checkKeapHooks(repair: boolean): Promise<KeapHookReport> {
+  const actualHooks = await keapClient.listHooks();
+  const required = getRequiredKeapHooks();
+
+  const matched = new Set<KeapHook>();
+  const hooks: KeapHookState[] = [];
+  for (const { eventKey, hookUrl } of required) {
+    const candidates = actualHooks.filter((h) => h.eventKey === eventKey && h.hookUrl === hookUrl);
+    // Prefer a Verified registration if Keap somehow has duplicates
+    const actual = candidates.find((h) => h.status === VERIFIED) || candidates[0] || null;
+    if (actual) matched.add(actual);
+    let state: KeapHookState['state'] = !actual ? 'missing' : actual.status === VERIFIED ? 'ok' : 'not_verified';
+    // Verified before secrets were stored (or the handshake was lost): deliveries are refused until re-verified
+    if (state === 'ok' && !(await hasKeapHookSecret(hookUrl))) state = 'no_secret';
+    hooks.push({ eventKey, hookUrl, actual, state, action: 'none', error: null });
+  }
+
+  if (repair) {
+    for (const hook of hooks.filter((h) => h.state !== 'ok')) {
+      await repairHook(hook);
+    }
+  }
+
+  const report: KeapHookReport = {
+    checkedAt: new Date().toISOString(),
+    repaired: repair,
+    hooks,
+    unmanaged: actualHooks.filter((h) => !matched.has(h)),
+  };
+  if (repair) lastRepairReport = report;
+  return report;
+}
+
+/**
+ * Scheduled hook health check. Runs at startup and then every
+ * KEAP_HOOK_CHECK_INTERVAL_MS (default 15 minutes).
+ */
+export function startKeapHookMonitor(): void {
+  if (getRequiredKeapHooks().length === 0) {
+    logger.warn('KEAP_HOOK_BASE_URL not set — Keap hook monitor disabled');
+    return;
+  }
+
+  let isRunning = false;
+  const intervalMs = parseInt(process.env.KEAP_HOOK_CHECK_INTERVAL_MS || '900000', 10);
+
+  const tick = async () => {
+    if (isRunning) return;
+    isRunning = true;
+
+    try {
+      const report = await checkKeapHooks(true);
+      const changed = report.hooks.filter((h) => h.action !== 'none');
+      logger.info(
+        {
+          required: report.hooks.length,
+          changed: changed.length,
+          unmanaged: report.unmanaged.length,
+        },
+        'Keap hook monitor: check complete'
+      );
+    } catch (err) {
+      logger.error({ err, alert: 'keap_hook' }, 'Keap hook monitor: check failed');
+    } finally {
+      isRunning = false;
+    }
+  };
+
+  tick();
+  setInterval(tick, intervalMs);
+  logger.info({ intervalMs }, 'Keap hook monitor started');
+}
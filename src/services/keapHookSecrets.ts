@@ -0,0 +1,112 @@
+import crypto from 'crypto';
+import { storage } from './storage.js';
+
+/**
+ * Keap REST hook authenticity.
+ *
+ * When a hook is created or verified, Keap POSTs an X-Hook-Secret to the hook
+ * URL and expects it echoed back; every later delivery carries the same
+ * header. The secret's SHA-256 is stored per hook path (keap_hook_secrets),
+ * and deliveries are only processed when they present it.
+ *
+ * Handshakes themselves are unauthenticated, so one is only accepted while a
+ * window is open: openKeapHookHandshake() is called right before this service
+ * asks Keap to create or verify the hook. Rows are append-only; the latest row
+ * for a path is either the current secret or an open window, and the previous
+ * secret stays valid until the window's handshake arrives.
+ *
+ * A path that has never completed a handshake has no secret, and its
+ * deliveries are refused. The one exception is the original payment hook
+ * (hook key 169, registered before secrets were stored): with
+ * KEAP_LEGACY_HOOK_UNSIGNED=true it accepts unsigned deliveries until it is
+ * re-verified, for the rollout only.
+ */
+const HANDSHAKE_WINDOW_MS = 5 * 60 * 1000;
+
+const LEGACY_HOOK_PATH = '/webhooks/keap/invoice-payment';
+
+export type KeapHookSecretCheck = 'ok' | 'missing' | 'mismatch' | 'unregistered';
+
+function digest(secret: string): Buffer {
+  return crypto.createHash('sha256').update(secret).digest();
+}
+
+/**
+ * Path a hook URL is delivered to, e.g. /webhooks/keap/order.add.
+ */
+export function keapHookPath(url: string): string {
+  return new URL(url, 'http://localhost').pathname;
+}
+
+/**
+ * Let the next handshake for a hook URL set its secret. Deliveries to the
+ * path are refused until the handshake arrives.
+ */
+export async function openKeapHookHandshake(
+  hookUrl: string,
+  requestId: string | null = null
+): Promise<void> {
+  await storage.insertKeapHookSecret({
+    created_at: new Date().toISOString(),
+    hook_path: keapHookPath(hookUrl),
+    secret_hash: null,
+    request_id: requestId,
+  });
+}
+
+/**
+ * Store the secret of a verification handshake. Returns false (and stores
+ * nothing) unless a handshake window is open for the path.
+ */
+export async function acceptKeapHookHandshake(
+  hookPath: string,
+  secret: string,
+  requestId: string | null
+): Promise<boolean> {
+  const latest = await storage.getKeapHookSecret(hookPath, true);
+  if (!latest || latest.secret_hash !== null) return false;
+  if (Date.now() - new Date(latest.created_at).getTime() > HANDSHAKE_WINDOW_MS) return false;
+
+  await storage.insertKeapHookSecret({
+    created_at: new Date().toISOString(),
+    hook_path: hookPath,
+    secret_hash: digest(secret).toString('hex'),
+    request_id: requestId,
+  });
+  return true;
+}
+
+/**
+ * Compare a delivery's X-Hook-Secret with the stored one for its path.
+ * 'unregistered' means no handshake has ever completed for the path.
+ */
+export async function checkKeapHookSecret(
+  hookPath: string,
+  secret: string | undefined
+): Promise<KeapHookSecretCheck> {
+  const latest = await storage.getKeapHookSecret(hookPath);
+  if (!latest?.secret_hash) return 'unregistered';
+  if (!secret) return 'missing';
+  const stored = Buffer.from(latest.secret_hash, 'hex');
+  const presented = digest(secret);
+  return stored.length === presented.length && crypto.timingSafeEqual(stored, presented)
+    ? 'ok'
+    : 'mismatch';
+}
+
+/**
+ * Whether an unregistered path may still take unsigned deliveries: only the
+ * legacy payment hook, and only while KEAP_LEGACY_HOOK_UNSIGNED=true.
+ */
+export function allowsUnsignedDeliveries(hookPath: string): boolean {
+  return hookPath === LEGACY_HOOK_PATH && process.env.KEAP_LEGACY_HOOK_UNSIGNED === 'true';
+}
+
+/**
+ * Whether a handshake has completed for the hook URL (the hook monitor
+ * re-verifies hooks that have none).
+ */
+export async function hasKeapHookSecret(hookUrl: string): Promise<boolean> {
+  const latest = await storage.getKeapHookSecret(keapHookPath(hookUrl));
+  return !!latest?.secret_hash;
+}
@@ -0,0 +1,59 @@
+import type { Logger } from 'pino';
+
+/**
+ * One entry of a Keap REST hook delivery's object_keys. Keap sends
+ * { id, apiUrl, timestamp }; id=0 means the object isn't ready yet.
+ */
+export interface KeapHookObjectKey {
+  id: number;
+  apiUrl?: string;
+  timestamp?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * Handles every object of one delivery for an event key. Errors for single
+ * objects should be logged by the handler; a throw is logged by the router.
+ */
+export type KeapHookHandler = (objectKeys: KeapHookObjectKey[], reqLogger: Logger) => Promise<void>;
+
+const handlers = new Map<string, KeapHookHandler>();
+
+/**
+ * Register the handler for a Keap event key (e.g. 'invoice.payment.add').
+ * Supporting a new Keap event means registering a handler and declaring its
+ * hook (/webhooks/keap/{eventKey}) in config/keapHooks.ts.
+ */
+export function registerKeapHookHandler(eventKey: string, handler: KeapHookHandler): void {
+  handlers.set(eventKey, handler);
+}
+
+export function getRegisteredEventKeys(): string[] {
+  return [...handlers.keys()];
+}
+
+/**
+ * Run the registered handler for an event. Returns false if none is registered.
+ */
+export async function dispatchKeapHookEvent(
+  eventKey: string,
+  objectKeys: KeapHookObjectKey[],
+  reqLogger: Logger
+): Promise<boolean> {
+  const handler = handlers.get(eventKey);
+  if (!handler) {
+    reqLogger.info({ eventKey }, 'No handler registered for Keap event — ignoring');
+    return false;
+  }
+  await handler(objectKeys, reqLogger);
+  return true;
+}
+
+/**
+ * Positive object IDs of a delivery (skips Keap's id=0 placeholders).
+ */
+export function objectIds(objectKeys: KeapHookObjectKey[]): number[] {
+  return objectKeys
+    .map((objectKey) => (typeof objectKey === 'object' ? objectKey.id : (objectKey as number)))
+    .filter((id) => !!id && id > 0);
+}
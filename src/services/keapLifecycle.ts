@@ -0,0 +1,180 @@
+import type { Logger } from 'pino';
+import { keapClient } from './keap.js';
+import { storage } from './storage.js';
+import { syncPurchaseDates, toKeapDate } from './purchaseDates.js';
+import { getBrandByKeapProduct } from '../config/brands.js';
+import { getSubscriptionFields } from '../config/keapFields.js';
+import type { KeapLifecycleEventRecord } from '../types/index.js';
+
+function logLifecycleEvent(record: KeapLifecycleEventRecord, reqLogger: Logger): void {
+  storage.insertLifecycleEvent(record).catch((err) => {
+    reqLogger.error({ err, eventKey: record.event_key, objectId: record.object_id }, 'Failed to insert lifecycle event');
+  });
+}
+
+/**
+ * subscription.add → {BRAND}_{PRODUCT}_START_DATE
+ * subscription.edit / subscription.delete of an inactive subscription → {BRAND}_{PRODUCT}_CANCEL_DATE
+ *
+ * The product is mapped to brand + product code through the brand registry's
+ * keapProducts. Products not in the registry are logged as SKIPPED
+ * (unmapped_product) with the contact's brand from its Keap tags, so they can
+ * be added to the registry.
+ */
+export async function handleSubscriptionEvent(
+  eventKey: string,
+  subscriptionId: number,
+  reqLogger: Logger
+): Promise<void> {
+  const record: KeapLifecycleEventRecord = {
+    created_at: new Date().toISOString(),
+    event_key: eventKey,
+    object_id: subscriptionId,
+    contact_id: null,
+    brand: null,
+    product_id: null,
+    product_code: null,
+    status: 'SKIPPED',
+    fields_updated: [],
+    note: null,
+    raw_object_json: null,
+  };
+
+  try {
+    const subscription = await keapClient.getSubscription(subscriptionId);
+    if (!subscription) {
+      record.note = 'subscription_not_found';
+      reqLogger.warn({ eventKey, subscriptionId }, 'Subscription not found in Keap');
+      return;
+    }
+    record.raw_object_json = JSON.stringify(subscription);
+    record.contact_id = (subscription.contact_id as number | undefined) ?? null;
+    record.product_id = (subscription.product_id as number | undefined) ?? null;
+
+    if (!record.contact_id) {
+      record.note = 'no_contact_id';
+      return;
+    }
+
+    const mapped = record.product_id ? getBrandByKeapProduct(record.product_id) : null;
+    if (!mapped) {
+      record.brand = await keapClient.detectBrandFromTags(record.contact_id);
+      record.note = 'unmapped_product';
+      reqLogger.warn(
+        { eventKey, subscriptionId, productId: record.product_id, contactBrand: record.brand },
+        'Subscription product not in brand registry keapProducts — skipping'
+      );
+      return;
+    }
+    record.brand = mapped.brand.brandCode;
+    record.product_code = mapped.productCode;
+
+    const fields = getSubscriptionFields(mapped.brand.brandCode, mapped.productCode);
+
+    if (!fields) {
+      record.note = 'no_subscription_fields';
+      reqLogger.info(
+        { eventKey, subscriptionId, productId: record.product_id, productCode: record.product_code },
+        'Subscription product has no start/cancel fields — skipping'
+      );
+      return;
+    }
+
+    const active =
+      subscription.active !== false && !/^(inactive|cancell?ed)$/i.test(String(subscription.status || ''));
+
+    let update: Record<string, string> | null = null;
+    if (eventKey === 'subscription.add') {
+      update = { [fields.start]: toKeapDate(subscription.start_date) };
+    } else if (!active) {
+      update = { [fields.cancel]: toKeapDate(subscription.end_date) };
+    } else {
+      record.note = 'still_active';
+      return;
+    }
+
+    await keapClient.updateContactCustomFields(record.contact_id, update);
+    record.status = 'PROCESSED';
+    record.fields_updated = Object.keys(update);
+    reqLogger.info(
+      { eventKey, subscriptionId, contactId: record.contact_id, fields: record.fields_updated },
+      'Subscription lifecycle fields updated'
+    );
+  } catch (err) {
+    record.status = 'FAILED';
+    record.note = err instanceof Error ? err.message : String(err);
+    reqLogger.error({ err, eventKey, subscriptionId }, 'Failed to process subscription event');
+  } finally {
+    logLifecycleEvent(record, reqLogger);
+  }
+}
+
+/**
+ * order.add → FIRST_/LAST_PURCHASE_DATE (shared, plus the brand's when one of
+ * the order's products is in the registry or the contact's tags name a brand).
+ */
+export async function handleOrderAdded(orderId: number, reqLogger: Logger): Promise<void> {
+  const record: KeapLifecycleEventRecord = {
+    created_at: new Date().toISOString(),
+    event_key: 'order.add',
+    object_id: orderId,
+    contact_id: null,
+    brand: null,
+    product_id: null,
+    product_code: null,
+    status: 'SKIPPED',
+    fields_updated: [],
+    note: null,
+    raw_object_json: null,
+  };
+
+  try {
+    const order = await keapClient.getOrder(orderId);
+    if (!order) {
+      record.note = 'order_not_found';
+      reqLogger.warn({ orderId }, 'Order not found in Keap');
+      return;
+    }
+    record.raw_object_json = JSON.stringify(order);
+    const contact = order.contact as { id?: number } | undefined;
+    record.contact_id = contact?.id ?? (order.contact_id as number | undefined) ?? null;
+    if (!record.contact_id) {
+      record.note = 'no_contact_id';
+      return;
+    }
+
+    const items = (order.order_items as Array<Record<string, unknown>> | undefined) || [];
+    for (const item of items) {
+      const product = item.product as { id?: number } | undefined;
+      const productId = product?.id ?? (item.product_id as number | undefined);
+      const mapped = productId ? getBrandByKeapProduct(productId) : null;
+      if (mapped) {
+        record.brand = mapped.brand.brandCode;
+        record.product_id = productId!;
+        record.product_code = mapped.productCode;
+        break;
+      }
+    }
+    if (!record.brand) {
+      record.brand = await keapClient.detectBrandFromTags(record.contact_id);
+    }
+
+    record.fields_updated = await syncPurchaseDates(
+      record.contact_id,
+      record.brand,
+      order.order_date || order.creation_date
+    );
+    record.status = 'PROCESSED';
+    if (record.fields_updated.length === 0) record.note = 'dates_current';
+    reqLogger.info(
+      { orderId, contactId: record.contact_id, brand: record.brand, fields: record.fields_updated },
+      'Order purchase dates synced'
+    );
+  } catch (err) {
+    record.status = 'FAILED';
+    record.note = err instanceof Error ? err.message : String(err);
+    reqLogger.error({ err, orderId }, 'Failed to process order event');
+  } finally {
+    logLifecycleEvent(record, reqLogger);
+  }
+}
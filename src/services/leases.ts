@@ -0,0 +1,65 @@
+import os from 'os';
+import { v4 as uuidv4 } from 'uuid';
+import { storage } from './storage.js';
+import { logger } from '../utils/logger.js';
+
+const INSTANCE_ID = `${os.hostname()}:${process.pid}`;
+
+/**
+ * Leases held by one claiming call. Each call gets its own owner, so two
+ * overlapping passes in the same process don't share leases either.
+ */
+export interface LeaseClaim {
+  owner: string;
+  keys: Set<string>;
+}
+
+/**
+ * Claim queue work across Cloud Run instances: returns the keys this call now
+ * owns. A key is free if it was never leased, or its lease expired without
+ * being released (the holder died mid-work). Keys must name one unit of work —
+ * a transaction id, a queue row version — because released keys stay taken.
+ *
+ * Fails closed: if storage can't be reached nothing is claimed, and the work
+ * is picked up by a later pass.
+ */
+export async function acquireLeases(keys: string[], ttlMs: number): Promise<LeaseClaim> {
+  const owner = `${INSTANCE_ID}:${uuidv4()}`;
+  if (keys.length === 0) return { owner, keys: new Set() };
+
+  try {
+    return { owner, keys: new Set(await storage.acquireLeases(keys, owner, ttlMs)) };
+  } catch (err) {
+    logger.warn({ err, count: keys.length }, 'Failed to acquire work leases — skipping this pass');
+    return { owner, keys: new Set() };
+  }
+}
+
+/**
+ * Mark the claimed work done. Only release keys whose result has been
+ * recorded — a released key is never leased again, so work still in the
+ * queue must be left to expire. Fire-and-forget safe: an unreleased lease
+ * only expires.
+ */
+export async function releaseLeases(
+  claim: LeaseClaim,
+  keys: string[] = [...claim.keys]
+): Promise<void> {
+  if (keys.length === 0) return;
+  try {
+    await storage.releaseLeases(keys, claim.owner);
+  } catch (err) {
+    logger.warn({ err, count: keys.length }, 'Failed to release work leases');
+  }
+}
+
+/**
+ * Lease key part for a row version. BigQuery returns TIMESTAMP columns as
+ * { value } objects; the other backends return ISO strings.
+ */
+export function leaseVersion(timestamp: unknown): string {
+  if (timestamp && typeof timestamp === 'object' && 'value' in timestamp) {
+    return String((timestamp as { value: unknown }).value);
+  }
+  return String(timestamp);
+}
@@ -1,6 +1,7 @@
 import crypto from 'crypto';
 import axios from 'axios';
 import { logger } from '../utils/logger.js';
+import { getBrandConfig } from '../config/brands.js';
 import type { MetaSendResult } from '../types/index.js';
 
 /**
@@ -118,12 +119,11 @@ export async function sendEvent(params: {
 }
 
 /**
- * Get Meta pixel ID for a brand from env vars.
- * Format: META_PIXEL_ID_{BRAND} (e.g., META_PIXEL_ID_FLO)
+ * Get Meta pixel ID for a brand from the brand registry
+ * (META_PIXEL_ID_{BRAND} env var overrides the registry value).
  */
 export function getPixelId(brand: string): string | null {
-  const key = `META_PIXEL_ID_${brand.toUpperCase()}`;
-  return process.env[key] || null;
+  return getBrandConfig(brand)?.pixelId || null;
 }
 
 export const metaCAPIClient = {
@@ -1,8 +1,9 @@
 import { v4 as uuidv4 } from 'uuid';
 import { metaCAPIClient } from './meta.js';
-import { bigQueryClient } from './bigquery.js';
+import { storage } from './storage.js';
+import { acquireLeases, releaseLeases, leaseVersion } from './leases.js';
 import { logger } from '../utils/logger.js';
-import type { MetaQueueMetadata, MetaQueueRecord, MetaCAPIEvent, MetaSendResult } from '../types/index.js';
+import type { MetaQueueMetadata, MetaQueueRecord, MetaCAPIEvent, MetaSendResult, MetaRefundDetails } from '../types/index.js';
 
 /**
  * Compute next retry time with exponential backoff + jitter.
@@ -63,9 +64,71 @@ async function recordAttemptResult(
     last_error_message: outcome.error || null,
     last_response_json: outcome.responseJson || null,
     last_latency_ms: outcome.latencyMs,
+    refunded_at: baseRecord.refunded_at,
+    refund_event_id: baseRecord.refund_event_id,
   };
 
-  await bigQueryClient.insertMetaQueueRow(statusRow);
+  await storage.insertMetaQueueRow(statusRow);
+}
+
+/**
+ * Put a queued event back in line (admin retry / bulk requeue): appends a
+ * PENDING row with the attempt count reset, optionally with a replacement
+ * payload or pixel. The earlier rows stay as history.
+ */
+export async function requeueMetaEvent(
+  record: MetaQueueRecord,
+  options: { capiPayloadJson?: string; pixelId?: string; nextAttemptAt?: string; reason: string }
+): Promise<MetaQueueRecord> {
+  const now = new Date().toISOString();
+  const requeued: MetaQueueRecord = {
+    ...record,
+    updated_at: now,
+    pixel_id: options.pixelId || record.pixel_id,
+    capi_payload_json: options.capiPayloadJson || record.capi_payload_json,
+    status: 'PENDING',
+    attempt_count: 0,
+    next_attempt_at: options.nextAttemptAt || now,
+    last_http_status: null,
+    last_error_message: options.reason,
+    last_response_json: null,
+    last_latency_ms: null,
+  };
+  await storage.insertMetaQueueRow(requeued);
+  return requeued;
+}
+
+/**
+ * Requeue an event and send it right away, recording the attempt like any
+ * other. The PENDING row is due in 2 minutes so the replay worker doesn't
+ * pick it up while this send is in flight.
+ */
+export async function retryMetaEventNow(
+  record: MetaQueueRecord,
+  options: { capiPayloadJson?: string; pixelId?: string; reason: string }
+): Promise<{ record: MetaQueueRecord; result: MetaSendResult }> {
+  const requeued = await requeueMetaEvent(record, {
+    ...options,
+    nextAttemptAt: new Date(Date.now() + 2 * 60000).toISOString(),
+  });
+
+  const accessToken = metaCAPIClient.getAccessToken(requeued.brand);
+  const result: MetaSendResult =
+    accessToken && requeued.pixel_id
+      ? await metaCAPIClient.sendEvent({
+          pixelId: requeued.pixel_id,
+          accessToken,
+          events: JSON.parse(requeued.capi_payload_json) as Record<string, unknown>[],
+          brand: requeued.brand,
+        })
+      : {
+          success: false,
+          latencyMs: 0,
+          error: accessToken ? 'No pixel_id' : `No access token for brand: ${requeued.brand}`,
+        };
+
+  await recordAttemptResult(requeued, 1, result);
+  return { record: requeued, result };
 }
 
 /**
@@ -112,8 +175,10 @@ export async function sendMetaWithQueue(
     last_latency_ms: null,
   };
 
-  // Insert PENDING row
-  await bigQueryClient.insertMetaQueueRow(baseRecord);
+  // Insert PENDING row; send anyway if it can't be written
+  await storage.insertMetaQueueRow(baseRecord).catch((err) => {
+    logger.error({ err, queueId }, 'Failed to insert PENDING CAPI queue row');
+  });
 
   // Attempt Meta send immediately
   const accessToken = metaCAPIClient.getAccessToken(metadata.brand);
@@ -146,72 +211,352 @@ export async function sendMetaWithQueue(
 }
 
 /**
- * Replay worker that retries failed/pending CAPI events.
- * Runs on an interval, processes up to 50 events per tick.
+ * Report a refund/chargeback for an order whose Purchase went through the queue.
+ *
+ * Sends a custom `Refund` event to the same pixel, with the original event's
+ * hashed user_data and order_id/original_event_id for reference, then marks the
+ * original queue row refunded. Orders never reported to Meta (or already
+ * refunded, or whose Purchase went DEAD) are skipped. Returns whether a Refund
+ * was queued.
  */
-export function startReplayWorker(): void {
-  let isRunning = false;
+export async function sendMetaRefund(refund: MetaRefundDetails): Promise<boolean> {
+  const { orderId, eventId } = refund;
+  const original = await storage.getPurchaseMetaEvent(orderId);
 
-  const tick = async () => {
-    if (isRunning) return;
-    isRunning = true;
+  if (!original) {
+    logger.info({ orderId }, 'No Purchase CAPI event for refunded order — skipping Refund');
+    return false;
+  }
+  if (original.refunded_at) {
+    logger.info(
+      { orderId, refundEventId: original.refund_event_id },
+      'Purchase CAPI event already refunded — skipping Refund'
+    );
+    return false;
+  }
+  if (original.status === 'DEAD' || !original.pixel_id) {
+    logger.info({ orderId, status: original.status }, 'Purchase never reached Meta — skipping Refund');
+    return false;
+  }
 
-    try {
-      const events = await bigQueryClient.getRetryableMetaEvents(50);
-      if (events.length === 0) {
-        isRunning = false;
-        return;
+  let userData: Record<string, unknown> = {};
+  try {
+    const [originalEvent] = JSON.parse(original.capi_payload_json) as MetaCAPIEvent[];
+    userData = originalEvent?.user_data || {};
+  } catch (err) {
+    logger.warn({ err, queueId: original.queue_id }, 'Unparseable Purchase payload — sending Refund without user_data');
+  }
+
+  const customData: Record<string, unknown> = {
+    currency: refund.currency,
+    order_id: orderId,
+    original_event_id: original.event_id,
+    original_event_name: original.event_name,
+    refund_type: refund.refundType,
+  };
+  if (refund.amount != null) customData.value = Math.abs(refund.amount);
+
+  const capiEvent: MetaCAPIEvent = {
+    event_name: 'Refund',
+    event_time: Math.floor(Date.now() / 1000),
+    event_id: eventId,
+    action_source: original.action_source,
+    event_source_url: original.event_source_url || undefined,
+    user_data: userData,
+    custom_data: customData,
+  };
+
+  await sendMetaWithQueue(
+    {
+      source: 'refund',
+      brand: original.brand,
+      eventName: 'Refund',
+      email: original.email,
+      emailHash: original.email_hash,
+      keapContactId: original.keap_contact_id,
+      orderId,
+      eventId,
+      pixelId: original.pixel_id,
+    },
+    capiEvent
+  );
+  await storage.markMetaEventRefunded(original, eventId);
+
+  logger.info(
+    { orderId, eventId, originalEventId: original.event_id, refundType: refund.refundType },
+    'Refund CAPI event queued'
+  );
+  return true;
+}
+
+// Graph API limit on events per /events request
+const MAX_EVENTS_PER_REQUEST = 1000;
+
+/**
+ * Index (within the request's data array) of the event Meta rejected a batch
+ * for, when the error says so — via error_data.event_index or an
+ * "event at index N" / "events[N]" style message. null if it doesn't.
+ */
+export function parseFailedEventIndex(responseJson: string | undefined): number | null {
+  if (!responseJson) return null;
+  try {
+    const { error } = JSON.parse(responseJson) as { error?: Record<string, unknown> };
+    if (!error) return null;
+
+    let errorData = error.error_data as Record<string, unknown> | string | undefined;
+    if (typeof errorData === 'string') {
+      try {
+        errorData = JSON.parse(errorData) as Record<string, unknown>;
+      } catch {
+        errorData = undefined;
       }
+    }
+    const dataIndex = (errorData as Record<string, unknown> | undefined)?.event_index;
+    if (typeof dataIndex === 'number' || (typeof dataIndex === 'string' && /^\d+$/.test(dataIndex))) {
+      return Number(dataIndex);
+    }
+
+    const text = `${error.error_user_msg || ''} ${error.message || ''}`;
+    const match = text.match(/events?\s*(?:\[|at index\s+|index\s+)(\d+)/i);
+    return match ? Number(match[1]) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether a failed send should fail the whole batch (network, 5xx, throttling,
+ * or Meta's is_transient flag) rather than be pinned on individual events.
+ */
+function isTransientFailure(result: MetaSendResult): boolean {
+  if (!result.httpStatus || result.httpStatus >= 500 || result.httpStatus === 429) return true;
+  try {
+    const { error } = JSON.parse(result.responseJson || '{}') as { error?: { is_transient?: boolean } };
+    return error?.is_transient === true;
+  } catch {
+    return false;
+  }
+}
 
-      let sent = 0;
-      let failed = 0;
-
-      for (const event of events) {
-        try {
-          const accessToken = metaCAPIClient.getAccessToken(event.brand);
-          if (!accessToken) {
-            const result: MetaSendResult = {
-              success: false,
-              latencyMs: 0,
-              error: `No access token for brand: ${event.brand}`,
-            };
-            await recordAttemptResult(event, event.attempt_count + 1, result);
-            failed++;
-            continue;
-          }
-
-          const capiEvents = JSON.parse(event.capi_payload_json) as Record<string, unknown>[];
-          const result = await metaCAPIClient.sendEvent({
-            pixelId: event.pixel_id!,
-            accessToken,
-            events: capiEvents,
-            brand: event.brand,
-          });
-
-          await recordAttemptResult(event, event.attempt_count + 1, result);
-          if (result.success) {
-            sent++;
-          } else {
-            failed++;
-          }
-        } catch (err) {
-          logger.error({ err, queueId: event.queue_id }, 'Replay worker: error processing event');
-          failed++;
-        }
+/**
+ * Whether a permanent rejection is about the request rather than its events:
+ * an invalid or expired token (190, 102), missing permissions (10, 200–299)
+ * or an unknown pixel (100 with subcode 33, or naming the pixel id). Splitting
+ * the batch can't isolate anything for these, so every event fails once.
+ */
+function isBatchWideRejection(result: MetaSendResult, pixelId: string): boolean {
+  try {
+    const { error } = JSON.parse(result.responseJson || '{}') as {
+      error?: { code?: number; error_subcode?: number; message?: string };
+    };
+    const code = error?.code;
+    if (code === undefined) return false;
+    if (code === 190 || code === 102 || code === 10 || (code >= 200 && code <= 299)) return true;
+    return code === 100 && (error?.error_subcode === 33 || String(error?.message || '').includes(pixelId));
+  } catch {
+    return false;
+  }
+}
+
+interface ReplayItem {
+  record: MetaQueueRecord;
+  events: Record<string, unknown>[];
+}
+
+/**
+ * Outcome of a replay pass. `recorded` are the rows whose SENT/FAILED row was
+ * written — only their leases may be released.
+ */
+interface ReplayCounts {
+  sent: number;
+  failed: number;
+  recorded: MetaQueueRecord[];
+}
+
+/**
+ * Send one pixel's batch and record a SENT/FAILED row per queue_id.
+ *
+ * Meta rejects the whole request when any event is invalid. A permanent (4xx)
+ * rejection is pinned on the event it names and the rest are re-sent; when it
+ * names none, the batch is split in half until the bad event is isolated.
+ * Transient failures and batch-wide rejections (token, permissions, pixel)
+ * mark the whole batch FAILED for the normal backoff.
+ */
+async function sendReplayBatch(
+  pixelId: string,
+  accessToken: string,
+  items: ReplayItem[],
+  counts: ReplayCounts
+): Promise<void> {
+  const events = items.flatMap((item) => item.events);
+  const result = await metaCAPIClient.sendEvent({ pixelId, accessToken, events, brand: items[0].record.brand });
+
+  if (
+    result.success ||
+    isTransientFailure(result) ||
+    isBatchWideRejection(result, pixelId) ||
+    items.length === 1
+  ) {
+    for (const item of items) {
+      await recordAttemptResult(item.record, item.record.attempt_count + 1, result);
+      counts.recorded.push(item.record);
+    }
+    counts[result.success ? 'sent' : 'failed'] += items.length;
+    return;
+  }
+
+  // Map the failing event's index back to its queue row
+  const eventIndex = parseFailedEventIndex(result.responseJson);
+  let itemIndex = -1;
+  if (eventIndex !== null) {
+    for (let i = 0, offset = 0; i < items.length; offset += items[i].events.length, i++) {
+      if (eventIndex < offset + items[i].events.length) {
+        itemIndex = i;
+        break;
       }
+    }
+  }
+
+  if (itemIndex >= 0) {
+    const bad = items[itemIndex];
+    logger.warn(
+      { pixelId, queueId: bad.record.queue_id, eventIndex, error: result.error },
+      'Replay worker: Meta rejected event in batch'
+    );
+    await recordAttemptResult(bad.record, bad.record.attempt_count + 1, result);
+    counts.recorded.push(bad.record);
+    counts.failed++;
+    const rest = items.filter((_, i) => i !== itemIndex);
+    if (rest.length > 0) await sendReplayBatch(pixelId, accessToken, rest, counts);
+    return;
+  }
+
+  const middle = Math.ceil(items.length / 2);
+  await sendReplayBatch(pixelId, accessToken, items.slice(0, middle), counts);
+  await sendReplayBatch(pixelId, accessToken, items.slice(middle), counts);
+}
 
-      logger.info(
-        { processed: events.length, sent, failed },
-        'Replay worker: tick complete'
-      );
+// A replay pass should finish well within this; after it, another instance may take over
+const REPLAY_LEASE_TTL_MS = 5 * 60000;
+
+/**
+ * Lease key of one queue row version: an event is leased again only once a
+ * newer row (FAILED with a later retry, or a requeue) has replaced it.
+ */
+function metaLeaseKey(record: MetaQueueRecord): string {
+  return `meta:${record.queue_id}:${leaseVersion(record.updated_at)}`;
+}
+
+/**
+ * One replay pass: fetch up to `limit` due events, lease them so no other
+ * instance sends them too, group them by pixel_id and send each group in
+ * batches of up to 1000 events.
+ */
+export async function replayDueMetaEvents(
+  limit: number = 50
+): Promise<{ processed: number; sent: number; failed: number }> {
+  const due = await storage.getRetryableMetaEvents(limit);
+  const lease = await acquireLeases(due.map(metaLeaseKey), REPLAY_LEASE_TTL_MS);
+  const records = due.filter((record) => lease.keys.has(metaLeaseKey(record)));
+  const { sent, failed, recorded } = await replayLeasedEvents(records);
+  // An event whose result row wasn't written is still due; its lease expires instead
+  await releaseLeases(lease, recorded.map(metaLeaseKey));
+  return { processed: records.length, sent, failed };
+}
+
+async function replayLeasedEvents(records: MetaQueueRecord[]): Promise<ReplayCounts> {
+  const counts: ReplayCounts = { sent: 0, failed: 0, recorded: [] };
+  const byPixel = new Map<string, ReplayItem[]>();
+
+  for (const record of records) {
+    const accessToken = metaCAPIClient.getAccessToken(record.brand);
+    let error: string | null = null;
+    let events: Record<string, unknown>[] = [];
+    if (!accessToken) {
+      error = `No access token for brand: ${record.brand}`;
+    } else if (!record.pixel_id) {
+      error = 'No pixel_id';
+    } else {
+      try {
+        events = JSON.parse(record.capi_payload_json) as Record<string, unknown>[];
+      } catch {
+        error = 'Unparseable capi_payload_json';
+      }
+    }
+
+    if (error) {
+      try {
+        await recordAttemptResult(record, record.attempt_count + 1, { success: false, latencyMs: 0, error });
+        counts.recorded.push(record);
+      } catch (err) {
+        logger.error({ err, queueId: record.queue_id }, 'Replay worker: error recording failed event');
+      }
+      counts.failed++;
+      continue;
+    }
+    const group = byPixel.get(record.pixel_id!) || [];
+    group.push({ record, events });
+    byPixel.set(record.pixel_id!, group);
+  }
+
+  for (const [pixelId, items] of byPixel) {
+    // All brands share one access token; take it from the group's first event
+    const accessToken = metaCAPIClient.getAccessToken(items[0].record.brand)!;
+    let batch: ReplayItem[] = [];
+    let batchEvents = 0;
+    const flush = async () => {
+      if (batch.length === 0) return;
+      try {
+        await sendReplayBatch(pixelId, accessToken, batch, counts);
+      } catch (err) {
+        logger.error({ err, pixelId, batchSize: batch.length }, 'Replay worker: error sending batch');
+        counts.failed += batch.length;
+      }
+      batch = [];
+      batchEvents = 0;
+    };
+
+    for (const item of items) {
+      if (batchEvents + item.events.length > MAX_EVENTS_PER_REQUEST) await flush();
+      batch.push(item);
+      batchEvents += item.events.length;
+    }
+    await flush();
+  }
+
+  return counts;
+}
+
+/**
+ * Replay worker that retries failed/pending CAPI events.
+ *
+ * Adapts to the backlog: while a pass comes back full, the fetch limit doubles
+ * (50 → 1000 events) and the next pass runs after 2s; once it drains, the limit
+ * halves back and the worker returns to its 30s interval.
+ */
+export function startReplayWorker(): void {
+  const minLimit = 50;
+  const maxLimit = 1000;
+  const idleIntervalMs = 30000;
+  const backlogIntervalMs = 2000;
+  let limit = minLimit;
+
+  const tick = async () => {
+    let backlog = false;
+    try {
+      const { processed, sent, failed } = await replayDueMetaEvents(limit);
+      backlog = processed >= limit;
+      if (processed > 0) {
+        logger.info({ processed, sent, failed, limit, backlog }, 'Replay worker: tick complete');
+      }
+      limit = backlog ? Math.min(limit * 2, maxLimit) : Math.max(Math.ceil(limit / 2), minLimit);
     } catch (err) {
       logger.error({ err }, 'Replay worker: tick error');
     } finally {
-      isRunning = false;
+      setTimeout(tick, backlog ? backlogIntervalMs : idleIntervalMs);
     }
   };
 
-  // Run every 30 seconds
-  setInterval(tick, 30000);
-  logger.info('Meta CAPI replay worker started (30s interval)');
+  setTimeout(tick, idleIntervalMs);
+  logger.info('Meta CAPI replay worker started (30s interval, faster while backlogged)');
 }
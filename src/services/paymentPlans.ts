@@ -0,0 +1,88 @@
+/**
+ * First payment vs. installment classification for Keap orders.
+ *
+ * A Keap payment plan keeps every installment on the original order, so the
+ * order's own payment history decides: a payment with an earlier successful
+ * payment on the same order is an installment (already reported to Meta with
+ * the first one). The order's payment_plan is recorded as supporting evidence.
+ */
+
+export interface PaymentClassification {
+  isInstallment: boolean;
+  note: string;                 // keap_webhook_log.classification_note
+}
+
+const FAILED_STATUS = /declin|fail|error|void/i;
+
+/**
+ * Successful, non-refund payment on the order (Keap lists declined attempts too).
+ */
+function isSuccessfulPayment(txn: Record<string, unknown>): boolean {
+  const amount = txn.amount as number | undefined;
+  if (typeof amount === 'number' && amount <= 0) return false;
+  if (String(txn.type || '').toUpperCase() === 'REFUND') return false;
+  return !FAILED_STATUS.test(String(txn.status || ''));
+}
+
+/**
+ * Whether `other` was made before the payment being classified. Falls back
+ * to transaction ID order when either date is missing or they're equal.
+ */
+function isEarlier(other: Record<string, unknown>, paymentId: number, paymentTime: number): boolean {
+  const otherTime = Date.parse(String(other.transaction_date || ''));
+  if (!isNaN(otherTime) && !isNaN(paymentTime) && otherTime !== paymentTime) {
+    return otherTime < paymentTime;
+  }
+  return Number(other.id) < paymentId;
+}
+
+function describePlan(order: Record<string, unknown>): string {
+  const plan = order.payment_plan as Record<string, unknown> | null | undefined;
+  if (!plan) return 'plan=none';
+  const payments = plan.number_of_payments ?? '?';
+  const days = plan.days_between_payments ?? '?';
+  return `plan=${payments} payments every ${days}d`;
+}
+
+/**
+ * Classify a payment against its order. `history` is the order's payments
+ * (GET /orders/{id}/transactions), or null if Keap couldn't return them —
+ * then the order's total_paid decides: more paid than this payment means
+ * an earlier payment exists.
+ */
+export function classifyOrderPayment(
+  paymentId: number,
+  transaction: Record<string, unknown>,
+  order: Record<string, unknown>,
+  history: Array<Record<string, unknown>> | null
+): PaymentClassification {
+  const plan = describePlan(order);
+
+  if (history) {
+    const paymentTime = Date.parse(String(transaction.transaction_date || ''));
+    const prior = history.filter(
+      (txn) => Number(txn.id) !== paymentId && isSuccessfulPayment(txn) && isEarlier(txn, paymentId, paymentTime)
+    );
+    if (prior.length > 0) {
+      const ids = prior.map((txn) => txn.id).join(',');
+      return {
+        isInstallment: true,
+        note: `installment_skip: payment ${prior.length + 1} on order; ${plan}; prior_payments=${ids}`,
+      };
+    }
+    return { isInstallment: false, note: `first_payment: no prior payments on order; ${plan}` };
+  }
+
+  const amount = Number(transaction.amount) || 0;
+  const totalPaid = Number(order.total_paid);
+  if (order.payment_plan && !isNaN(totalPaid) && totalPaid > amount + 0.005) {
+    return {
+      isInstallment: true,
+      note: `installment_skip: history unavailable; ${plan}; total_paid=${totalPaid} > amount=${amount}`,
+    };
+  }
+  return {
+    isInstallment: false,
+    note: `first_payment: history unavailable; ${plan}; total_paid=${isNaN(totalPaid) ? '?' : totalPaid}`,
+  };
+}
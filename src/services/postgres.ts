@@ -0,0 +1,965 @@
+import pg from 'pg';
+import type { TagAction, ClickbankTransaction, ClickbankLineItemResult, SubscriberQueueEntry, SubscriberProcessingResult, RetryableSubscriber, TrackingContextRecord, MetaQueueRecord, KeapWebhookLogRecord, KeapLifecycleEventRecord, KeapHookEventRecord, KeapHookSecretRecord, KeapReconciliationJob, PurchaseHistoryRow, MetaQueueFilter, ClickbankIntakeClaim } from '../types/index.js';
+import type { StorageBackend } from './storage.js';
+import { logger } from '../utils/logger.js';
+
+// Return rows shaped like the BigQuery client's: numbers for NUMERIC/BIGINT,
+// ISO strings for timestamps
+pg.types.setTypeParser(pg.types.builtins.NUMERIC, (value) => parseFloat(value));
+pg.types.setTypeParser(pg.types.builtins.INT8, (value) => parseInt(value, 10));
+pg.types.setTypeParser(pg.types.builtins.TIMESTAMPTZ, (value) => new Date(value).toISOString());
+
+// Same tables and columns as BigQuery, except that clickbank_transactions and
+// subscriber_queue are updated in place alongside their result rows.
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS clickbank_product_tags (
+    clickbank_product_id TEXT NOT NULL,
+    brand TEXT NOT NULL,
+    transaction_type TEXT NOT NULL,
+    action TEXT NOT NULL,
+    fulfillment_trigger_tag TEXT,
+    keap_tag_id BIGINT NOT NULL,
+    keap_tag_category TEXT,
+    cc_descriptor TEXT,
+    active BOOLEAN,
+    created_at TIMESTAMPTZ,
+    updated_at TIMESTAMPTZ
+  );
+  CREATE INDEX IF NOT EXISTS clickbank_product_tags_product_idx ON clickbank_product_tags (clickbank_product_id);
+
+  CREATE TABLE IF NOT EXISTS clickbank_transactions (
+    id TEXT PRIMARY KEY,
+    receipt TEXT NOT NULL,
+    transaction_type TEXT NOT NULL,
+    brand TEXT NOT NULL,
+    vendor TEXT,
+    email TEXT NOT NULL,
+    first_name TEXT,
+    last_name TEXT,
+    product_id TEXT NOT NULL,
+    amount NUMERIC,
+    currency TEXT,
+    affiliate TEXT,
+    clickbank_timestamp TIMESTAMPTZ,
+    raw_payload TEXT,
+    is_test BOOLEAN NOT NULL,
+    is_encrypted BOOLEAN NOT NULL,
+    decryption_key_id TEXT,
+    source_ip TEXT,
+    user_agent TEXT,
+    is_processed BOOLEAN NOT NULL,
+    keap_contact_id BIGINT,
+    tags_applied BIGINT[] NOT NULL DEFAULT '{}',
+    tags_removed BIGINT[] NOT NULL DEFAULT '{}',
+    processing_status TEXT NOT NULL,
+    error_message TEXT,
+    created_at TIMESTAMPTZ NOT NULL,
+    processed_at TIMESTAMPTZ
+  );
+  CREATE INDEX IF NOT EXISTS clickbank_transactions_pending_idx
+    ON clickbank_transactions (created_at) WHERE processing_status = 'PENDING' AND NOT is_processed;
+
+  CREATE TABLE IF NOT EXISTS clickbank_transaction_results (
+    transaction_id TEXT NOT NULL,
+    keap_contact_id BIGINT,
+    tags_applied BIGINT[] NOT NULL DEFAULT '{}',
+    tags_removed BIGINT[] NOT NULL DEFAULT '{}',
+    processing_status TEXT NOT NULL,
+    error_message TEXT,
+    processed_at TIMESTAMPTZ NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS clickbank_line_item_results (
+    transaction_id TEXT NOT NULL,
+    receipt TEXT NOT NULL,
+    transaction_type TEXT NOT NULL,
+    line_item_index INTEGER NOT NULL,
+    product_id TEXT NOT NULL,
+    amount NUMERIC,
+    keap_contact_id BIGINT,
+    tags_applied BIGINT[] NOT NULL DEFAULT '{}',
+    tags_removed BIGINT[] NOT NULL DEFAULT '{}',
+    processing_status TEXT NOT NULL,
+    error_message TEXT,
+    processed_at TIMESTAMPTZ NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS clickbank_line_item_results_receipt_idx ON clickbank_line_item_results (receipt);
+
+  CREATE TABLE IF NOT EXISTS clickbank_ipn_intake (
+    intake_key TEXT PRIMARY KEY,
+    receipt TEXT NOT NULL,
+    transaction_type TEXT NOT NULL,
+    line_item_index INTEGER NOT NULL,
+    product_id TEXT NOT NULL,
+    transaction_id TEXT NOT NULL,
+    delivery_count INTEGER NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL,
+    last_seen_at TIMESTAMPTZ NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS subscriber_queue (
+    id TEXT PRIMARY KEY,
+    email TEXT NOT NULL,
+    first_name TEXT NOT NULL,
+    brand TEXT NOT NULL,
+    dp_source_id TEXT,
+    dp_ip_address TEXT,
+    dp_first_upload_time TEXT,
+    dp_optional_inputs TEXT,
+    redirect_slug TEXT,
+    source_url TEXT,
+    user_agent TEXT,
+    raw_payload TEXT,
+    tag_name TEXT,
+    is_processed BOOLEAN NOT NULL,
+    keap_contact_id BIGINT,
+    tags_applied TEXT[] NOT NULL DEFAULT '{}',
+    processing_error TEXT,
+    status TEXT,
+    attempt_count INTEGER NOT NULL DEFAULT 0,
+    next_attempt_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL,
+    processed_at TIMESTAMPTZ
+  );
+  CREATE INDEX IF NOT EXISTS subscriber_queue_email_idx ON subscriber_queue (email, created_at);
+
+  CREATE TABLE IF NOT EXISTS subscriber_processing_results (
+    subscriber_id TEXT NOT NULL,
+    keap_contact_id BIGINT,
+    tags_applied TEXT[] NOT NULL DEFAULT '{}',
+    processing_error TEXT,
+    is_success BOOLEAN NOT NULL,
+    status TEXT,
+    attempt_count INTEGER,
+    next_attempt_at TIMESTAMPTZ,
+    processed_at TIMESTAMPTZ NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS tracking_context (
+    created_at TIMESTAMPTZ NOT NULL,
+    brand TEXT NOT NULL,
+    email TEXT NOT NULL,
+    keap_contact_id TEXT,
+    pixel_id TEXT,
+    fbp TEXT,
+    fbc TEXT,
+    fbclid TEXT,
+    event_id TEXT,
+    utm_source TEXT,
+    utm_medium TEXT,
+    utm_campaign TEXT,
+    utm_content TEXT,
+    utm_term TEXT,
+    source_url TEXT,
+    user_agent TEXT,
+    ip_address TEXT
+  );
+  CREATE INDEX IF NOT EXISTS tracking_context_contact_idx ON tracking_context (keap_contact_id);
+  CREATE INDEX IF NOT EXISTS tracking_context_email_idx ON tracking_context (email);
+
+  CREATE TABLE IF NOT EXISTS meta_capi_queue (
+    created_at TIMESTAMPTZ NOT NULL,
+    updated_at TIMESTAMPTZ NOT NULL,
+    queue_id TEXT NOT NULL,
+    source TEXT NOT NULL,
+    brand TEXT NOT NULL,
+    event_name TEXT NOT NULL,
+    email TEXT,
+    email_hash TEXT,
+    keap_contact_id TEXT,
+    order_id TEXT,
+    event_id TEXT,
+    pixel_id TEXT,
+    event_time BIGINT NOT NULL,
+    action_source TEXT NOT NULL,
+    event_source_url TEXT,
+    capi_payload_json TEXT NOT NULL,
+    status TEXT NOT NULL,
+    attempt_count INTEGER NOT NULL,
+    next_attempt_at TIMESTAMPTZ NOT NULL,
+    last_http_status INTEGER,
+    last_error_message TEXT,
+    last_response_json TEXT,
+    last_latency_ms INTEGER,
+    refunded_at TIMESTAMPTZ,
+    refund_event_id TEXT
+  );
+  CREATE INDEX IF NOT EXISTS meta_capi_queue_order_idx ON meta_capi_queue (order_id);
+  CREATE INDEX IF NOT EXISTS meta_capi_queue_queue_idx ON meta_capi_queue (queue_id, updated_at DESC);
+
+  CREATE TABLE IF NOT EXISTS keap_webhook_log (
+    created_at TIMESTAMPTZ NOT NULL,
+    payment_id BIGINT NOT NULL,
+    is_duplicate BOOLEAN NOT NULL,
+    contact_id BIGINT,
+    brand TEXT,
+    event_name TEXT,
+    subscription_plan_id BIGINT,
+    prior_order_count INTEGER,
+    order_id TEXT,
+    amount NUMERIC,
+    currency TEXT,
+    raw_transaction_json TEXT,
+    raw_order_json TEXT,
+    classification_note TEXT
+  );
+  CREATE INDEX IF NOT EXISTS keap_webhook_log_payment_idx ON keap_webhook_log (payment_id, created_at);
+
+  CREATE TABLE IF NOT EXISTS keap_lifecycle_events (
+    created_at TIMESTAMPTZ NOT NULL,
+    event_key TEXT NOT NULL,
+    object_id BIGINT NOT NULL,
+    contact_id BIGINT,
+    brand TEXT,
+    product_id BIGINT,
+    product_code TEXT,
+    status TEXT NOT NULL,
+    fields_updated TEXT[] NOT NULL DEFAULT '{}',
+    note TEXT,
+    raw_object_json TEXT
+  );
+  CREATE INDEX IF NOT EXISTS keap_lifecycle_events_contact_idx ON keap_lifecycle_events (contact_id, created_at);
+
+  CREATE TABLE IF NOT EXISTS keap_hook_events (
+    created_at TIMESTAMPTZ NOT NULL,
+    event_id TEXT PRIMARY KEY,
+    event_key TEXT NOT NULL,
+    route_key TEXT,
+    object_count INTEGER NOT NULL,
+    object_keys_json TEXT NOT NULL,
+    request_id TEXT
+  );
+
+  CREATE TABLE IF NOT EXISTS keap_reconciliation_jobs (
+    created_at TIMESTAMPTZ NOT NULL,
+    updated_at TIMESTAMPTZ NOT NULL,
+    job_id TEXT NOT NULL,
+    expected_count INTEGER NOT NULL,
+    reconciled_txn_ids BIGINT[] NOT NULL DEFAULT '{}',
+    status TEXT NOT NULL,
+    attempt_count INTEGER NOT NULL,
+    due_at TIMESTAMPTZ NOT NULL,
+    last_error TEXT
+  );
+  CREATE INDEX IF NOT EXISTS keap_reconciliation_jobs_job_idx ON keap_reconciliation_jobs (job_id, updated_at DESC);
+
+  CREATE TABLE IF NOT EXISTS work_leases (
+    lease_key TEXT PRIMARY KEY,
+    owner TEXT NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL,
+    acquired_at TIMESTAMPTZ NOT NULL,
+    expires_at TIMESTAMPTZ NOT NULL,
+    released_at TIMESTAMPTZ
+  );
+
+  CREATE TABLE IF NOT EXISTS keap_hook_secrets (
+    created_at TIMESTAMPTZ NOT NULL,
+    hook_path TEXT NOT NULL,
+    secret_hash TEXT,
+    request_id TEXT
+  );
+  CREATE INDEX IF NOT EXISTS keap_hook_secrets_path_idx ON keap_hook_secrets (hook_path, created_at DESC);
+`;
+
+type Queryable = Pick<pg.PoolClient, 'query'>;
+
+/**
+ * Build a parameterized INSERT for a record whose keys match the table columns.
+ */
+function insertStatement(table: string, record: object): { text: string; values: unknown[] } {
+  const entries = Object.entries(record).filter(([, value]) => value !== undefined);
+  const columns = entries.map(([key]) => key).join(', ');
+  const placeholders = entries.map((_, i) => `$${i + 1}`).join(', ');
+  return {
+    text: `INSERT INTO ${table} (${columns}) VALUES (${placeholders})`,
+    values: entries.map(([, value]) => value),
+  };
+}
+
+/**
+ * Postgres storage backend. Table and column names match BigQuery so the
+ * same reporting queries work against both.
+ */
+export class PostgresClient implements StorageBackend {
+  private pool: pg.Pool;
+
+  constructor(connectionString: string) {
+    this.pool = new pg.Pool({ connectionString });
+    this.pool.on('error', (error) => {
+      logger.error({ error }, 'Postgres idle client error');
+    });
+  }
+
+  private async insert(table: string, record: object, client: Queryable = this.pool): Promise<void> {
+    const { text, values } = insertStatement(table, record);
+    await client.query(text, values);
+  }
+
+  /**
+   * Run statements in a single transaction, rolling back on any error.
+   */
+  private async withTransaction<T>(fn: (client: pg.PoolClient) => Promise<T>): Promise<T> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      const result = await fn(client);
+      await client.query('COMMIT');
+      return result;
+    } catch (error) {
+      await client.query('ROLLBACK').catch(() => {});
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async getProductInfo(
+    productId: string
+  ): Promise<{ fulfillment_trigger_tag: string | null; cc_descriptor: string | null } | null> {
+    try {
+      const { rows } = await this.pool.query(
+        `SELECT fulfillment_trigger_tag, cc_descriptor
+         FROM clickbank_product_tags
+         WHERE clickbank_product_id = $1
+           AND active = true
+           AND keap_tag_category = 'CustomerHub'
+           AND action = 'apply_tag'
+         LIMIT 1`,
+        [productId]
+      );
+      if (rows.length === 0) return null;
+      return {
+        fulfillment_trigger_tag: rows[0].fulfillment_trigger_tag || null,
+        cc_descriptor: rows[0].cc_descriptor || null,
+      };
+    } catch (error) {
+      logger.error({ error, productId }, 'Failed to get product info');
+      return null;
+    }
+  }
+
+  async getTagActionsForProduct(productId: string, transactionType: string): Promise<TagAction[]> {
+    try {
+      // transaction_type is pipe-delimited, e.g. 'SALE|TEST_SALE|REBILL'
+      const { rows } = await this.pool.query(
+        `SELECT action, keap_tag_id, keap_tag_category, fulfillment_trigger_tag
+         FROM clickbank_product_tags
+         WHERE clickbank_product_id = $1
+           AND $2 = ANY(string_to_array(transaction_type, '|'))
+           AND active = true`,
+        [productId, transactionType]
+      );
+
+      const tagActions: TagAction[] = rows.map((row) => ({
+        action: row.action as TagAction['action'],
+        tagId: row.keap_tag_id,
+        tagCategory: row.keap_tag_category ?? undefined,
+        triggerTag: row.fulfillment_trigger_tag ?? undefined,
+      }));
+
+      logger.info({ productId, transactionType, tagActions }, 'Retrieved tag actions for product');
+      return tagActions;
+    } catch (error) {
+      logger.error({ error, productId, transactionType }, 'Failed to get tag actions for product');
+      return [];
+    }
+  }
+
+  async logTransaction(transaction: ClickbankTransaction): Promise<void> {
+    try {
+      await this.insert('clickbank_transactions', transaction);
+      logger.info(
+        { receipt: transaction.receipt, status: transaction.processing_status },
+        'Transaction logged to Postgres'
+      );
+    } catch (error) {
+      logger.error({ error }, 'Failed to log transaction to Postgres');
+      throw error;
+    }
+  }
+
+  async queueSubscriber(entry: SubscriberQueueEntry): Promise<string> {
+    try {
+      await this.insert('subscriber_queue', entry);
+      logger.info({ id: entry.id, email: entry.email, brand: entry.brand }, 'Subscriber queued');
+      return entry.id;
+    } catch (error) {
+      logger.error({ error }, 'Failed to queue subscriber');
+      throw error;
+    }
+  }
+
+  /**
+   * Record a subscriber attempt: keep the per-attempt history row and update
+   * the queue row's current status in the same transaction.
+   */
+  async insertSubscriberResult(result: SubscriberProcessingResult): Promise<void> {
+    try {
+      await this.withTransaction(async (client) => {
+        await this.insert('subscriber_processing_results', result, client);
+        await client.query(
+          `UPDATE subscriber_queue
+           SET is_processed = $2,
+               keap_contact_id = COALESCE($3, keap_contact_id),
+               tags_applied = $4,
+               processing_error = $5,
+               status = $6,
+               attempt_count = $7,
+               next_attempt_at = $8,
+               processed_at = $9
+           WHERE id = $1`,
+          [
+            result.subscriber_id,
+            result.is_success,
+            result.keap_contact_id,
+            result.tags_applied,
+            result.processing_error,
+            result.status,
+            result.attempt_count,
+            result.next_attempt_at,
+            result.processed_at,
+          ]
+        );
+      });
+      logger.info(
+        {
+          id: result.subscriber_id,
+          keapContactId: result.keap_contact_id,
+          tagsApplied: result.tags_applied,
+          status: result.status,
+          attempt: result.attempt_count,
+        },
+        'Subscriber processing result recorded'
+      );
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : String(err);
+      logger.error({ error: errorMessage, id: result.subscriber_id }, 'Failed to record subscriber processing result');
+      throw err;
+    }
+  }
+
+  /**
+   * Subscribers never attempted (older than the in-flight window) or whose
+   * last attempt FAILED and whose backoff has elapsed.
+   */
+  async getUnprocessedSubscribers(limit: number = 100): Promise<RetryableSubscriber[]> {
+    try {
+      const { rows } = await this.pool.query(
+        `SELECT *
+         FROM subscriber_queue
+         WHERE NOT is_processed
+           AND (
+             (status IS NULL AND created_at <= now() - interval '5 minutes')
+             OR (status = 'FAILED' AND next_attempt_at <= now())
+           )
+         ORDER BY created_at ASC
+         LIMIT $1`,
+        [limit]
+      );
+      return rows as RetryableSubscriber[];
+    } catch (error) {
+      logger.error({ error }, 'Failed to get unprocessed subscribers');
+      return [];
+    }
+  }
+
+  async getUnprocessedTransactions(limit: number = 100): Promise<ClickbankTransaction[]> {
+    try {
+      const { rows } = await this.pool.query(
+        `SELECT *
+         FROM clickbank_transactions
+         WHERE processing_status = 'PENDING'
+           AND NOT is_processed
+         ORDER BY created_at ASC
+         LIMIT $1`,
+        [limit]
+      );
+      return rows as ClickbankTransaction[];
+    } catch (error) {
+      logger.error({ error }, 'Failed to get unprocessed transactions');
+      return [];
+    }
+  }
+
+  /**
+   * Mark the transaction processed and keep a result row, in one transaction.
+   */
+  async updateTransactionStatus(
+    id: string,
+    keapContactId: number | null,
+    tagsApplied: number[],
+    tagsRemoved: number[],
+    error: string | null
+  ): Promise<void> {
+    try {
+      const processingStatus = error ? 'FAILED' : 'SUCCESS';
+      const processedAt = new Date().toISOString();
+
+      await this.withTransaction(async (client) => {
+        await client.query(
+          `UPDATE clickbank_transactions
+           SET is_processed = true,
+               keap_contact_id = $2,
+               tags_applied = $3,
+               tags_removed = $4,
+               processing_status = $5,
+               error_message = $6,
+               processed_at = $7
+           WHERE id = $1`,
+          [id, keapContactId, tagsApplied, tagsRemoved, processingStatus, error, processedAt]
+        );
+        await this.insert(
+          'clickbank_transaction_results',
+          {
+            transaction_id: id,
+            keap_contact_id: keapContactId,
+            tags_applied: tagsApplied,
+            tags_removed: tagsRemoved,
+            processing_status: processingStatus,
+            error_message: error,
+            processed_at: processedAt,
+          },
+          client
+        );
+      });
+
+      logger.info({ id, keapContactId, success: !error }, 'Transaction result recorded');
+    } catch (err) {
+      logger.error({ error: err, id }, 'Failed to record transaction result');
+      throw err;
+    }
+  }
+
+  async insertLineItemResults(results: ClickbankLineItemResult[]): Promise<void> {
+    if (results.length === 0) return;
+
+    try {
+      await this.withTransaction(async (client) => {
+        for (const result of results) {
+          await this.insert('clickbank_line_item_results', result, client);
+        }
+      });
+      logger.info(
+        { transactionId: results[0].transaction_id, lineItems: results.length },
+        'Line item results recorded'
+      );
+    } catch (error) {
+      logger.error({ error }, 'Failed to record line item results');
+    }
+  }
+
+  /**
+   * intake_key is the primary key, so the first delivery's INSERT wins and
+   * redeliveries only bump delivery_count. Fails open like BigQuery.
+   */
+  async claimClickbankIntake(claims: ClickbankIntakeClaim[]): Promise<string | null> {
+    if (claims.length === 0) return null;
+
+    try {
+      const owners = await this.withTransaction(async (client) => {
+        const ids: string[] = [];
+        for (const claim of claims) {
+          const { text, values } = insertStatement('clickbank_ipn_intake', claim);
+          const { rows } = await client.query(
+            `${text}
+             ON CONFLICT (intake_key) DO UPDATE
+               SET delivery_count = clickbank_ipn_intake.delivery_count + 1, last_seen_at = EXCLUDED.last_seen_at
+             RETURNING transaction_id`,
+            values
+          );
+          ids.push(rows[0].transaction_id as string);
+        }
+        return ids;
+      });
+      return owners.includes(claims[0].transaction_id) ? null : owners[0];
+    } catch (error) {
+      logger.error({ error, receipt: claims[0].receipt }, 'Failed to claim ClickBank IPN intake — processing anyway');
+      return null;
+    }
+  }
+
+  async releaseClickbankIntake(claims: ClickbankIntakeClaim[]): Promise<void> {
+    if (claims.length === 0) return;
+    try {
+      await this.pool.query(
+        'DELETE FROM clickbank_ipn_intake WHERE transaction_id = $1 AND intake_key = ANY($2)',
+        [claims[0].transaction_id, claims.map((c) => c.intake_key)]
+      );
+    } catch (error) {
+      logger.error({ error, receipt: claims[0].receipt }, 'Failed to release ClickBank IPN intake claim');
+    }
+  }
+
+  async insertTrackingContext(record: TrackingContextRecord): Promise<void> {
+    try {
+      await this.insert('tracking_context', record);
+      logger.info({ email: record.email, brand: record.brand }, 'Tracking context inserted');
+    } catch (error) {
+      logger.error({ error }, 'Failed to insert tracking context');
+    }
+  }
+
+  async lookupTrackingContext(
+    keapContactId: string | null,
+    email: string | null
+  ): Promise<TrackingContextRecord | null> {
+    try {
+      if (keapContactId) {
+        const { rows } = await this.pool.query(
+          `SELECT * FROM tracking_context
+           WHERE keap_contact_id = $1
+           ORDER BY pixel_id IS NOT NULL DESC, created_at DESC
+           LIMIT 1`,
+          [keapContactId]
+        );
+        if (rows.length > 0) return rows[0] as TrackingContextRecord;
+      }
+
+      if (email) {
+        const { rows } = await this.pool.query(
+          `SELECT * FROM tracking_context
+           WHERE email = $1
+           ORDER BY pixel_id IS NOT NULL DESC, created_at DESC
+           LIMIT 1`,
+          [email]
+        );
+        if (rows.length > 0) return rows[0] as TrackingContextRecord;
+      }
+
+      return null;
+    } catch (error) {
+      logger.error({ error, keapContactId, email }, 'Failed to lookup tracking context');
+      return null;
+    }
+  }
+
+  async getRecentlyProcessedTransactionIds(minutesBack: number = 30): Promise<Set<string>> {
+    try {
+      const { rows } = await this.pool.query(
+        `SELECT replace(event_id, 'purchase_txn_', '') AS txn_id
+         FROM meta_capi_queue
+         WHERE source = 'purchase'
+           AND event_id LIKE 'purchase_txn_%'
+           AND created_at >= now() - make_interval(mins => $1)
+         UNION
+         SELECT payment_id::text AS txn_id
+         FROM keap_webhook_log
+         WHERE NOT is_duplicate
+           AND created_at >= now() - make_interval(mins => $1)`,
+        [minutesBack]
+      );
+      return new Set(rows.map((r) => String(r.txn_id)));
+    } catch (error) {
+      logger.error({ error }, 'Failed to get recently processed transaction IDs');
+      return new Set();
+    }
+  }
+
+  /**
+   * Meta queue rows stay append-only here too — each attempt is kept as history.
+   */
+  async insertMetaQueueRow(record: MetaQueueRecord): Promise<void> {
+    try {
+      await this.insert('meta_capi_queue', record);
+      logger.info(
+        { queueId: record.queue_id, status: record.status, attempt: record.attempt_count },
+        'Meta CAPI queue row inserted'
+      );
+    } catch (error) {
+      logger.error({ error }, 'Failed to insert meta queue row');
+      throw error;
+    }
+  }
+
+  async getRetryableMetaEvents(limit: number = 50): Promise<MetaQueueRecord[]> {
+    try {
+      const { rows } = await this.pool.query(
+        `SELECT * FROM (
+           SELECT DISTINCT ON (queue_id) *
+           FROM meta_capi_queue
+           ORDER BY queue_id, updated_at DESC
+         ) latest
+         WHERE status IN ('PENDING', 'FAILED')
+           AND next_attempt_at <= now()
+         ORDER BY next_attempt_at ASC
+         LIMIT $1`,
+        [limit]
+      );
+      return rows as MetaQueueRecord[];
+    } catch (error) {
+      logger.error({ error }, 'Failed to get retryable meta events');
+      return [];
+    }
+  }
+
+  async getPurchaseMetaEvent(orderId: string): Promise<MetaQueueRecord | null> {
+    try {
+      const { rows } = await this.pool.query(
+        `SELECT * FROM (
+           SELECT DISTINCT ON (queue_id) *
+           FROM meta_capi_queue
+           WHERE source = 'purchase' AND order_id = $1
+           ORDER BY queue_id, updated_at DESC
+         ) latest
+         ORDER BY created_at ASC
+         LIMIT 1`,
+        [orderId]
+      );
+      return (rows[0] as MetaQueueRecord) || null;
+    } catch (error) {
+      logger.error({ error, orderId }, 'Failed to look up purchase meta event');
+      return null;
+    }
+  }
+
+  /**
+   * Flags every history row of the purchase, so any row read back carries the refund.
+   */
+  async markMetaEventRefunded(record: MetaQueueRecord, refundEventId: string): Promise<void> {
+    try {
+      await this.pool.query(
+        `UPDATE meta_capi_queue
+         SET refunded_at = now(), refund_event_id = $2
+         WHERE queue_id = $1`,
+        [record.queue_id, refundEventId]
+      );
+    } catch (error) {
+      logger.error({ error, queueId: record.queue_id }, 'Failed to mark meta event refunded');
+    }
+  }
+
+  async listMetaEvents(filter: MetaQueueFilter): Promise<MetaQueueRecord[]> {
+    const dateField = filter.dateField === 'updated_at' ? 'updated_at' : 'created_at';
+    const conditions: string[] = [];
+    const values: unknown[] = [];
+    const param = (value: unknown) => {
+      values.push(value);
+      return `$${values.length}`;
+    };
+    if (filter.statuses?.length) conditions.push(`status = ANY(${param(filter.statuses)})`);
+    if (filter.brand) conditions.push(`brand = ${param(filter.brand)}`);
+    if (filter.source) conditions.push(`source = ${param(filter.source)}`);
+    if (filter.from) conditions.push(`${dateField} >= ${param(filter.from)}`);
+    if (filter.to) conditions.push(`${dateField} < ${param(filter.to)}`);
+
+    try {
+      const { rows } = await this.pool.query(
+        `SELECT * FROM (
+           SELECT DISTINCT ON (queue_id) *
+           FROM meta_capi_queue
+           ORDER BY queue_id, updated_at DESC
+         ) latest
+         ${conditions.length ? `WHERE ${conditions.join(' AND ')}` : ''}
+         ORDER BY ${dateField} DESC
+         LIMIT ${param(filter.limit)}`,
+        values
+      );
+      return rows as MetaQueueRecord[];
+    } catch (error) {
+      logger.error({ error, filter }, 'Failed to list meta events');
+      throw error;
+    }
+  }
+
+  async getMetaEventHistory(queueId: string): Promise<MetaQueueRecord[]> {
+    try {
+      const { rows } = await this.pool.query(
+        'SELECT * FROM meta_capi_queue WHERE queue_id = $1 ORDER BY updated_at ASC',
+        [queueId]
+      );
+      return rows as MetaQueueRecord[];
+    } catch (error) {
+      logger.error({ error, queueId }, 'Failed to get meta event history');
+      throw error;
+    }
+  }
+
+  async getPurchaseHistory(keapContactId: number, email: string | null): Promise<PurchaseHistoryRow[] | null> {
+    try {
+      const { rows } = await this.pool.query(
+        `SELECT DISTINCT ON (receipt, transaction_type)
+                'clickbank' AS source, receipt AS order_id, transaction_type, amount, created_at
+         FROM clickbank_transactions
+         WHERE (keap_contact_id = $1 OR ($2::text IS NOT NULL AND lower(email) = lower($2)))
+           AND transaction_type IN ('SALE', 'REBILL', 'RFND', 'CGBK')
+           AND amount IS NOT NULL
+         UNION ALL
+         SELECT DISTINCT ON (payment_id)
+                'keap' AS source, order_id,
+                CASE WHEN classification_note LIKE 'refund%' THEN 'REFUND' ELSE 'PAYMENT' END,
+                amount, created_at
+         FROM keap_webhook_log
+         WHERE contact_id = $1
+           AND NOT is_duplicate
+           AND amount IS NOT NULL`,
+        [keapContactId, email]
+      );
+      return rows.map((r) => ({ ...r, amount: Number(r.amount) })) as PurchaseHistoryRow[];
+    } catch (error) {
+      logger.error({ error, keapContactId }, 'Failed to get purchase history');
+      return null;
+    }
+  }
+
+  async lookupBrandByEmail(email: string): Promise<string | null> {
+    try {
+      const { rows } = await this.pool.query(
+        `SELECT brand FROM subscriber_queue
+         WHERE email = $1
+         ORDER BY created_at DESC
+         LIMIT 1`,
+        [email]
+      );
+      return rows.length > 0 ? (rows[0].brand as string) : null;
+    } catch (error) {
+      logger.error({ error, email }, 'Failed to lookup brand by email');
+      return null;
+    }
+  }
+
+  async checkPaymentProcessed(paymentId: number): Promise<boolean> {
+    try {
+      const { rows } = await this.pool.query(
+        `SELECT 1 FROM keap_webhook_log
+         WHERE payment_id = $1
+           AND is_duplicate = false
+           AND created_at >= now() - interval '24 hours'
+         LIMIT 1`,
+        [paymentId]
+      );
+      return rows.length > 0;
+    } catch (error) {
+      logger.warn({ error, paymentId }, 'checkPaymentProcessed query failed — assuming not duplicate');
+      return false;
+    }
+  }
+
+  async insertWebhookLog(record: KeapWebhookLogRecord): Promise<void> {
+    try {
+      await this.insert('keap_webhook_log', record);
+      logger.info(
+        { paymentId: record.payment_id, eventName: record.event_name, subscriptionPlanId: record.subscription_plan_id },
+        'Webhook log row inserted'
+      );
+    } catch (error) {
+      logger.error({ error }, 'Failed to insert webhook log row');
+    }
+  }
+
+  async insertLifecycleEvent(record: KeapLifecycleEventRecord): Promise<void> {
+    try {
+      await this.insert('keap_lifecycle_events', record);
+      logger.info(
+        { eventKey: record.event_key, objectId: record.object_id, status: record.status },
+        'Lifecycle event row inserted'
+      );
+    } catch (error) {
+      logger.error({ error }, 'Failed to insert lifecycle event row');
+    }
+  }
+
+  async insertKeapHookEvent(record: KeapHookEventRecord): Promise<void> {
+    try {
+      await this.insert('keap_hook_events', record);
+      logger.info({ eventId: record.event_id, eventKey: record.event_key }, 'Keap hook event row inserted');
+    } catch (error) {
+      logger.error({ error }, 'Failed to insert Keap hook event row');
+    }
+  }
+
+  async getKeapHookEvent(eventId: string): Promise<KeapHookEventRecord | null> {
+    try {
+      const { rows } = await this.pool.query('SELECT * FROM keap_hook_events WHERE event_id = $1', [eventId]);
+      return (rows[0] as KeapHookEventRecord) || null;
+    } catch (error) {
+      logger.error({ error, eventId }, 'Failed to get Keap hook event');
+      return null;
+    }
+  }
+
+  async insertKeapHookSecret(record: KeapHookSecretRecord): Promise<void> {
+    await this.insert('keap_hook_secrets', record);
+  }
+
+  async getKeapHookSecret(hookPath: string, includeWindows: boolean = false): Promise<KeapHookSecretRecord | null> {
+    const { rows } = await this.pool.query(
+      `SELECT * FROM keap_hook_secrets
+       WHERE hook_path = $1 ${includeWindows ? '' : 'AND secret_hash IS NOT NULL'}
+       ORDER BY created_at DESC
+       LIMIT 1`,
+      [hookPath]
+    );
+    return (rows[0] as KeapHookSecretRecord) || null;
+  }
+
+  /**
+   * Reconciliation jobs are append-only like the Meta queue.
+   */
+  async insertReconciliationJobRow(job: KeapReconciliationJob): Promise<void> {
+    try {
+      await this.insert('keap_reconciliation_jobs', job);
+      logger.info(
+        { jobId: job.job_id, status: job.status, attempt: job.attempt_count },
+        'Reconciliation job row inserted'
+      );
+    } catch (error) {
+      logger.error({ error }, 'Failed to insert reconciliation job row');
+    }
+  }
+
+  async getDueReconciliationJobs(limit: number = 20): Promise<KeapReconciliationJob[]> {
+    try {
+      const { rows } = await this.pool.query(
+        `SELECT * FROM (
+           SELECT DISTINCT ON (job_id) *
+           FROM keap_reconciliation_jobs
+           ORDER BY job_id, updated_at DESC
+         ) latest
+         WHERE status = 'PENDING'
+           AND due_at <= now()
+         ORDER BY due_at ASC
+         LIMIT $1`,
+        [limit]
+      );
+      return rows.map((r) => ({ ...r, reconciled_txn_ids: (r.reconciled_txn_ids || []).map(Number) })) as KeapReconciliationJob[];
+    } catch (error) {
+      logger.error({ error }, 'Failed to get due reconciliation jobs');
+      return [];
+    }
+  }
+
+  /**
+   * Rows come back only for keys inserted or taken over, i.e. the ones acquired.
+   */
+  async acquireLeases(keys: string[], owner: string, ttlMs: number): Promise<string[]> {
+    if (keys.length === 0) return [];
+    const { rows } = await this.pool.query(
+      `INSERT INTO work_leases (lease_key, owner, created_at, acquired_at, expires_at, released_at)
+       SELECT lease_key, $2, now(), now(), now() + $3 * interval '1 millisecond', NULL
+       FROM unnest($1::text[]) AS lease_key
+       ON CONFLICT (lease_key) DO UPDATE
+         SET owner = EXCLUDED.owner, acquired_at = EXCLUDED.acquired_at, expires_at = EXCLUDED.expires_at
+         WHERE work_leases.released_at IS NULL AND work_leases.expires_at < now()
+       RETURNING lease_key`,
+      [keys, owner, ttlMs]
+    );
+    return rows.map((r) => r.lease_key as string);
+  }
+
+  async releaseLeases(keys: string[], owner: string): Promise<void> {
+    if (keys.length === 0) return;
+    await this.pool.query(
+      `UPDATE work_leases SET released_at = now() WHERE lease_key = ANY($1::text[]) AND owner = $2`,
+      [keys, owner]
+    );
+  }
+
+  async ensureTablesExist(): Promise<void> {
+    try {
+      await this.pool.query(SCHEMA);
+      logger.info('Postgres tables ready');
+    } catch (error) {
+      logger.error({ error }, 'Failed to ensure Postgres tables exist');
+    }
+  }
+}
@@ -0,0 +1,41 @@
+import { keapClient } from './keap.js';
+import { getPurchaseDateFields } from '../config/keapFields.js';
+
+/**
+ * Date-only string (YYYY-MM-DD) as Keap date custom fields expect; today if
+ * the value is missing or unparseable.
+ */
+export function toKeapDate(value: unknown): string {
+  const parsed = value ? new Date(String(value)) : new Date();
+  const date = isNaN(parsed.getTime()) ? new Date() : parsed;
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Bring the contact's FIRST_/LAST_PURCHASE_DATE fields (shared + brand) in line
+ * with a purchase: FIRST is only set when empty, LAST only ever moves forward.
+ * Returns the field names written.
+ */
+export async function syncPurchaseDates(
+  contactId: number,
+  brand: string | null,
+  purchaseDate: unknown
+): Promise<string[]> {
+  const date = toKeapDate(purchaseDate);
+  const { first, last } = getPurchaseDateFields(brand);
+  const current = await keapClient.getContactCustomFieldValues(contactId, [...first, ...last]);
+
+  const updates: Record<string, string> = {};
+  for (const name of first) {
+    if (!current[name]) updates[name] = date;
+  }
+  for (const name of last) {
+    const existing = current[name]?.slice(0, 10);
+    if (!existing || existing < date) updates[name] = date;
+  }
+
+  if (Object.keys(updates).length > 0) {
+    await keapClient.updateContactCustomFields(contactId, updates);
+  }
+  return Object.keys(updates);
+}
@@ -0,0 +1,96 @@
+import type { TagAction, ClickbankTransaction, ClickbankLineItemResult, SubscriberQueueEntry, SubscriberProcessingResult, RetryableSubscriber, TrackingContextRecord, MetaQueueRecord, KeapWebhookLogRecord, KeapLifecycleEventRecord, KeapHookEventRecord, KeapHookSecretRecord, KeapReconciliationJob, PurchaseHistoryRow, MetaQueueFilter, ClickbankIntakeClaim } from '../types/index.js';
+import { bigQueryClient } from './bigquery.js';
+import { PostgresClient } from './postgres.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Persistence used by the routes and background workers.
+ *
+ * BigQuery is the production backend. Postgres runs the same flows against a
+ * local database (no GCP credentials needed) and updates status in place
+ * inside a transaction instead of appending result rows.
+ */
+export interface StorageBackend {
+  // Product tag mapping
+  getProductInfo(
+    productId: string
+  ): Promise<{ fulfillment_trigger_tag: string | null; cc_descriptor: string | null } | null>;
+  getTagActionsForProduct(productId: string, transactionType: string): Promise<TagAction[]>;
+
+  // ClickBank transactions
+  logTransaction(transaction: ClickbankTransaction): Promise<void>;
+  getUnprocessedTransactions(limit?: number): Promise<ClickbankTransaction[]>;
+  updateTransactionStatus(
+    id: string,
+    keapContactId: number | null,
+    tagsApplied: number[],
+    tagsRemoved: number[],
+    error: string | null
+  ): Promise<void>;
+  insertLineItemResults(results: ClickbankLineItemResult[]): Promise<void>;
+  claimClickbankIntake(claims: ClickbankIntakeClaim[]): Promise<string | null>;
+  releaseClickbankIntake(claims: ClickbankIntakeClaim[]): Promise<void>;
+
+  // Newsletter subscribers
+  queueSubscriber(entry: SubscriberQueueEntry): Promise<string>;
+  insertSubscriberResult(result: SubscriberProcessingResult): Promise<void>;
+  getUnprocessedSubscribers(limit?: number): Promise<RetryableSubscriber[]>;
+  lookupBrandByEmail(email: string): Promise<string | null>;
+
+  // Meta CAPI tracking + queue
+  insertTrackingContext(record: TrackingContextRecord): Promise<void>;
+  lookupTrackingContext(
+    keapContactId: string | null,
+    email: string | null
+  ): Promise<TrackingContextRecord | null>;
+  getRecentlyProcessedTransactionIds(minutesBack?: number): Promise<Set<string>>;
+  insertMetaQueueRow(record: MetaQueueRecord): Promise<void>;
+  getRetryableMetaEvents(limit?: number): Promise<MetaQueueRecord[]>;
+  getPurchaseMetaEvent(orderId: string): Promise<MetaQueueRecord | null>;
+  markMetaEventRefunded(record: MetaQueueRecord, refundEventId: string): Promise<void>;
+  listMetaEvents(filter: MetaQueueFilter): Promise<MetaQueueRecord[]>;
+  getMetaEventHistory(queueId: string): Promise<MetaQueueRecord[]>;
+  getPurchaseHistory(keapContactId: number, email: string | null): Promise<PurchaseHistoryRow[] | null>;
+
+  // Keap webhook log
+  checkPaymentProcessed(paymentId: number): Promise<boolean>;
+  insertWebhookLog(record: KeapWebhookLogRecord): Promise<void>;
+  insertLifecycleEvent(record: KeapLifecycleEventRecord): Promise<void>;
+  insertKeapHookEvent(record: KeapHookEventRecord): Promise<void>;
+  getKeapHookEvent(eventId: string): Promise<KeapHookEventRecord | null>;
+
+  // Keap hook secrets (see services/keapHookSecrets.ts)
+  insertKeapHookSecret(record: KeapHookSecretRecord): Promise<void>;
+  // Latest row holding a secret; with includeWindows, the latest row of any kind
+  getKeapHookSecret(hookPath: string, includeWindows?: boolean): Promise<KeapHookSecretRecord | null>;
+
+  // Deferred id=0 payment reconciliation
+  insertReconciliationJobRow(job: KeapReconciliationJob): Promise<void>;
+  getDueReconciliationJobs(limit?: number): Promise<KeapReconciliationJob[]>;
+
+  // Work leases shared by all instances (see services/leases.ts)
+  acquireLeases(keys: string[], owner: string, ttlMs: number): Promise<string[]>;
+  releaseLeases(keys: string[], owner: string): Promise<void>;
+
+  ensureTablesExist(): Promise<void>;
+}
+
+export type StorageBackendName = 'bigquery' | 'postgres';
+
+export const STORAGE_BACKEND: StorageBackendName =
+  process.env.STORAGE_BACKEND === 'postgres' ? 'postgres' : 'bigquery';
+
+function createStorage(): StorageBackend {
+  if (STORAGE_BACKEND === 'postgres') {
+    const connectionString = process.env.DATABASE_URL;
+    if (!connectionString) {
+      throw new Error('DATABASE_URL is required when STORAGE_BACKEND=postgres');
+    }
+    logger.info('Using Postgres storage backend');
+    return new PostgresClient(connectionString);
+  }
+  return bigQueryClient;
+}
+
+export const storage: StorageBackend = createStorage();
+export default storage;
@@ -0,0 +1,234 @@
+import { keapClient } from './keap.js';
+import { storage } from './storage.js';
+import { acquireLeases, releaseLeases } from './leases.js';
+import { getBrandConfig } from '../config/brands.js';
+import { logger } from '../utils/logger.js';
+import type { Logger } from 'pino';
+import type { RetryableSubscriber, SubscriberProcessingResult } from '../types/index.js';
+
+// Attempts (including the initial one from POST /subscribe) before a subscriber is marked DEAD
+const MAX_ATTEMPTS = 6;
+
+/**
+ * Outcome of one attempt to push a subscriber into Keap.
+ */
+export interface SubscriberAttemptOutcome {
+  contactId: number | null;
+  tagsApplied: string[];
+  error: string | null;
+}
+
+/**
+ * Compute next retry time with exponential backoff + jitter.
+ * Schedule: min(2^attempt minutes, 60 minutes) + random(0-30s) jitter.
+ */
+function computeNextAttemptAt(attemptCount: number): string {
+  const delayMinutes = Math.min(Math.pow(2, attemptCount), 60);
+  const jitterMs = Math.random() * 30000;
+  const nextTime = new Date(Date.now() + delayMinutes * 60000 + jitterMs);
+  return nextTime.toISOString();
+}
+
+/**
+ * Run the Keap steps for a newsletter signup:
+ * 1. Create or update the contact with pass-through custom fields
+ * 2. Apply each pipe-delimited tag (e.g., "HRYW-WebSub|HRYW-Clickbank-Lead")
+ * 3. Opt the email in for marketing
+ *
+ * Never throws — a Keap failure is returned as `error` along with whatever
+ * progress was made before it.
+ */
+export async function processSubscriber(
+  params: {
+    email: string;
+    firstName: string;
+    tag: string;
+    customFields: Record<string, string>;
+  },
+  reqLogger: Logger = logger
+): Promise<SubscriberAttemptOutcome> {
+  const { email, firstName, tag, customFields } = params;
+  let contactId: number | null = null;
+  const tagsApplied: string[] = [];
+
+  try {
+    // Create or update contact in Keap with custom fields passed through
+    const contact = await keapClient.createOrUpdateContactWithFields(email, firstName, customFields);
+    contactId = contact.id;
+
+    const tagNames = tag.split('|').map(t => t.trim()).filter(t => t.length > 0);
+    for (const tagName of tagNames) {
+      await keapClient.applyTagByName(contact.id, tagName);
+      tagsApplied.push(tagName);
+    }
+
+    // Opt-in the contact for email marketing
+    // This is REQUIRED for them to receive welcome emails and marketing
+    await keapClient.optInEmail(email, 'Website signup form');
+
+    reqLogger.info({ contactId, tags: tagsApplied }, 'Keap processing completed');
+    return { contactId, tagsApplied, error: null };
+  } catch (keapError) {
+    const error = keapError instanceof Error ? keapError.message : 'Keap processing failed';
+    return { contactId, tagsApplied, error };
+  }
+}
+
+/**
+ * Record the result of a subscriber processing attempt as a new append-only row.
+ */
+export async function recordSubscriberAttempt(
+  subscriberId: string,
+  attemptCount: number,
+  outcome: SubscriberAttemptOutcome
+): Promise<void> {
+  let status: SubscriberProcessingResult['status'];
+  let nextAttemptAt: string | null;
+
+  if (!outcome.error) {
+    status = 'SUCCESS';
+    nextAttemptAt = null;
+  } else if (attemptCount >= MAX_ATTEMPTS) {
+    status = 'DEAD';
+    nextAttemptAt = null;
+  } else {
+    status = 'FAILED';
+    nextAttemptAt = computeNextAttemptAt(attemptCount);
+  }
+
+  await storage.insertSubscriberResult({
+    subscriber_id: subscriberId,
+    keap_contact_id: outcome.contactId,
+    tags_applied: outcome.tagsApplied,
+    processing_error: outcome.error,
+    is_success: !outcome.error,
+    status,
+    attempt_count: attemptCount,
+    next_attempt_at: nextAttemptAt,
+    processed_at: new Date().toISOString(),
+  });
+}
+
+/**
+ * Rebuild the custom fields the route passed to Keap.
+ * The original request body is kept in raw_payload; fall back to the
+ * dp_* columns for rows whose payload is missing or unparseable; their
+ * brand-specific fields take the registry's customFieldSuffix and are left
+ * out for brands not in the registry.
+ */
+function getCustomFields(entry: RetryableSubscriber): Record<string, string> {
+  if (entry.raw_payload) {
+    try {
+      const payload = JSON.parse(entry.raw_payload) as { customFields?: Record<string, string> };
+      if (payload.customFields) return payload.customFields;
+    } catch {
+      // Fall through to queue columns
+    }
+  }
+
+  const suffix = getBrandConfig(entry.brand)?.customFieldSuffix;
+  const customFields: Record<string, string> = {};
+  if (entry.dp_ip_address) customFields['DP_IP_ADDRESS'] = entry.dp_ip_address;
+  if (!suffix) {
+    logger.warn({ subscriberId: entry.id, brand: entry.brand }, 'Brand not in registry — skipping brand custom fields');
+    return customFields;
+  }
+  if (entry.dp_source_id) customFields[`DP_SOURCE_ID_${suffix}`] = entry.dp_source_id;
+  if (entry.dp_first_upload_time) customFields[`DP_FIRST_UPLOAD_TIME_${suffix}`] = entry.dp_first_upload_time;
+  if (entry.dp_optional_inputs) customFields[`DP_OPTIONAL_INPUTS_${suffix}`] = entry.dp_optional_inputs;
+  return customFields;
+}
+
+// A retry pass should finish well within this; after it, another instance may take over
+const RETRY_LEASE_TTL_MS = 5 * 60000;
+
+/**
+ * Lease key of one attempt: a subscriber is leased again once its next
+ * attempt is due.
+ */
+function subscriberLeaseKey(entry: RetryableSubscriber): string {
+  return `subscriber:${entry.id}:${entry.attempt_count}`;
+}
+
+/**
+ * One retry pass over subscribers whose Keap processing failed (e.g., Keap was
+ * down during POST /subscribe), up to `limit` of them. Subscribers are leased,
+ * so overlapping passes on any instance don't retry the same one twice.
+ */
+export async function retryFailedSubscribers(
+  limit: number = 25
+): Promise<{ processed: number; succeeded: number; failed: number }> {
+  const due = await storage.getUnprocessedSubscribers(limit);
+  const lease = await acquireLeases(due.map(subscriberLeaseKey), RETRY_LEASE_TTL_MS);
+  const subscribers = due.filter((entry) => lease.keys.has(subscriberLeaseKey(entry)));
+  const recorded: RetryableSubscriber[] = [];
+  const summary = await retryLeasedSubscribers(subscribers, recorded);
+  // A subscriber whose attempt wasn't recorded is still due; its lease expires instead
+  await releaseLeases(lease, recorded.map(subscriberLeaseKey));
+  return summary;
+}
+
+async function retryLeasedSubscribers(
+  subscribers: RetryableSubscriber[],
+  recorded: RetryableSubscriber[]
+): Promise<{ processed: number; succeeded: number; failed: number }> {
+  let succeeded = 0;
+  let failed = 0;
+
+  for (const entry of subscribers) {
+    const attemptCount = Number(entry.attempt_count) + 1;
+    try {
+      const outcome = await processSubscriber({
+        email: entry.email,
+        firstName: entry.first_name,
+        tag: entry.tag_name || '',
+        customFields: getCustomFields(entry),
+      });
+
+      await recordSubscriberAttempt(entry.id, attemptCount, outcome);
+      recorded.push(entry);
+      if (outcome.error) {
+        logger.warn(
+          { queueId: entry.id, attempt: attemptCount, error: outcome.error },
+          'Subscriber retry worker: attempt failed'
+        );
+        failed++;
+      } else {
+        succeeded++;
+      }
+    } catch (err) {
+      logger.error({ err, queueId: entry.id }, 'Subscriber retry worker: error processing subscriber');
+      failed++;
+    }
+  }
+
+  return { processed: subscribers.length, succeeded, failed };
+}
+
+/**
+ * Retry worker for failed subscribers. Runs on an interval, processes up to
+ * 25 subscribers per tick.
+ */
+export function startSubscriberRetryWorker(): void {
+  let isRunning = false;
+
+  const tick = async () => {
+    if (isRunning) return;
+    isRunning = true;
+
+    try {
+      const { processed, succeeded, failed } = await retryFailedSubscribers(25);
+      if (processed > 0) {
+        logger.info({ processed, succeeded, failed }, 'Subscriber retry worker: tick complete');
+      }
+    } catch (err) {
+      logger.error({ err }, 'Subscriber retry worker: tick error');
+    } finally {
+      isRunning = false;
+    }
+  };
+
+  // Run every 60 seconds
+  setInterval(tick, 60000);
+  logger.info('Subscriber retry worker started (60s interval)');
+}
@@ -1,8 +1,23 @@
+// Brand registry entry (config/brands.json)
 export interface BrandConfig {
   brandCode: string;
-  signupTagIds: number[];
-  customFieldPrefix: string;
+  keapTagPrefix: string;
+  gatewayPrefix: string;
+  pixelId: string | null;
+  clickbankVendors: string[];
+  signupTags: string[];
+  customFieldSuffix: string;
   defaultRedirect: string;
+  keapProducts: Record<string, string>; // Keap product ID → product code (e.g., "42" → "hth")
+}
+
+// API key scopes: subscribe:<brand> (or subscribe:* for every brand), admin:hooks, admin:queue, jobs:run
+export type ApiKeyScope = `subscribe:${string}` | 'admin:hooks' | 'admin:queue' | 'jobs:run';
+
+// Named API key (API_KEYS); the secret itself is kept out of this object
+export interface ApiKeyConfig {
+  name: string;
+  scopes: ApiKeyScope[];
 }
 
 export interface SubscribeRequest {
@@ -73,21 +88,37 @@ export interface ClickbankIpnDecrypted {
       firstName?: string;
       lastName?: string;
       fullName?: string;
+      phoneNumber?: string;
+      address?: {
+        city?: string;
+        state?: string;
+        postalCode?: string;
+        country?: string;
+      };
     };
   };
   // v8+ has lineItems array
   lineItems?: Array<{
     itemNo?: string;
     productTitle?: string;
+    productPrice?: number;
     accountAmount?: number;
     [key: string]: unknown;
   }>;
   [key: string]: unknown;
 }
 
+// One product within an IPN (v8+ lineItems entry, or the single legacy cproditem)
+export interface ClickbankLineItem {
+  index: number;
+  productId: string;
+  productTitle: string | null;
+  amount: number | null;
+}
+
 // Tag action from BigQuery product_tags table
 export interface TagAction {
-  action: 'apply_tag' | 'apply_note';
+  action: 'apply_tag' | 'apply_note' | 'remove_tag';
   tagId: number; // Keap tag ID (0 for notes)
   tagCategory?: string; // e.g., 'CustomerHub', 'Products Purchased', 'n/a'
   triggerTag?: string; // Human-readable tag name or ADDNOTE: text
@@ -116,6 +147,22 @@ export interface SubscriberQueueEntry {
   processed_at: string | null;
 }
 
+// Subscriber processing result for BigQuery (append-only, one row per attempt)
+export interface SubscriberProcessingResult {
+  subscriber_id: string;
+  keap_contact_id: number | null;
+  tags_applied: string[];
+  processing_error: string | null;
+  is_success: boolean;
+  status: 'SUCCESS' | 'FAILED' | 'DEAD';
+  attempt_count: number;
+  next_attempt_at: string | null;      // When the retry worker may pick this up again (FAILED only)
+  processed_at: string;
+}
+
+// Subscriber queue entry returned to the retry worker, with attempts made so far
+export type RetryableSubscriber = SubscriberQueueEntry & { attempt_count: number };
+
 // Tracking context record for BigQuery (append-only, stores Meta pixel + UTM data)
 export interface TrackingContextRecord {
   created_at: string;
@@ -182,11 +229,25 @@ export interface MetaQueueRecord {
   last_error_message: string | null;
   last_response_json: string | null;
   last_latency_ms: number | null;
+  // Set once a Refund event has been sent for this purchase, so reporting can net it out
+  refunded_at?: string | null;
+  refund_event_id?: string | null;
+}
+
+// Filter for the Meta queue admin API; matched against each queue_id's latest row
+export interface MetaQueueFilter {
+  statuses?: MetaQueueRecord['status'][];
+  brand?: string;
+  source?: string;
+  from?: string;                // ISO timestamp, inclusive
+  to?: string;                  // ISO timestamp, exclusive
+  dateField?: 'created_at' | 'updated_at';  // what from/to apply to (default created_at)
+  limit: number;
 }
 
 // Metadata passed alongside CAPI payload for queue tracking
 export interface MetaQueueMetadata {
-  source: 'subscribe' | 'purchase';
+  source: 'subscribe' | 'purchase' | 'refund';
   brand: string;
   eventName: string;
   email: string | null;
@@ -197,11 +258,98 @@ export interface MetaQueueMetadata {
   pixelId: string;
 }
 
+// A refund/chargeback to report against an earlier Purchase
+export interface MetaRefundDetails {
+  orderId: string;              // ClickBank receipt or Keap order ID the Purchase was sent with
+  eventId: string;              // event_id for the Refund event itself
+  refundType: string;           // e.g. RFND, CGBK, keap_refund
+  amount: number | null;
+  currency: string;
+}
+
+// Keap REST hook subscription as returned by GET /hooks
+export interface KeapHook {
+  key: string;
+  eventKey: string;
+  hookUrl: string;
+  status: string;               // Verified, Unverified, Inactive
+}
+
+// Desired vs actual state of one required Keap hook, from the hook monitor
+export interface KeapHookState {
+  eventKey: string;
+  hookUrl: string;
+  actual: KeapHook | null;
+  state: 'ok' | 'missing' | 'not_verified' | 'no_secret';
+  action: 'none' | 'created' | 'verified' | 'recreated' | 'failed';
+  error: string | null;
+}
+
+export interface KeapHookReport {
+  checkedAt: string;
+  repaired: boolean;            // false for a read-only status check
+  hooks: KeapHookState[];
+  unmanaged: KeapHook[];        // registered in Keap but not in REQUIRED_KEAP_HOOKS
+}
+
+// Raw Keap REST hook delivery, persisted before dispatch so it can be replayed
+export interface KeapHookEventRecord {
+  created_at: string;
+  event_id: string;             // UUID for this delivery
+  event_key: string;            // the hook URL's event (invoice.payment.add for the legacy route)
+  route_key: string | null;     // :eventKey the hook URL was registered with (null for the legacy route)
+  object_count: number;
+  object_keys_json: string;     // object_keys exactly as Keap sent them
+  request_id: string | null;
+}
+
+// One past sale or refund of a contact, from clickbank_transactions or keap_webhook_log
+export interface PurchaseHistoryRow {
+  source: 'clickbank' | 'keap';
+  order_id: string | null;      // ClickBank receipt or Keap order ID
+  transaction_type: string;     // ClickBank SALE/REBILL/RFND/CGBK; Keap PAYMENT/REFUND
+  amount: number;
+  created_at: string;
+}
+
+// Deferred id=0 payment reconciliation job (append-only; latest row per job_id wins)
+export type KeapReconciliationJobStatus = 'PENDING' | 'DONE' | 'EXHAUSTED';
+
+export interface KeapReconciliationJob {
+  created_at: string;
+  updated_at: string;
+  job_id: string;               // UUID
+  expected_count: number;       // id=0 object_keys in the delivery
+  reconciled_txn_ids: number[]; // transactions processed by this job so far
+  status: KeapReconciliationJobStatus;
+  attempt_count: number;
+  due_at: string;               // next attempt
+  last_error: string | null;
+}
+
+// X-Hook-Secret of a Keap hook URL (keap_hook_secrets, append-only; the latest row per path wins)
+export interface KeapHookSecretRecord {
+  created_at: string;
+  hook_path: string;            // e.g. /webhooks/keap/invoice-payment
+  secret_hash: string | null;   // sha256 hex of the handshake secret; null opens a handshake window
+  request_id: string | null;
+}
+
+// Lease on one unit of queue work (work_leases), so only one instance processes it
+export interface WorkLease {
+  lease_key: string;            // e.g. clickbank:<transaction id>, meta:<queue_id>:<updated_at>, keap-payment:<transaction id>
+  owner: string;                // hostname:pid:uuid of the claiming call
+  created_at: string;
+  acquired_at: string;
+  expires_at: string;           // another owner may take it over after this, unless released
+  released_at: string | null;   // set when the work is done; released keys are never handed out again
+}
+
 // Keap webhook log record — one row per payment processed, for classification debugging
 export interface KeapWebhookLogRecord {
   created_at: string;
   payment_id: number;
-  is_duplicate: boolean;        // true if Keap fired this payment_id more than once
+  is_duplicate: boolean;        // true if Keap fired this payment_id more than once, or the delivery was rejected
   contact_id: number | null;
   brand: string | null;
   event_name: string | null;
@@ -215,6 +363,21 @@ export interface KeapWebhookLogRecord {
   classification_note: string | null;
 }
 
+// Keap subscription/order lifecycle event log — one row per object per hook delivery
+export interface KeapLifecycleEventRecord {
+  created_at: string;
+  event_key: string;            // subscription.add, subscription.edit, subscription.delete, order.add
+  object_id: number;
+  contact_id: number | null;
+  brand: string | null;
+  product_id: number | null;
+  product_code: string | null;  // from the brand registry's keapProducts
+  status: 'PROCESSED' | 'SKIPPED' | 'FAILED';
+  fields_updated: string[];     // Keap custom field names written
+  note: string | null;          // why it was skipped, or the error
+  raw_object_json: string | null;
+}
+
 // Result record inserted into clickbank_transaction_results after processing
 export interface ClickbankTransactionResult {
   transaction_id: string;
@@ -226,12 +389,45 @@ export interface ClickbankTransactionResult {
   processed_at: string;
 }
 
+// Per-line-item result inserted into clickbank_line_item_results after processing
+export interface ClickbankLineItemResult {
+  transaction_id: string;
+  receipt: string;
+  transaction_type: string;
+  line_item_index: number;
+  product_id: string;
+  amount: number | null;
+  keap_contact_id: number | null;
+  tags_applied: number[];
+  tags_removed: number[];
+  processing_status: 'SUCCESS' | 'FAILED' | 'NO_TAGS';
+  error_message: string | null;
+  processed_at: string;
+}
+
+/**
+ * Intake claim for one line item of a ClickBank IPN (clickbank_ipn_intake).
+ * intake_key is unique; a redelivery finds its keys already claimed.
+ */
+export interface ClickbankIntakeClaim {
+  intake_key: string;           // receipt|transaction_type|line_item_index|product_id
+  receipt: string;
+  transaction_type: string;
+  line_item_index: number;
+  product_id: string;
+  transaction_id: string;       // clickbank_transactions.id of the delivery that claimed it
+  delivery_count: number;
+  created_at: string;
+  last_seen_at: string;
+}
+
 // Clickbank transaction record for BigQuery (consolidated: audit log + processing queue)
 export interface ClickbankTransaction {
   id: string;
   receipt: string;
   transaction_type: string;
-  brand: string;
+  brand: string;                       // From the brand registry by vendor; 'unknown' if unmapped
+  vendor: string;                      // ClickBank vendor nickname as sent in the IPN
   email: string;
   first_name: string | null;
   last_name: string | null;
@@ -244,6 +440,7 @@ export interface ClickbankTransaction {
   raw_payload: string | null;
   is_test: boolean;
   is_encrypted: boolean;
+  decryption_key_id: string | null;    // ClickBank secret that decrypted (or, for legacy IPNs, verified) it, e.g. 'default', 'hrywpub:previous'
   source_ip: string | null;
   user_agent: string | null;
   // Processing queue fields
@@ -251,7 +448,7 @@ export interface ClickbankTransaction {
   keap_contact_id: number | null;
   tags_applied: number[];
   tags_removed: number[];
-  processing_status: 'SUCCESS' | 'FAILED' | 'SKIPPED' | 'NO_TAGS' | 'PENDING' | 'TEST' | 'DECRYPTION_FAILED' | 'VALIDATION_FAILED';
+  processing_status: 'SUCCESS' | 'FAILED' | 'SKIPPED' | 'NO_TAGS' | 'PENDING' | 'TEST' | 'DECRYPTION_FAILED' | 'VALIDATION_FAILED' | 'SIGNATURE_INVALID' | 'DUPLICATE';
   error_message: string | null;
   created_at: string;
   processed_at: string | null;
@@ -0,0 +1,30 @@
+import type { FastifyRequest, FastifyReply } from 'fastify';
+import { findApiKey, hasScope } from '../config/apiKeys.js';
+import type { ApiKeyScope } from '../types/index.js';
+import { logger } from './logger.js';
+
+/**
+ * Admin and job endpoints require an X-API-Key whose key grants `scope`
+ * (see config/apiKeys.ts). Sends 401 for a missing or unknown key, 403 for a
+ * key without the scope, and returns false in both cases.
+ */
+export function adminAuth(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  scope: ApiKeyScope
+): boolean {
+  const apiKey = findApiKey(request.headers['x-api-key'] as string | undefined);
+  if (!apiKey) {
+    reply.status(401).send({ error: 'Unauthorized' });
+    return false;
+  }
+  if (!hasScope(apiKey, scope)) {
+    logger.warn(
+      { requestId: request.id, keyName: apiKey.name, scope, url: request.url },
+      'API key lacks required scope'
+    );
+    reply.status(403).send({ error: `API key ${apiKey.name} lacks scope ${scope}` });
+    return false;
+  }
+  return true;
+}
@@ -0,0 +1,398 @@
+import './helpers/env.js';
+import { describe, it, before, after, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import type { FastifyInstance } from 'fastify';
+import { buildApp } from '../src/app.js';
+import { retryFailedTransactions } from '../src/routes/clickbank.js';
+import { storage } from '../src/services/storage.js';
+import { logger } from '../src/utils/logger.js';
+import type { ClickbankTransaction } from '../src/types/index.js';
+import { installFakes, settle, type Fakes } from './helpers/fakes.js';
+import { TEST_HRYWPUB_SECRET, TEST_PREVIOUS_CLICKBANK_SECRET } from './helpers/env.js';
+import { encryptIpn, formEncode, legacyIpn, v8Ipn } from './helpers/fixtures.js';
+
+describe('POST /ipn/clickbank', () => {
+  let app: FastifyInstance;
+  let fakes: Fakes;
+
+  before(async () => {
+    app = await buildApp();
+  });
+
+  after(async () => {
+    await app.close();
+  });
+
+  beforeEach(() => {
+    fakes = installFakes();
+    fakes.storage.addProductTag('ebook-19', 'SALE|TEST_SALE', {
+      action: 'apply_tag',
+      tagId: 779,
+      tagCategory: 'CustomerHub',
+      triggerTag: 'Have The Relationship You Want eBook',
+    });
+    fakes.storage.addProductTag('ebook-19', 'SALE|TEST_SALE', {
+      action: 'apply_tag',
+      tagId: 480,
+      tagCategory: 'Products Purchased',
+      triggerTag: 'HRYW_EBOOK',
+    });
+    fakes.storage.addProductTag('ebook-19', 'RFND|CGBK|TEST_RFND', {
+      action: 'apply_note',
+      tagId: 0,
+      tagCategory: 'n/a',
+      triggerTag: 'ADDNOTE:Cancelled_HRYW_EBOOK',
+    });
+    fakes.storage.addProductTag('bump-9', 'SALE|TEST_SALE', {
+      action: 'apply_tag',
+      tagId: 901,
+      tagCategory: 'CustomerHub',
+      triggerTag: 'Order Bump',
+    });
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  const postIpn = (payload: unknown) =>
+    app.inject({ method: 'POST', url: '/ipn/clickbank', payload: payload as Record<string, unknown> });
+
+  it('answers the ClickBank URL validation GET', async () => {
+    const res = await app.inject({ method: 'GET', url: '/ipn/clickbank' });
+    assert.equal(res.statusCode, 200);
+    assert.equal(res.body, 'OK');
+  });
+
+  it('decrypts a v8 SALE, applies tags and records the result', async () => {
+    const res = await postIpn(encryptIpn(v8Ipn()));
+    await settle();
+
+    assert.equal(res.statusCode, 200);
+    const [transaction] = fakes.storage.transactions;
+    assert.equal(transaction.receipt, 'RCPT1234');
+    assert.equal(transaction.email, 'jane@example.com');
+    assert.equal(transaction.is_encrypted, true);
+    assert.equal(transaction.decryption_key_id, 'default');
+    assert.equal(transaction.processing_status, 'PENDING');
+
+    const contact = await fakes.keap.findContactByEmail('jane@example.com');
+    assert.ok(contact);
+    assert.deepEqual(fakes.keap.tagsFor(contact.id).sort(), [480, 779]);
+
+    const [result] = fakes.storage.transactionResults;
+    assert.equal(result.processing_status, 'SUCCESS');
+    assert.deepEqual(result.tags_applied, [779, 480]);
+  });
+
+  it('sets FIRST_PURCHASE_DATE only when empty and moves LAST_PURCHASE_DATE forward', async () => {
+    const contact = fakes.keap.addContact({ email: 'jane@example.com' });
+    fakes.keap.customFieldValues.set(contact.id, {
+      FIRST_PURCHASE_DATE: '2025-06-01',
+      LAST_PURCHASE_DATE: '2026-03-01',
+    });
+
+    await postIpn(encryptIpn(v8Ipn()));
+    await settle();
+
+    // transactionTime 20260115T141003-0800; LAST already later, so only the brand fields change
+    assert.deepEqual(fakes.keap.customFieldValues.get(contact.id), {
+      FIRST_PURCHASE_DATE: '2025-06-01',
+      LAST_PURCHASE_DATE: '2026-03-01',
+      FIRST_PURCHASE_DATE_HRYW: '2026-01-15',
+      LAST_PURCHASE_DATE_HRYW: '2026-01-15',
+    });
+
+    await postIpn(encryptIpn(v8Ipn({ transactionType: 'RFND' })));
+    await settle();
+    assert.equal(fakes.keap.callsTo('updateContactCustomFields').length, 1);
+  });
+
+  it('processes every line item in a bundled IPN', async () => {
+    await postIpn(
+      encryptIpn(
+        v8Ipn({
+          lineItems: [
+            { itemNo: 'ebook-19', productPrice: 19 },
+            { itemNo: 'bump-9', productPrice: 9 },
+          ],
+        })
+      )
+    );
+    await settle();
+
+    const items = fakes.storage.lineItemResults.map((r) => [r.product_id, r.amount, r.processing_status]);
+    assert.deepEqual(items, [
+      ['ebook-19', 19, 'SUCCESS'],
+      ['bump-9', 9, 'SUCCESS'],
+    ]);
+    assert.deepEqual(fakes.storage.transactionResults[0].tags_applied, [779, 480, 901]);
+  });
+
+  it("decrypts with the vendor account's own key and maps the vendor to its brand", async () => {
+    await postIpn(encryptIpn(v8Ipn({ vendor: 'HRYWPUB' }), TEST_HRYWPUB_SECRET));
+    await settle();
+
+    const [transaction] = fakes.storage.transactions;
+    assert.equal(transaction.vendor, 'hrywpub');
+    assert.equal(transaction.decryption_key_id, 'hrywpub');
+    assert.equal(transaction.brand, 'hryw');
+    assert.equal(fakes.storage.transactionResults[0].processing_status, 'SUCCESS');
+  });
+
+  it('accepts IPNs encrypted with the previous key during rotation', async () => {
+    await postIpn(encryptIpn(v8Ipn(), TEST_PREVIOUS_CLICKBANK_SECRET));
+    await settle();
+
+    const [transaction] = fakes.storage.transactions;
+    assert.equal(transaction.decryption_key_id, 'default:previous');
+    assert.equal(fakes.storage.transactionResults[0].processing_status, 'SUCCESS');
+  });
+
+  it('records vendors missing from the brand registry as brand unknown', async () => {
+    await postIpn(encryptIpn(v8Ipn({ vendor: 'mystery' })));
+    await settle();
+
+    const [transaction] = fakes.storage.transactions;
+    assert.equal(transaction.vendor, 'mystery');
+    assert.equal(transaction.brand, 'unknown');
+  });
+
+  it('logs DECRYPTION_FAILED when the notification was encrypted with another key', async () => {
+    const res = await postIpn(encryptIpn(v8Ipn(), 'SOMEOTHERKEY'));
+    await settle();
+
+    assert.equal(res.statusCode, 200);
+    const [transaction] = fakes.storage.transactions;
+    assert.equal(transaction.processing_status, 'DECRYPTION_FAILED');
+    assert.equal(
+      transaction.error_message,
+      'Failed to decrypt notification (keys tried: default, hrywpub, default:previous)'
+    );
+    assert.equal(fakes.keap.callsTo('findOrCreateClickbankContact').length, 0);
+  });
+
+  const postLegacyIpn = (fields: Record<string, string>) =>
+    app.inject({
+      method: 'POST',
+      url: '/ipn/clickbank',
+      payload: formEncode(fields),
+      headers: { 'content-type': 'application/x-www-form-urlencoded' },
+    });
+
+  it('handles a signed legacy (form-encoded) IPN', async () => {
+    const res = await postLegacyIpn(legacyIpn());
+    await settle();
+
+    assert.equal(res.statusCode, 200);
+    const [transaction] = fakes.storage.transactions;
+    assert.equal(transaction.receipt, 'LEGACY123');
+    assert.equal(transaction.amount, 19);
+    assert.equal(transaction.is_encrypted, false);
+    assert.equal(transaction.decryption_key_id, 'default');
+    assert.equal(fakes.storage.transactionResults[0].processing_status, 'SUCCESS');
+  });
+
+  it('rejects legacy IPNs with a missing or forged cverify as SIGNATURE_INVALID', async () => {
+    const { cverify: _cverify, ...unsigned } = legacyIpn();
+    await postLegacyIpn(unsigned);
+    await postLegacyIpn(legacyIpn({}, 'GUESSEDKEY'));
+    await postLegacyIpn({ ...legacyIpn(), ccustemail: 'attacker@example.com' });
+    await settle();
+
+    assert.deepEqual(
+      fakes.storage.transactions.map((t) => [t.processing_status, t.error_message]),
+      [
+        ['SIGNATURE_INVALID', 'Missing cverify signature'],
+        ['SIGNATURE_INVALID', 'cverify mismatch (keys tried: default, default:previous)'],
+        ['SIGNATURE_INVALID', 'cverify mismatch (keys tried: default, default:previous)'],
+      ]
+    );
+    assert.equal(fakes.keap.calls.length, 0);
+    assert.equal(fakes.storage.transactionResults.length, 0);
+  });
+
+  it('reverses SALE tags and adds the refund note on RFND', async () => {
+    const contact = fakes.keap.addContact({ email: 'jane@example.com' });
+    await fakes.keap.applyTags(contact.id, [779, 480]);
+
+    await postIpn(encryptIpn(v8Ipn({ transactionType: 'RFND' })));
+    await settle();
+
+    assert.deepEqual(fakes.keap.tagsFor(contact.id), []);
+    assert.deepEqual(fakes.keap.notes, [{ contactId: contact.id, noteText: 'Cancelled_HRYW_EBOOK' }]);
+    assert.deepEqual(fakes.storage.transactionResults[0].tags_removed.sort(), [480, 779]);
+    // No Purchase was ever reported for this receipt, so there is nothing to refund in Meta
+    assert.equal(fakes.meta.sent.length, 0);
+  });
+
+  it('sends a Refund event against the original Purchase on CGBK and marks it refunded', async () => {
+    await postIpn(encryptIpn(v8Ipn()));
+    await settle();
+    await postIpn(encryptIpn(v8Ipn({ transactionType: 'CGBK' })));
+    await settle();
+
+    const [purchase, refund] = fakes.meta.sent.map((s) => s.events[0] as Record<string, any>);
+    assert.equal(refund.event_name, 'Refund');
+    assert.equal(refund.event_id, 'clickbank_cgbk_RCPT1234');
+    assert.deepEqual(refund.user_data, purchase.user_data);
+    assert.equal(refund.custom_data.order_id, 'RCPT1234');
+    assert.equal(refund.custom_data.original_event_id, 'clickbank_RCPT1234');
+    assert.equal(refund.custom_data.refund_type, 'CGBK');
+    assert.equal(refund.custom_data.value, 47);
+
+    const marked = fakes.storage.metaQueueRows.filter((r) => r.refunded_at);
+    assert.deepEqual(
+      marked.map((r) => [r.event_id, r.refund_event_id]),
+      [['clickbank_RCPT1234', 'clickbank_cgbk_RCPT1234']]
+    );
+
+    // A later RFND for the same receipt is not reported twice
+    await postIpn(encryptIpn(v8Ipn({ transactionType: 'RFND' })));
+    await settle();
+    assert.equal(fakes.meta.sent.length, 2);
+  });
+
+  it('queues a Meta Purchase event for a SALE, enriched from tracking context', async () => {
+    fakes.storage.trackingContexts.push({
+      created_at: '2026-01-10T00:00:00.000Z',
+      brand: 'HRYW',
+      email: 'jane@example.com',
+      keap_contact_id: null,
+      pixel_id: null,
+      fbp: 'fb.1.1700000000.999',
+      fbc: null,
+      fbclid: null,
+      event_id: null,
+      utm_source: null,
+      utm_medium: null,
+      utm_campaign: null,
+      utm_content: null,
+      utm_term: null,
+      source_url: 'https://www.havetherelationshipyouwant.com/ebook',
+      user_agent: 'Mozilla/5.0',
+      ip_address: '203.0.113.7',
+    });
+
+    await postIpn(encryptIpn(v8Ipn()));
+    await settle();
+
+    const [sent] = fakes.meta.sent;
+    assert.equal(sent.pixelId, process.env.META_PIXEL_ID_HRYW);
+    const [event] = sent.events as Array<Record<string, any>>;
+    assert.equal(event.event_name, 'Purchase');
+    assert.equal(event.event_id, 'clickbank_RCPT1234');
+    assert.equal(event.event_source_url, 'https://www.havetherelationshipyouwant.com/ebook');
+    assert.equal(event.user_data.fbp, 'fb.1.1700000000.999');
+    assert.equal(event.user_data.client_ip_address, '203.0.113.7');
+    assert.equal(event.custom_data.value, 47);
+    assert.equal(event.custom_data.order_id, 'RCPT1234');
+    assert.deepEqual(event.custom_data.contents, [{ id: 'ebook-19', quantity: 1, item_price: 19 }]);
+
+    const queued = fakes.storage.metaQueueRows.map((r) => [r.source, r.event_id, r.status]);
+    assert.deepEqual(queued, [
+      ['purchase', 'clickbank_RCPT1234', 'PENDING'],
+      ['purchase', 'clickbank_RCPT1234', 'SENT'],
+    ]);
+  });
+
+  it('logs a redelivered IPN as DUPLICATE without re-running tags, notes or Meta', async () => {
+    await postIpn(encryptIpn(v8Ipn()));
+    await settle();
+    await postIpn(encryptIpn(v8Ipn()));
+    await settle();
+
+    const [first, second] = fakes.storage.transactions;
+    assert.equal(first.processing_status, 'PENDING');
+    assert.equal(second.processing_status, 'DUPLICATE');
+    assert.equal(second.error_message, `Duplicate of transaction ${first.id}`);
+    assert.equal(fakes.keap.callsTo('applyTags').length, 2);
+    assert.equal(fakes.storage.transactionResults.length, 1);
+    assert.equal(fakes.meta.sent.length, 1);
+
+    // Same receipt, different transaction type: the refund is new
+    await postIpn(encryptIpn(v8Ipn({ transactionType: 'RFND' })));
+    await settle();
+    await postIpn(encryptIpn(v8Ipn({ transactionType: 'RFND' })));
+    await settle();
+    assert.deepEqual(
+      fakes.storage.transactions.map((t) => t.processing_status),
+      ['PENDING', 'DUPLICATE', 'PENDING', 'DUPLICATE']
+    );
+    assert.equal(fakes.keap.callsTo('addNote').length, 1);
+    assert.equal(fakes.storage.intakeClaims.get('RCPT1234|RFND|0|ebook-19')!.delivery_count, 2);
+  });
+
+  it('gives the intake claim back when the transaction cannot be logged, so the redelivery processes', async () => {
+    const logTransaction = mock.method(storage, 'logTransaction', async (transaction: ClickbankTransaction) => {
+      if (transaction.processing_status === 'PENDING') throw new Error('insert failed');
+      return fakes.storage.logTransaction(transaction);
+    });
+    const res = await postIpn(encryptIpn(v8Ipn()));
+    await settle();
+
+    assert.equal(res.statusCode, 200);
+    assert.equal(fakes.storage.intakeClaims.size, 0);
+    assert.equal(fakes.keap.callsTo('applyTags').length, 0);
+
+    logTransaction.mock.restore();
+    await postIpn(encryptIpn(v8Ipn()));
+    await settle();
+    assert.deepEqual(
+      fakes.storage.transactions.map((t) => t.processing_status),
+      ['FAILED', 'PENDING']
+    );
+    assert.equal(fakes.storage.transactionResults.length, 1);
+    assert.equal(fakes.keap.callsTo('applyTags').length, 2);
+  });
+
+  it('keys intake on the line item, so legacy IPNs for other products on a receipt still process', async () => {
+    await postLegacyIpn(legacyIpn());
+    await postLegacyIpn(legacyIpn({ cproditem: 'bump-9', ctransamount: '900' }));
+    await postLegacyIpn(legacyIpn({ cproditem: 'bump-9', ctransamount: '900' }));
+    await settle();
+
+    assert.deepEqual(
+      fakes.storage.transactions.map((t) => [t.product_id, t.processing_status]),
+      [
+        ['ebook-19', 'PENDING'],
+        ['bump-9', 'PENDING'],
+        ['bump-9', 'DUPLICATE'],
+      ]
+    );
+  });
+
+  it('leaves a transaction queued when it cannot be leased, and retries process it exactly once', async () => {
+    const acquire = mock.method(storage, 'acquireLeases', async () => {
+      throw new Error('Could not serialize access to table');
+    });
+    await postIpn(encryptIpn(v8Ipn()));
+    await settle();
+
+    assert.equal(fakes.storage.transactions[0].processing_status, 'PENDING');
+    assert.equal(fakes.storage.transactionResults.length, 0);
+    assert.equal(fakes.keap.callsTo('applyTags').length, 0);
+
+    // Two instances flushing the queue at once
+    acquire.mock.restore();
+    await Promise.all([retryFailedTransactions(logger), retryFailedTransactions(logger)]);
+
+    assert.equal(fakes.storage.transactionResults.length, 1);
+    assert.equal(fakes.keap.callsTo('applyTags').length, 2);
+    const [lease] = fakes.storage.leases.values();
+    assert.equal(lease.lease_key, `clickbank:${fakes.storage.transactions[0].id}`);
+    assert.ok(lease.released_at);
+  });
+
+  it('records a FAILED result when Keap is unavailable', async () => {
+    fakes.keap.failWith = new Error('Keap 503');
+
+    const res = await postIpn(encryptIpn(v8Ipn()));
+    await settle();
+
+    assert.equal(res.statusCode, 200);
+    const [result] = fakes.storage.transactionResults;
+    assert.equal(result.processing_status, 'FAILED');
+    assert.equal(result.error_message, 'Keap 503');
+  });
+});
@@ -0,0 +1,27 @@
+/**
+ * Test environment — imported first by every test file so module-level
+ * reads of process.env (e.g., API_KEYS in config/apiKeys.ts)
+ * see these values.
+ */
+process.env.NODE_ENV = 'test';
+process.env.LOG_LEVEL = 'silent';
+process.env.SUBSCRIBE_API_KEY = 'test-api-key';
+process.env.API_KEYS = JSON.stringify([
+  { name: 'test-admin', key: 'test-admin-key', scopes: ['admin:hooks', 'admin:queue', 'jobs:run'] },
+  { name: 'test-flo-site', key: 'test-flo-key', scopes: ['subscribe:flo'] },
+]);
+process.env.CLICKBANK_SECRET_KEY = 'TESTSECRETKEY';
+process.env.CLICKBANK_SECRET_KEY_PREVIOUS = 'OLDSECRETKEY';
+process.env.CLICKBANK_SECRET_KEY_HRYWPUB = 'PUBSECRETKEY';
+process.env.BRAND_REGISTRY_PATH = 'test/helpers/brands.json';
+process.env.META_ACCESS_TOKEN = 'test-meta-token';
+process.env.META_PIXEL_ID_HRYW = '1000000000000001';
+process.env.META_PIXEL_ID_FLO = '1000000000000002';
+process.env.KEAP_HOOK_BASE_URL = 'https://api.test';
+
+export const TEST_API_KEY = process.env.SUBSCRIBE_API_KEY;
+export const TEST_ADMIN_API_KEY = 'test-admin-key';
+export const TEST_FLO_API_KEY = 'test-flo-key';
+export const TEST_CLICKBANK_SECRET = process.env.CLICKBANK_SECRET_KEY;
+export const TEST_PREVIOUS_CLICKBANK_SECRET = process.env.CLICKBANK_SECRET_KEY_PREVIOUS;
+export const TEST_HRYWPUB_SECRET = process.env.CLICKBANK_SECRET_KEY_HRYWPUB;
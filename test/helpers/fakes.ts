@@ -0,0 +1,624 @@
+import crypto from 'crypto';
+import { mock } from 'node:test';
+import { keapClient } from '../../src/services/keap.js';
+import { storage } from '../../src/services/storage.js';
+import type { StorageBackend } from '../../src/services/storage.js';
+import { metaCAPIClient } from '../../src/services/meta.js';
+import { getBrandByTagName } from '../../src/config/brands.js';
+import type {
+  ClickbankLineItemResult,
+  ClickbankIntakeClaim,
+  ClickbankTransaction,
+  ClickbankTransactionResult,
+  KeapContact,
+  KeapHook,
+  KeapHookEventRecord,
+  KeapHookSecretRecord,
+  KeapLifecycleEventRecord,
+  KeapReconciliationJob,
+  PurchaseHistoryRow,
+  KeapWebhookLogRecord,
+  MetaQueueFilter,
+  MetaQueueRecord,
+  MetaSendResult,
+  RetryableSubscriber,
+  SubscriberProcessingResult,
+  SubscriberQueueEntry,
+  TagAction,
+  TrackingContextRecord,
+  WorkLease,
+} from '../../src/types/index.js';
+
+export interface RecordedCall {
+  method: string;
+  args: unknown[];
+}
+
+/**
+ * Base for in-memory fakes: every method call made through the installed
+ * singleton is recorded in `calls`.
+ */
+abstract class RecordingFake {
+  calls: RecordedCall[] = [];
+
+  callsTo(method: string): unknown[][] {
+    return this.calls.filter((c) => c.method === method).map((c) => c.args);
+  }
+}
+
+/**
+ * In-memory Keap. Contacts, tags, notes and payments live in maps; set
+ * `failWith` to simulate a Keap outage (every call rejects).
+ */
+export class FakeKeap extends RecordingFake {
+  failWith: Error | null = null;
+  contacts = new Map<number, KeapContact & Record<string, unknown>>();
+  contactTags = new Map<number, Set<number>>();
+  notes: Array<{ contactId: number; noteText: string }> = [];
+  optIns: string[] = [];
+  tagNames = new Map<string, number>();
+  transactions = new Map<number, Record<string, unknown>>();
+  orders = new Map<number, Record<string, unknown>>();
+  subscriptions = new Map<number, Record<string, unknown>>();
+  customFieldValues = new Map<number, Record<string, string>>();
+  recentTransactions: Array<Record<string, unknown>> = [];
+  hooks: KeapHook[] = [];
+  /** Status a hook gets from createHook / verifyHook (Keap's handshake result). */
+  hookVerifyStatus = 'Verified';
+  private nextContactId = 1000;
+  private nextHookKey = 100;
+
+  private check(): void {
+    if (this.failWith) throw this.failWith;
+  }
+
+  addContact(contact: Partial<KeapContact> & { email: string } & Record<string, unknown>): KeapContact {
+    const { email, ...rest } = contact;
+    const id = contact.id ?? this.nextContactId++;
+    const stored = { ...rest, id, email_addresses: [{ email, field: 'EMAIL1' }] } as KeapContact &
+      Record<string, unknown>;
+    this.contacts.set(id, stored);
+    return stored;
+  }
+
+  tagsFor(contactId: number): number[] {
+    return [...(this.contactTags.get(contactId) || [])];
+  }
+
+  async findContactByEmail(email: string): Promise<KeapContact | null> {
+    this.check();
+    for (const contact of this.contacts.values()) {
+      if (contact.email_addresses[0]?.email === email) return contact;
+    }
+    return null;
+  }
+
+  private async upsert(email: string, fields: Record<string, unknown>): Promise<KeapContact> {
+    const existing = await this.findContactByEmail(email);
+    if (existing) {
+      Object.assign(existing, fields);
+      return existing;
+    }
+    return this.addContact({ email, ...fields });
+  }
+
+  async createOrUpdateContactWithFields(
+    email: string,
+    firstName: string,
+    customFields: Record<string, string>
+  ): Promise<KeapContact> {
+    this.check();
+    return this.upsert(email, { given_name: firstName, named_custom_fields: customFields });
+  }
+
+  async findOrCreateClickbankContact(
+    email: string,
+    firstName: string,
+    lastName: string,
+    receipt: string
+  ): Promise<KeapContact> {
+    this.check();
+    return this.upsert(email, { given_name: firstName, family_name: lastName, cb_last_order_id: receipt });
+  }
+
+  async applyTags(contactId: number, tagIds: number[]): Promise<void> {
+    this.check();
+    const tags = this.contactTags.get(contactId) || new Set<number>();
+    tagIds.forEach((id) => tags.add(id));
+    this.contactTags.set(contactId, tags);
+  }
+
+  async applyTagByName(contactId: number, tagName: string): Promise<void> {
+    this.check();
+    const tagId = this.tagNames.get(tagName);
+    if (!tagId) throw new Error(`Unknown tag: ${tagName}`);
+    await this.applyTags(contactId, [tagId]);
+  }
+
+  async removeTags(contactId: number, tagIds: number[]): Promise<number[]> {
+    this.check();
+    const tags = this.contactTags.get(contactId) || new Set<number>();
+    const removed = tagIds.filter((id) => tags.delete(id));
+    return removed;
+  }
+
+  async addNote(contactId: number, noteText: string): Promise<void> {
+    this.check();
+    this.notes.push({ contactId, noteText });
+  }
+
+  async optInEmail(email: string): Promise<void> {
+    this.check();
+    this.optIns.push(email);
+  }
+
+  async getContactById(contactId: number): Promise<KeapContact | null> {
+    this.check();
+    return this.contacts.get(contactId) || null;
+  }
+
+  async getContactTags(contactId: number): Promise<Array<{ id: number; name: string }>> {
+    this.check();
+    const names = new Map([...this.tagNames].map(([name, id]) => [id, name]));
+    return this.tagsFor(contactId).map((id) => ({ id, name: names.get(id) || String(id) }));
+  }
+
+  async detectBrandFromTags(contactId: number): Promise<string | null> {
+    for (const tag of await this.getContactTags(contactId)) {
+      const brand = getBrandByTagName(tag.name);
+      if (brand) return brand.brandCode;
+    }
+    return null;
+  }
+
+  async getTransaction(transactionId: number): Promise<Record<string, unknown> | null> {
+    this.check();
+    return this.transactions.get(transactionId) || null;
+  }
+
+  async getOrder(orderId: number): Promise<Record<string, unknown> | null> {
+    this.check();
+    return this.orders.get(orderId) || null;
+  }
+
+  async getOrderTransactions(orderId: number): Promise<Array<Record<string, unknown>>> {
+    this.check();
+    return [...this.transactions.values()].filter((t) => String(t.order_ids) === String(orderId));
+  }
+
+  async getOrdersByContact(contactId: number): Promise<Array<Record<string, unknown>>> {
+    this.check();
+    return [...this.orders.values()].filter((o) => o.contact_id === contactId);
+  }
+
+  async getSubscription(subscriptionId: number): Promise<Record<string, unknown> | null> {
+    this.check();
+    return this.subscriptions.get(subscriptionId) || null;
+  }
+
+  async getContactCustomFieldValues(
+    contactId: number,
+    fieldNames: string[]
+  ): Promise<Record<string, string | null>> {
+    this.check();
+    const values = this.customFieldValues.get(contactId) || {};
+    return Object.fromEntries(fieldNames.map((name) => [name, values[name] || null]));
+  }
+
+  async updateContactCustomFields(contactId: number, fields: Record<string, string>): Promise<void> {
+    this.check();
+    this.customFieldValues.set(contactId, { ...this.customFieldValues.get(contactId), ...fields });
+  }
+
+  async getRecentTransactions(): Promise<Array<Record<string, unknown>>> {
+    this.check();
+    return this.recentTransactions;
+  }
+
+  async listHooks(): Promise<KeapHook[]> {
+    this.check();
+    return this.hooks;
+  }
+
+  async createHook(eventKey: string, hookUrl: string): Promise<KeapHook> {
+    this.check();
+    const hook = { key: String(this.nextHookKey++), eventKey, hookUrl, status: this.hookVerifyStatus };
+    this.hooks.push(hook);
+    return hook;
+  }
+
+  async verifyHook(hookKey: number): Promise<KeapHook> {
+    this.check();
+    const hook = this.hooks.find((h) => h.key === String(hookKey));
+    if (!hook) throw new Error(`Hook ${hookKey} not found`);
+    hook.status = this.hookVerifyStatus;
+    return hook;
+  }
+
+  async deleteHook(hookKey: number): Promise<void> {
+    this.check();
+    this.hooks = this.hooks.filter((h) => h.key !== String(hookKey));
+  }
+}
+
+/**
+ * In-memory storage backend. Inserted rows are kept per table; reads are
+ * derived from them the same way the real queries derive them.
+ */
+export class FakeStorage extends RecordingFake implements StorageBackend {
+  productTags: Array<{ productId: string; transactionTypes: string[]; action: TagAction }> = [];
+  transactions: ClickbankTransaction[] = [];
+  transactionResults: ClickbankTransactionResult[] = [];
+  lineItemResults: ClickbankLineItemResult[] = [];
+  intakeClaims = new Map<string, ClickbankIntakeClaim>();
+  subscribers: SubscriberQueueEntry[] = [];
+  subscriberResults: SubscriberProcessingResult[] = [];
+  trackingContexts: TrackingContextRecord[] = [];
+  metaQueueRows: MetaQueueRecord[] = [];
+  webhookLogs: KeapWebhookLogRecord[] = [];
+  lifecycleEvents: KeapLifecycleEventRecord[] = [];
+  hookEvents: KeapHookEventRecord[] = [];
+  hookSecrets: KeapHookSecretRecord[] = [];
+  reconciliationJobRows: KeapReconciliationJob[] = [];
+  leases = new Map<string, WorkLease>();
+  subscriberBrands = new Map<string, string>();
+
+  addProductTag(productId: string, transactionTypes: string, action: TagAction): void {
+    this.productTags.push({ productId, transactionTypes: transactionTypes.split('|'), action });
+  }
+
+  async getProductInfo(
+    productId: string
+  ): Promise<{ fulfillment_trigger_tag: string | null; cc_descriptor: string | null } | null> {
+    const row = this.productTags.find(
+      (t) => t.productId === productId && t.action.action === 'apply_tag' && t.action.tagCategory === 'CustomerHub'
+    );
+    return row ? { fulfillment_trigger_tag: row.action.triggerTag || null, cc_descriptor: null } : null;
+  }
+
+  async getTagActionsForProduct(productId: string, transactionType: string): Promise<TagAction[]> {
+    return this.productTags
+      .filter((t) => t.productId === productId && t.transactionTypes.includes(transactionType))
+      .map((t) => ({ ...t.action }));
+  }
+
+  async logTransaction(transaction: ClickbankTransaction): Promise<void> {
+    this.transactions.push(transaction);
+  }
+
+  async queueSubscriber(entry: SubscriberQueueEntry): Promise<string> {
+    this.subscribers.push(entry);
+    return entry.id;
+  }
+
+  async insertSubscriberResult(result: SubscriberProcessingResult): Promise<void> {
+    this.subscriberResults.push(result);
+  }
+
+  async getUnprocessedSubscribers(limit: number = 100): Promise<RetryableSubscriber[]> {
+    const now = Date.now();
+    return this.subscribers
+      .map((entry) => {
+        const results = this.subscriberResults.filter((r) => r.subscriber_id === entry.id);
+        return { entry, latest: results[results.length - 1] };
+      })
+      .filter(
+        ({ latest }) =>
+          !latest ||
+          (latest.status === 'FAILED' && new Date(latest.next_attempt_at || latest.processed_at).getTime() <= now)
+      )
+      .slice(0, limit)
+      .map(({ entry, latest }) => ({ ...entry, attempt_count: latest?.attempt_count ?? 0 }));
+  }
+
+  async getUnprocessedTransactions(limit: number = 100): Promise<ClickbankTransaction[]> {
+    const done = new Set(this.transactionResults.map((r) => r.transaction_id));
+    return this.transactions
+      .filter((t) => t.processing_status === 'PENDING' && !done.has(t.id))
+      .slice(0, limit);
+  }
+
+  async updateTransactionStatus(
+    id: string,
+    keapContactId: number | null,
+    tagsApplied: number[],
+    tagsRemoved: number[],
+    error: string | null
+  ): Promise<void> {
+    this.transactionResults.push({
+      transaction_id: id,
+      keap_contact_id: keapContactId,
+      tags_applied: tagsApplied,
+      tags_removed: tagsRemoved,
+      processing_status: error ? 'FAILED' : 'SUCCESS',
+      error_message: error,
+      processed_at: new Date().toISOString(),
+    });
+  }
+
+  async insertLineItemResults(results: ClickbankLineItemResult[]): Promise<void> {
+    this.lineItemResults.push(...results);
+  }
+
+  async claimClickbankIntake(claims: ClickbankIntakeClaim[]): Promise<string | null> {
+    const owners = claims.map((claim) => {
+      const existing = this.intakeClaims.get(claim.intake_key);
+      if (existing) {
+        existing.delivery_count += 1;
+        existing.last_seen_at = claim.last_seen_at;
+        return existing.transaction_id;
+      }
+      this.intakeClaims.set(claim.intake_key, { ...claim });
+      return claim.transaction_id;
+    });
+    return owners.length === 0 || owners.includes(claims[0].transaction_id) ? null : owners[0];
+  }
+
+  async releaseClickbankIntake(claims: ClickbankIntakeClaim[]): Promise<void> {
+    for (const claim of claims) {
+      if (this.intakeClaims.get(claim.intake_key)?.transaction_id === claim.transaction_id) {
+        this.intakeClaims.delete(claim.intake_key);
+      }
+    }
+  }
+
+  async insertTrackingContext(record: TrackingContextRecord): Promise<void> {
+    this.trackingContexts.push(record);
+  }
+
+  async lookupTrackingContext(
+    keapContactId: string | null,
+    email: string | null
+  ): Promise<TrackingContextRecord | null> {
+    const newestFirst = [...this.trackingContexts].reverse();
+    return (
+      (keapContactId && newestFirst.find((r) => r.keap_contact_id === keapContactId)) ||
+      (email && newestFirst.find((r) => r.email === email)) ||
+      null
+    );
+  }
+
+  async getRecentlyProcessedTransactionIds(): Promise<Set<string>> {
+    return new Set([
+      ...this.metaQueueRows
+        .filter((r) => r.source === 'purchase' && r.event_id?.startsWith('purchase_txn_'))
+        .map((r) => r.event_id!.replace('purchase_txn_', '')),
+      ...this.webhookLogs.filter((r) => !r.is_duplicate).map((r) => String(r.payment_id)),
+    ]);
+  }
+
+  async insertMetaQueueRow(record: MetaQueueRecord): Promise<void> {
+    this.metaQueueRows.push(record);
+  }
+
+  async getRetryableMetaEvents(limit: number = 50): Promise<MetaQueueRecord[]> {
+    const latest = new Map<string, MetaQueueRecord>();
+    for (const row of this.metaQueueRows) latest.set(row.queue_id, row);
+    return [...latest.values()]
+      .filter((r) => ['PENDING', 'FAILED'].includes(r.status) && new Date(r.next_attempt_at).getTime() <= Date.now())
+      .slice(0, limit);
+  }
+
+  async getPurchaseHistory(keapContactId: number, email: string | null): Promise<PurchaseHistoryRow[] | null> {
+    const clickbank = new Map<string, PurchaseHistoryRow>();
+    for (const t of this.transactions) {
+      const matches = t.keap_contact_id === keapContactId || (!!email && t.email.toLowerCase() === email.toLowerCase());
+      if (!matches || t.amount == null || !['SALE', 'REBILL', 'RFND', 'CGBK'].includes(t.transaction_type)) continue;
+      clickbank.set(`${t.receipt}|${t.transaction_type}`, {
+        source: 'clickbank',
+        order_id: t.receipt,
+        transaction_type: t.transaction_type,
+        amount: t.amount,
+        created_at: t.created_at,
+      });
+    }
+    const keap = this.webhookLogs
+      .filter((r) => r.contact_id === keapContactId && !r.is_duplicate && r.amount != null)
+      .map((r): PurchaseHistoryRow => ({
+        source: 'keap',
+        order_id: r.order_id,
+        transaction_type: r.classification_note?.startsWith('refund') ? 'REFUND' : 'PAYMENT',
+        amount: r.amount!,
+        created_at: r.created_at,
+      }));
+    return [...clickbank.values(), ...keap];
+  }
+
+  async getPurchaseMetaEvent(orderId: string): Promise<MetaQueueRecord | null> {
+    const latest = new Map<string, MetaQueueRecord>();
+    for (const row of this.metaQueueRows) {
+      if (row.source === 'purchase' && row.order_id === orderId) latest.set(row.queue_id, row);
+    }
+    return [...latest.values()][0] || null;
+  }
+
+  async listMetaEvents(filter: MetaQueueFilter): Promise<MetaQueueRecord[]> {
+    const dateField = filter.dateField || 'created_at';
+    const latest = new Map<string, MetaQueueRecord>();
+    for (const row of this.metaQueueRows) latest.set(row.queue_id, row);
+    return [...latest.values()]
+      .filter(
+        (r) =>
+          (!filter.statuses?.length || filter.statuses.includes(r.status)) &&
+          (!filter.brand || r.brand === filter.brand) &&
+          (!filter.source || r.source === filter.source) &&
+          (!filter.from || Date.parse(r[dateField]) >= Date.parse(filter.from)) &&
+          (!filter.to || Date.parse(r[dateField]) < Date.parse(filter.to))
+      )
+      .sort((a, b) => Date.parse(b[dateField]) - Date.parse(a[dateField]))
+      .slice(0, filter.limit);
+  }
+
+  async getMetaEventHistory(queueId: string): Promise<MetaQueueRecord[]> {
+    return this.metaQueueRows.filter((r) => r.queue_id === queueId);
+  }
+
+  async markMetaEventRefunded(record: MetaQueueRecord, refundEventId: string): Promise<void> {
+    const now = new Date().toISOString();
+    this.metaQueueRows.push({ ...record, updated_at: now, refunded_at: now, refund_event_id: refundEventId });
+  }
+
+  async lookupBrandByEmail(email: string): Promise<string | null> {
+    return this.subscriberBrands.get(email) || null;
+  }
+
+  async checkPaymentProcessed(paymentId: number): Promise<boolean> {
+    return this.webhookLogs.some((r) => r.payment_id === paymentId && !r.is_duplicate);
+  }
+
+  async insertWebhookLog(record: KeapWebhookLogRecord): Promise<void> {
+    this.webhookLogs.push(record);
+  }
+
+  async insertLifecycleEvent(record: KeapLifecycleEventRecord): Promise<void> {
+    this.lifecycleEvents.push(record);
+  }
+
+  async insertKeapHookEvent(record: KeapHookEventRecord): Promise<void> {
+    this.hookEvents.push(record);
+  }
+
+  async getKeapHookEvent(eventId: string): Promise<KeapHookEventRecord | null> {
+    return this.hookEvents.find((r) => r.event_id === eventId) || null;
+  }
+
+  /**
+   * Record a completed handshake for a hook path, as if Keap had verified it.
+   */
+  addKeapHookSecret(hookPath: string, secret: string): void {
+    this.hookSecrets.push({
+      created_at: new Date().toISOString(),
+      hook_path: hookPath,
+      secret_hash: crypto.createHash('sha256').update(secret).digest('hex'),
+      request_id: null,
+    });
+  }
+
+  async insertKeapHookSecret(record: KeapHookSecretRecord): Promise<void> {
+    this.hookSecrets.push(record);
+  }
+
+  async getKeapHookSecret(hookPath: string, includeWindows: boolean = false): Promise<KeapHookSecretRecord | null> {
+    return (
+      this.hookSecrets.filter((r) => r.hook_path === hookPath && (includeWindows || r.secret_hash)).at(-1) || null
+    );
+  }
+
+  async insertReconciliationJobRow(job: KeapReconciliationJob): Promise<void> {
+    this.reconciliationJobRows.push(job);
+  }
+
+  async getDueReconciliationJobs(limit: number = 20): Promise<KeapReconciliationJob[]> {
+    const latest = new Map<string, KeapReconciliationJob>();
+    for (const row of this.reconciliationJobRows) latest.set(row.job_id, row);
+    return [...latest.values()]
+      .filter((j) => j.status === 'PENDING' && new Date(j.due_at).getTime() <= Date.now())
+      .slice(0, limit);
+  }
+
+  async acquireLeases(keys: string[], owner: string, ttlMs: number): Promise<string[]> {
+    const now = new Date();
+    const acquired: string[] = [];
+    for (const key of new Set(keys)) {
+      const existing = this.leases.get(key);
+      if (existing && (existing.released_at || new Date(existing.expires_at) >= now)) continue;
+      this.leases.set(key, {
+        lease_key: key,
+        owner,
+        created_at: existing?.created_at || now.toISOString(),
+        acquired_at: now.toISOString(),
+        expires_at: new Date(now.getTime() + ttlMs).toISOString(),
+        released_at: null,
+      });
+      acquired.push(key);
+    }
+    return acquired;
+  }
+
+  async releaseLeases(keys: string[], owner: string): Promise<void> {
+    for (const key of keys) {
+      const lease = this.leases.get(key);
+      if (lease?.owner === owner) lease.released_at = new Date().toISOString();
+    }
+  }
+
+  async ensureTablesExist(): Promise<void> {}
+}
+
+/**
+ * Meta CAPI fake: records every sendEvent call and succeeds unless
+ * `nextResult` is set.
+ */
+export class FakeMeta extends RecordingFake {
+  sent: Array<{ pixelId: string; events: Record<string, unknown>[] }> = [];
+  nextResult: MetaSendResult | null = null;
+  /** Per-request result (e.g. reject batches containing a given event); overrides nextResult. */
+  respond: ((events: Record<string, unknown>[]) => MetaSendResult | null) | null = null;
+
+  async sendEvent(params: { pixelId: string; events: Record<string, unknown>[] }): Promise<MetaSendResult> {
+    this.sent.push({ pixelId: params.pixelId, events: params.events });
+    return (
+      this.respond?.(params.events) ||
+      this.nextResult || {
+        success: true,
+        httpStatus: 200,
+        responseJson: JSON.stringify({ events_received: params.events.length }),
+        latencyMs: 1,
+      }
+    );
+  }
+
+  getAccessToken(): string | null {
+    return process.env.META_ACCESS_TOKEN || null;
+  }
+}
+
+/**
+ * Replace every method the fake defines on the real singleton (via node:test
+ * mocks, undone by mock.restoreAll()), recording each call on the fake.
+ */
+function installFake(target: object, fake: RecordingFake): void {
+  const proto = Object.getPrototypeOf(fake) as Record<string, unknown>;
+  const ownMethods = Object.getOwnPropertyNames(proto).filter(
+    (name) => name !== 'constructor' && typeof proto[name] === 'function'
+  );
+
+  for (const name of ownMethods) {
+    const targetRecord = target as Record<string, (...args: unknown[]) => unknown>;
+    if (typeof targetRecord[name] !== 'function') continue;
+    const impl = (proto[name] as (...args: unknown[]) => unknown).bind(fake);
+    mock.method(targetRecord, name, (...args: unknown[]) => {
+      fake.calls.push({ method: name, args });
+      return impl(...args);
+    });
+  }
+}
+
+export interface Fakes {
+  keap: FakeKeap;
+  storage: FakeStorage;
+  meta: FakeMeta;
+}
+
+export function installFakes(): Fakes {
+  const fakes: Fakes = {
+    keap: new FakeKeap(),
+    storage: new FakeStorage(),
+    meta: new FakeMeta(),
+  };
+
+  installFake(keapClient, fakes.keap);
+  installFake(storage, fakes.storage);
+  installFake(metaCAPIClient, fakes.meta);
+
+  return fakes;
+}
+
+/**
+ * Let fire-and-forget work (CAPI sends, result rows, retries) finish.
+ */
+export async function settle(rounds: number = 20): Promise<void> {
+  for (let i = 0; i < rounds; i++) {
+    await new Promise((resolve) => setImmediate(resolve));
+  }
+}
@@ -0,0 +1,129 @@
+import crypto from 'crypto';
+import { TEST_ADMIN_API_KEY, TEST_API_KEY, TEST_CLICKBANK_SECRET } from './env.js';
+import type { ClickbankIpnDecrypted, ClickbankIpnEncrypted } from '../../src/types/index.js';
+
+/**
+ * Encrypt an IPN the way ClickBank does for v6.0+ notifications:
+ * AES-256-CBC keyed by the first 32 hex chars of sha1(secret).
+ */
+export function encryptIpn(
+  ipn: ClickbankIpnDecrypted,
+  secret: string = TEST_CLICKBANK_SECRET!
+): ClickbankIpnEncrypted {
+  const key = crypto.createHash('sha1').update(secret).digest('hex').substring(0, 32);
+  const iv = crypto.randomBytes(16);
+  const cipher = crypto.createCipheriv('aes-256-cbc', key, iv);
+  const encrypted = Buffer.concat([cipher.update(JSON.stringify(ipn), 'utf8'), cipher.final()]);
+  return { notification: encrypted.toString('base64'), iv: iv.toString('base64') };
+}
+
+/**
+ * Decrypted v8 IPN with nested customer and lineItems.
+ */
+export function v8Ipn(overrides: Partial<ClickbankIpnDecrypted> = {}): ClickbankIpnDecrypted {
+  return {
+    transactionTime: '20260115T141003-0800',
+    receipt: 'RCPT1234',
+    transactionType: 'SALE',
+    vendor: 'hryw',
+    currency: 'USD',
+    totalOrderAmount: 47.0,
+    affiliate: 'aff123',
+    customer: {
+      billing: {
+        firstName: 'Jane',
+        lastName: 'Doe',
+        fullName: 'Jane Doe',
+        email: 'jane@example.com',
+      },
+    },
+    lineItems: [
+      { itemNo: 'ebook-19', productTitle: 'HRYW eBook', productPrice: 19.0, accountAmount: 12.5 },
+    ],
+    ...overrides,
+  };
+}
+
+/**
+ * Legacy (pre-v6) IPN fields, signed with cverify: first 8 hex chars of
+ * sha1(values sorted by field name, each followed by '|', then the secret).
+ * Amounts are in cents.
+ */
+export function legacyIpn(
+  overrides: Record<string, string> = {},
+  secret: string = TEST_CLICKBANK_SECRET!
+): Record<string, string> {
+  const fields: Record<string, string> = {
+    ctransaction: 'SALE',
+    cvendor: 'hryw',
+    ctransreceipt: 'LEGACY123',
+    ccustemail: 'legacy@example.com',
+    ccustfirstname: 'Lee',
+    ccustlastname: 'Gacy',
+    cproditem: 'ebook-19',
+    ctransamount: '1900',
+    ctranstime: '1768514000',
+    ...overrides,
+  };
+  const pop = Object.keys(fields).sort().map((name) => `${fields[name]}|`).join('') + secret;
+  const cverify = crypto.createHash('sha1').update(pop).digest('hex').substring(0, 8).toUpperCase();
+  return { ...fields, cverify };
+}
+
+/**
+ * Form-encode legacy IPN fields the way ClickBank POSTs them.
+ */
+export function formEncode(fields: Record<string, string>): string {
+  return new URLSearchParams(fields).toString();
+}
+
+/**
+ * Keap REST hook delivery for invoice.payment.add. Keap sends id=0 for
+ * payments whose transaction isn't ready yet (common with upsells).
+ */
+export function keapPaymentHook(ids: number[]): {
+  event_key: string;
+  object_keys: Array<{ id: number; apiUrl: string; timestamp: string }>;
+} {
+  return {
+    event_key: 'invoice.payment.add',
+    object_keys: ids.map((id) => ({ id, apiUrl: '', timestamp: '2026-01-15T14:10:03.000Z' })),
+  };
+}
+
+/**
+ * X-Hook-Secret Keap sends on every delivery after the verification handshake.
+ */
+export const KEAP_HOOK_SECRET = 'keap-hook-secret';
+export const keapHookHeaders = { 'x-hook-secret': KEAP_HOOK_SECRET };
+
+/**
+ * Subscribe request body from a brand site.
+ */
+export function subscribeBody(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  return {
+    email: 'sam@example.com',
+    firstName: 'Sam',
+    brand: 'hryw',
+    tag: 'HRYW-WebSub',
+    customFields: { DP_SOURCE_ID_HRYW: 'homepage-popup', DP_IP_ADDRESS: '203.0.113.7' },
+    sourceUrl: 'https://www.havetherelationshipyouwant.com/',
+    eventId: 'evt-sub-1',
+    fbp: 'fb.1.1700000000.123',
+    ...overrides,
+  };
+}
+
+/**
+ * Subscribe body with a first name the server-side bot filter rejects.
+ */
+export function botSubscribeBody(): Record<string, unknown> {
+  return subscribeBody({ email: 'bot@example.com', firstName: 'xkcdqwrtzplmnbv' });
+}
+
+export const subscribeHeaders = { 'x-api-key': TEST_API_KEY! };
+
+/**
+ * Key with the admin:hooks, admin:queue and jobs:run scopes.
+ */
+export const adminHeaders = { 'x-api-key': TEST_ADMIN_API_KEY };
@@ -0,0 +1,316 @@
+import './helpers/env.js';
+import { describe, it, before, after, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import type { FastifyInstance } from 'fastify';
+import { buildApp } from '../src/app.js';
+import { storage } from '../src/services/storage.js';
+import { addBrand, getBrandConfig } from '../src/config/brands.js';
+import { installFakes, type Fakes } from './helpers/fakes.js';
+import { adminHeaders } from './helpers/fixtures.js';
+import type { ClickbankTransaction, MetaQueueRecord } from '../src/types/index.js';
+
+/**
+ * A ClickBank SALE logged as PENDING whose processing never finished.
+ */
+function pendingTransaction(id: string): ClickbankTransaction {
+  const createdAt = new Date(Date.now() - 60000).toISOString();
+  return {
+    id,
+    receipt: `RCPT-${id}`,
+    transaction_type: 'SALE',
+    brand: 'hryw',
+    vendor: 'hryw',
+    email: `${id}@example.com`,
+    first_name: 'Jane',
+    last_name: 'Doe',
+    product_id: 'ebook-19',
+    amount: 19,
+    currency: 'USD',
+    affiliate: null,
+    clickbank_timestamp: createdAt,
+    raw_payload: null,
+    is_test: false,
+    is_encrypted: true,
+    decryption_key_id: 'default',
+    source_ip: '203.0.113.7',
+    user_agent: null,
+    is_processed: false,
+    keap_contact_id: null,
+    tags_applied: [],
+    tags_removed: [],
+    processing_status: 'PENDING',
+    error_message: null,
+    created_at: createdAt,
+    processed_at: null,
+  };
+}
+
+/**
+ * A FAILED Meta queue row that is due for replay.
+ */
+function dueMetaRow(eventId: string): MetaQueueRecord {
+  const past = new Date(Date.now() - 60000).toISOString();
+  return {
+    created_at: past,
+    updated_at: past,
+    queue_id: `q-${eventId}`,
+    source: 'purchase',
+    brand: 'hryw',
+    event_name: 'Purchase',
+    email: null,
+    email_hash: null,
+    keap_contact_id: null,
+    order_id: null,
+    event_id: eventId,
+    pixel_id: '1000000000000001',
+    event_time: 1768514000,
+    action_source: 'website',
+    event_source_url: null,
+    capi_payload_json: JSON.stringify([{ event_name: 'Purchase', event_id: eventId }]),
+    status: 'FAILED',
+    attempt_count: 1,
+    next_attempt_at: past,
+    last_http_status: 503,
+    last_error_message: 'Service Unavailable',
+    last_response_json: null,
+    last_latency_ms: 10,
+  };
+}
+
+describe('POST /jobs/*', () => {
+  let app: FastifyInstance;
+  let fakes: Fakes;
+
+  before(async () => {
+    app = await buildApp();
+  });
+
+  after(async () => {
+    await app.close();
+  });
+
+  beforeEach(() => {
+    fakes = installFakes();
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  const runJob = (name: string, query: string = '') =>
+    app.inject({ method: 'POST', url: `/jobs/${name}${query}`, headers: adminHeaders });
+
+  it('requires the API key', async () => {
+    const res = await app.inject({ method: 'POST', url: '/jobs/clickbank-retry' });
+    assert.equal(res.statusCode, 401);
+    assert.equal(fakes.storage.callsTo('getUnprocessedTransactions').length, 0);
+  });
+
+  it('retries pending ClickBank transactions and reports the batch', async () => {
+    fakes.storage.addProductTag('ebook-19', 'SALE', {
+      action: 'apply_tag',
+      tagId: 779,
+      tagCategory: 'CustomerHub',
+      triggerTag: 'Have The Relationship You Want eBook',
+    });
+    fakes.storage.transactions.push(pendingTransaction('t1'), pendingTransaction('t2'));
+
+    const res = await runJob('clickbank-retry');
+
+    assert.equal(res.statusCode, 200);
+    const body = res.json();
+    assert.equal(body.job, 'clickbank-retry');
+    assert.deepEqual([body.pending, body.processed, body.skipped], [2, 2, 0]);
+    assert.equal(typeof body.durationMs, 'number');
+    assert.deepEqual(
+      fakes.storage.transactionResults.map((r) => [r.transaction_id, r.processing_status]),
+      [
+        ['t1', 'SUCCESS'],
+        ['t2', 'SUCCESS'],
+      ]
+    );
+
+    // Nothing left: a second run is a no-op
+    const again = await runJob('clickbank-retry');
+    assert.deepEqual([again.json().pending, again.json().processed], [0, 0]);
+  });
+
+  it('replays at most ?limit= due Meta events per call', async () => {
+    fakes.storage.metaQueueRows.push(dueMetaRow('a1'), dueMetaRow('a2'), dueMetaRow('a3'));
+
+    const res = await runJob('meta-replay', '?limit=2');
+
+    assert.equal(res.statusCode, 200);
+    assert.deepEqual(
+      { processed: res.json().processed, sent: res.json().sent, failed: res.json().failed },
+      { processed: 2, sent: 2, failed: 0 }
+    );
+    assert.equal(fakes.meta.sent[0].events.length, 2);
+  });
+
+  it('runs the subscriber retry and reconciliation batches', async () => {
+    const subscribers = await runJob('subscriber-retry');
+    assert.equal(subscribers.statusCode, 200);
+    assert.deepEqual(
+      { processed: subscribers.json().processed, succeeded: subscribers.json().succeeded },
+      { processed: 0, succeeded: 0 }
+    );
+
+    const reconcile = await runJob('keap-reconcile');
+    assert.equal(reconcile.statusCode, 200);
+    assert.equal(reconcile.json().jobs, 0);
+  });
+
+  it('leases subscribers and Keap payments so overlapping calls process each once', async () => {
+    fakes.storage.subscribers.push({
+      id: 'sub-1',
+      email: 'sam@example.com',
+      first_name: 'Sam',
+      brand: 'hryw',
+      dp_source_id: null,
+      dp_ip_address: null,
+      dp_first_upload_time: null,
+      dp_optional_inputs: null,
+      redirect_slug: null,
+      source_url: null,
+      user_agent: null,
+      raw_payload: null,
+      tag_name: 'HRYW-WebSub',
+      is_processed: false,
+      keap_contact_id: null,
+      tags_applied: [],
+      processing_error: null,
+      created_at: new Date(Date.now() - 60000).toISOString(),
+      processed_at: null,
+    });
+    fakes.keap.recentTransactions = [
+      { id: 9101, transaction_date: new Date(Date.now() - 10 * 60000).toISOString() },
+    ];
+
+    const subscribers = await Promise.all([runJob('subscriber-retry'), runJob('subscriber-retry')]);
+    assert.deepEqual(
+      subscribers.map((res) => res.json().processed).sort(),
+      [0, 1]
+    );
+    assert.equal(fakes.storage.subscriberResults.length, 1);
+
+    const sweeps = await Promise.all([runJob('keap-payment-sweep'), runJob('keap-payment-sweep')]);
+    assert.deepEqual(
+      sweeps.map((res) => res.json().reconciledTxnIds).sort(),
+      [[], [9101]]
+    );
+    assert.equal(fakes.keap.callsTo('getTransaction').length, 1);
+  });
+
+  it('rebuilds brand custom fields from the registry suffix when the payload is missing', async () => {
+    addBrand({ ...getBrandConfig('hryw')!, brandCode: 'glow', keapTagPrefix: 'GLOW', customFieldSuffix: 'GLW' });
+    fakes.storage.subscribers.push({
+      id: 'sub-2',
+      email: 'gale@example.com',
+      first_name: 'Gale',
+      brand: 'glow',
+      dp_source_id: 'homepage-popup',
+      dp_ip_address: '203.0.113.9',
+      dp_first_upload_time: null,
+      dp_optional_inputs: null,
+      redirect_slug: null,
+      source_url: null,
+      user_agent: null,
+      raw_payload: null,
+      tag_name: 'GLOW-WebSub',
+      is_processed: false,
+      keap_contact_id: null,
+      tags_applied: [],
+      processing_error: null,
+      created_at: new Date(Date.now() - 60000).toISOString(),
+      processed_at: null,
+    });
+
+    fakes.storage.subscribers.push({
+      ...fakes.storage.subscribers[0],
+      id: 'sub-3',
+      email: 'nova@example.com',
+      brand: 'nova',
+      tag_name: 'NOVA-WebSub',
+    });
+
+    await runJob('subscriber-retry');
+
+    const fieldsFor = (email: string) =>
+      [...fakes.keap.contacts.values()].find((c) => c.email_addresses[0]?.email === email)
+        ?.named_custom_fields;
+    assert.deepEqual(fieldsFor('gale@example.com'), {
+      DP_IP_ADDRESS: '203.0.113.9',
+      DP_SOURCE_ID_GLW: 'homepage-popup',
+    });
+    assert.deepEqual(fieldsFor('nova@example.com'), { DP_IP_ADDRESS: '203.0.113.9' });
+  });
+
+  it('keeps items leased when their result write fails, and retries them once the leases expire', async () => {
+    fakes.storage.transactions.push(pendingTransaction('t1'));
+    fakes.storage.metaQueueRows.push(dueMetaRow('m1'));
+    fakes.storage.subscribers.push({
+      id: 'sub-4',
+      email: 'rio@example.com',
+      first_name: 'Rio',
+      brand: 'hryw',
+      dp_source_id: null,
+      dp_ip_address: null,
+      dp_first_upload_time: null,
+      dp_optional_inputs: null,
+      redirect_slug: null,
+      source_url: null,
+      user_agent: null,
+      raw_payload: null,
+      tag_name: 'HRYW-WebSub',
+      is_processed: false,
+      keap_contact_id: null,
+      tags_applied: [],
+      processing_error: null,
+      created_at: new Date(Date.now() - 60000).toISOString(),
+      processed_at: null,
+    });
+    const writeFailures = [
+      mock.method(storage, 'updateTransactionStatus', async () => {
+        throw new Error('insert failed');
+      }),
+      mock.method(storage, 'insertMetaQueueRow', async () => {
+        throw new Error('insert failed');
+      }),
+      mock.method(storage, 'insertSubscriberResult', async () => {
+        throw new Error('insert failed');
+      }),
+    ];
+
+    for (const job of ['clickbank-retry', 'meta-replay', 'subscriber-retry']) {
+      assert.equal((await runJob(job)).statusCode, 200, job);
+    }
+    const leases = [...fakes.storage.leases.values()];
+    assert.equal(leases.length, 3);
+    assert.ok(leases.every((lease) => lease.released_at === null));
+
+    // Nothing was recorded, so the items stay due; once the leases expire they're retried
+    writeFailures.forEach((fn) => fn.mock.restore());
+    for (const lease of leases) lease.expires_at = new Date(Date.now() - 1000).toISOString();
+    for (const job of ['clickbank-retry', 'meta-replay', 'subscriber-retry']) {
+      assert.equal((await runJob(job)).json().processed, 1, job);
+    }
+    assert.equal(fakes.storage.transactionResults.length, 1);
+    assert.deepEqual(
+      fakes.storage.metaQueueRows.filter((r) => r.queue_id === 'q-m1').map((r) => r.status),
+      ['FAILED', 'SENT']
+    );
+    assert.equal(fakes.storage.subscriberResults.length, 1);
+  });
+
+  it('returns 500 with the error when a batch throws', async () => {
+    mock.method(storage, 'getUnprocessedSubscribers', async () => {
+      throw new Error('connection refused');
+    });
+
+    const res = await runJob('subscriber-retry');
+
+    assert.equal(res.statusCode, 500);
+    assert.deepEqual(res.json(), { job: 'subscriber-retry', error: 'connection refused' });
+  });
+});
@@ -0,0 +1,825 @@
+import './helpers/env.js';
+import { describe, it, before, after, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import type { FastifyInstance } from 'fastify';
+import { buildApp } from '../src/app.js';
+import { runDueReconciliationJobs, sweepRecentKeapPayments } from '../src/routes/keap-webhook.js';
+import { REQUIRED_KEAP_HOOKS } from '../src/config/keapHooks.js';
+import { openKeapHookHandshake } from '../src/services/keapHookSecrets.js';
+import { keapClient } from '../src/services/keap.js';
+import { storage } from '../src/services/storage.js';
+import { logger } from '../src/utils/logger.js';
+import type { ClickbankTransaction } from '../src/types/index.js';
+import { installFakes, settle, type Fakes } from './helpers/fakes.js';
+import {
+  keapPaymentHook,
+  adminHeaders,
+  subscribeHeaders,
+  KEAP_HOOK_SECRET,
+  keapHookHeaders,
+} from './helpers/fixtures.js';
+
+describe('POST /webhooks/keap/invoice-payment', () => {
+  let app: FastifyInstance;
+  let fakes: Fakes;
+
+  before(async () => {
+    app = await buildApp();
+  });
+
+  after(async () => {
+    await app.close();
+  });
+
+  beforeEach(() => {
+    fakes = installFakes();
+    for (const { path } of REQUIRED_KEAP_HOOKS) fakes.storage.addKeapHookSecret(path, KEAP_HOOK_SECRET);
+    fakes.storage.addKeapHookSecret('/webhooks/keap/invoice.payment.add', KEAP_HOOK_SECRET);
+    const contact = fakes.keap.addContact({
+      id: 501,
+      email: 'buyer@example.com',
+      given_name: 'Bea',
+      family_name: 'Buyer',
+    });
+    fakes.keap.transactions.set(9001, {
+      id: 9001,
+      contact_id: contact.id,
+      amount: 97,
+      currency: 'USD',
+      order_ids: '7001',
+      gateway_account_name: 'HRYW-Auth.net',
+      transaction_date: '2026-01-15T14:10:03.000Z',
+    });
+    fakes.keap.orders.set(7001, {
+      id: 7001,
+      contact_id: contact.id,
+      creation_date: new Date().toISOString(),
+      order_items: [{ id: 1, name: 'Program', quantity: 1, price: 97 }],
+    });
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+    mock.timers.reset();
+  });
+
+  const deliver = (payload: unknown, headers: Record<string, string> = keapHookHeaders) =>
+    app.inject({
+      method: 'POST',
+      url: '/webhooks/keap/invoice-payment',
+      payload: payload as Record<string, unknown>,
+      headers,
+    });
+
+  it('stores and echoes X-Hook-Secret on a handshake for a hook it is creating', async () => {
+    const created = await app.inject({
+      method: 'POST',
+      url: '/admin/create-hook',
+      headers: adminHeaders,
+      payload: { eventKey: 'invoice.payment.add', hookUrl: 'https://api.test/webhooks/keap/invoice-payment' },
+    });
+    assert.equal(created.statusCode, 200);
+
+    const res = await deliver({}, { 'x-hook-secret': 'handshake-secret' });
+    assert.equal(res.statusCode, 200);
+    assert.equal(res.headers['x-hook-secret'], 'handshake-secret');
+    assert.equal(fakes.keap.callsTo('getTransaction').length, 0);
+
+    const stale = await deliver(keapPaymentHook([9001]));
+    assert.equal(stale.statusCode, 401);
+    const fresh = await deliver(keapPaymentHook([9001]), { 'x-hook-secret': 'handshake-secret' });
+    await settle();
+    assert.equal(fresh.statusCode, 200);
+    assert.equal(fakes.meta.sent[0].events[0].event_id, 'purchase_txn_9001');
+  });
+
+  it('rejects unsigned deliveries to paths that never completed a handshake', async () => {
+    fakes.storage.hookSecrets = [];
+
+    const legacy = await deliver(keapPaymentHook([9001]), {});
+    const other = await app.inject({
+      method: 'POST',
+      url: '/webhooks/keap/zzz',
+      payload: keapPaymentHook([9001]),
+    });
+    await settle();
+
+    assert.equal(legacy.statusCode, 401);
+    assert.equal(other.statusCode, 401);
+    assert.equal(fakes.keap.calls.length, 0);
+    assert.equal(fakes.meta.sent.length, 0);
+    assert.equal(fakes.storage.webhookLogs[0].classification_note, 'rejected_hook_secret_unregistered');
+  });
+
+  describe('with KEAP_LEGACY_HOOK_UNSIGNED=true', () => {
+    beforeEach(() => {
+      process.env.KEAP_LEGACY_HOOK_UNSIGNED = 'true';
+    });
+
+    afterEach(() => {
+      delete process.env.KEAP_LEGACY_HOOK_UNSIGNED;
+    });
+
+    it('accepts unsigned deliveries on the legacy payment hook only, until it is re-verified', async () => {
+      fakes.storage.hookSecrets = [];
+
+      const res = await deliver(keapPaymentHook([9001]), {});
+      await settle();
+      assert.equal(res.statusCode, 200);
+      assert.equal(fakes.meta.sent[0].events[0].event_id, 'purchase_txn_9001');
+
+      for (const url of ['/webhooks/keap/zzz', '/webhooks/keap/invoice.payment.add', '/webhooks/keap/order.add']) {
+        const other = await app.inject({ method: 'POST', url, payload: keapPaymentHook([9002]) });
+        assert.equal(other.statusCode, 401, url);
+      }
+
+      // Once Keap's handshake is stored the secret is required
+      await openKeapHookHandshake('https://api.test/webhooks/keap/invoice-payment');
+      await deliver({}, { 'x-hook-secret': 'first-secret' });
+      const missing = await deliver(keapPaymentHook([9002]), {});
+      assert.equal(missing.statusCode, 401);
+    });
+  });
+
+  it('refuses a handshake when no verification is pending', async () => {
+    const res = await deliver({}, { 'x-hook-secret': 'attacker-secret' });
+
+    assert.equal(res.statusCode, 403);
+    assert.equal(res.headers['x-hook-secret'], undefined);
+    const forged = await deliver(keapPaymentHook([9001]), { 'x-hook-secret': 'attacker-secret' });
+    assert.equal(forged.statusCode, 401);
+    assert.equal(fakes.keap.calls.length, 0);
+  });
+
+  it('rejects deliveries without the hook secret and logs them to the webhook log', async () => {
+    const missing = await deliver(keapPaymentHook([9001]), {});
+    const mismatch = await deliver(keapPaymentHook([9001]), { 'x-hook-secret': 'wrong' });
+    await settle();
+
+    assert.equal(missing.statusCode, 401);
+    assert.equal(mismatch.statusCode, 401);
+    assert.equal(fakes.keap.calls.length, 0);
+    assert.equal(fakes.meta.sent.length, 0);
+    assert.equal(fakes.storage.hookEvents.length, 0);
+    assert.deepEqual(
+      fakes.storage.webhookLogs.map((r) => [r.payment_id, r.is_duplicate, r.classification_note]),
+      [
+        [9001, true, 'rejected_hook_secret_missing'],
+        [9001, true, 'rejected_hook_secret_mismatch'],
+      ]
+    );
+
+    // The rejected rows don't make Keap's real delivery look like a duplicate
+    await deliver(keapPaymentHook([9001]));
+    await settle();
+    assert.equal(fakes.meta.sent[0].events[0].event_id, 'purchase_txn_9001');
+  });
+
+  it('refuses deliveries when the stored secret cannot be read', async () => {
+    mock.method(storage, 'getKeapHookSecret', async () => {
+      throw new Error('storage down');
+    });
+
+    const res = await deliver(keapPaymentHook([9001]));
+
+    assert.equal(res.statusCode, 503);
+    assert.equal(fakes.keap.calls.length, 0);
+  });
+
+  it('sends a Purchase event for a real payment id', async () => {
+    const res = await deliver(keapPaymentHook([9001]));
+    await settle();
+
+    assert.equal(res.statusCode, 200);
+    const [log] = fakes.storage.webhookLogs;
+    assert.equal(log.payment_id, 9001);
+    assert.equal(log.brand, 'hryw');
+    assert.equal(log.event_name, 'Purchase');
+
+    const [sent] = fakes.meta.sent;
+    assert.equal(sent.pixelId, process.env.META_PIXEL_ID_HRYW);
+    assert.equal(sent.events[0].event_id, 'purchase_txn_9001');
+    assert.deepEqual((sent.events[0].custom_data as Record<string, unknown>).value, 97);
+  });
+
+  it('updates the purchase date fields for the payment', async () => {
+    fakes.keap.customFieldValues.set(501, { LAST_PURCHASE_DATE_HRYW: '2025-11-30T00:00:00.000Z' });
+
+    await deliver(keapPaymentHook([9001]));
+    await settle();
+
+    assert.deepEqual(fakes.keap.customFieldValues.get(501), {
+      FIRST_PURCHASE_DATE: '2026-01-15',
+      LAST_PURCHASE_DATE: '2026-01-15',
+      FIRST_PURCHASE_DATE_HRYW: '2026-01-15',
+      LAST_PURCHASE_DATE_HRYW: '2026-01-15',
+    });
+  });
+
+  it('logs a repeat delivery of the same payment as a duplicate', async () => {
+    await deliver(keapPaymentHook([9001]));
+    await settle();
+    await deliver(keapPaymentHook([9001]));
+    await settle();
+
+    assert.deepEqual(
+      fakes.storage.webhookLogs.map((r) => r.is_duplicate),
+      [false, true]
+    );
+    assert.equal(fakes.meta.sent.length, 1);
+  });
+
+  it('sends the first payment of an order created the previous day', async () => {
+    fakes.keap.orders.set(7001, {
+      ...fakes.keap.orders.get(7001),
+      creation_date: '2026-01-14T23:50:00.000Z',
+      payment_plan: { number_of_payments: 3, days_between_payments: 30 },
+    });
+    fakes.keap.transactions.set(9001, {
+      ...fakes.keap.transactions.get(9001),
+      transaction_date: '2026-01-15T00:05:00.000Z',
+    });
+
+    await deliver(keapPaymentHook([9001]));
+    await settle();
+
+    assert.equal(fakes.meta.sent[0].events[0].event_name, 'Purchase');
+    assert.equal((fakes.meta.sent[0].events[0] as Record<string, any>).custom_data.new_customer, undefined);
+    assert.equal(
+      fakes.storage.webhookLogs[0].classification_note,
+      'first_payment: no prior payments on order; plan=3 payments every 30d'
+    );
+  });
+
+  it('skips later installments of a payment plan with the prior payments as evidence', async () => {
+    fakes.keap.orders.set(7001, {
+      ...fakes.keap.orders.get(7001),
+      payment_plan: { number_of_payments: 3, days_between_payments: 30 },
+    });
+    fakes.keap.transactions.set(9000, {
+      id: 9000,
+      contact_id: 501,
+      amount: 97,
+      order_ids: '7001',
+      transaction_date: '2025-12-16T14:10:03.000Z',
+    });
+    fakes.keap.transactions.set(8999, {
+      id: 8999,
+      contact_id: 501,
+      amount: 97,
+      order_ids: '7001',
+      status: 'Declined',
+      transaction_date: '2025-12-15T14:10:03.000Z',
+    });
+
+    await deliver(keapPaymentHook([9001]));
+    await settle();
+
+    assert.equal(fakes.meta.sent.length, 0);
+    const [log] = fakes.storage.webhookLogs;
+    assert.equal(log.event_name, null);
+    assert.equal(
+      log.classification_note,
+      'installment_skip: payment 2 on order; plan=3 payments every 30d; prior_payments=9000'
+    );
+  });
+
+  describe('lifetime value enrichment (META_LTV_ENRICHMENT=true)', () => {
+    beforeEach(() => {
+      process.env.META_LTV_ENRICHMENT = 'true';
+    });
+
+    afterEach(() => {
+      delete process.env.META_LTV_ENRICHMENT;
+    });
+
+    it('flags a first purchase as a new customer', async () => {
+      await deliver(keapPaymentHook([9001]));
+      await settle();
+
+      const { custom_data } = fakes.meta.sent[0].events[0] as Record<string, any>;
+      assert.equal(custom_data.new_customer, true);
+      assert.equal(custom_data.predicted_ltv, 97);
+      assert.equal(custom_data.customer_lifetime_value, 97);
+      assert.equal(fakes.storage.webhookLogs[0].prior_order_count, 0);
+    });
+
+    it('omits new_customer and LTV when Keap orders cannot be read', async () => {
+      mock.method(keapClient, 'getOrdersByContact', async () => {
+        throw new Error('Keap 503');
+      });
+
+      await deliver(keapPaymentHook([9001]));
+      await settle();
+
+      const { custom_data } = fakes.meta.sent[0].events[0] as Record<string, any>;
+      assert.equal(custom_data.new_customer, undefined);
+      assert.equal(custom_data.predicted_ltv, undefined);
+      assert.equal(fakes.storage.webhookLogs[0].prior_order_count, null);
+    });
+
+    it('adds ClickBank sales, Keap orders and logged payments net of refunds', async () => {
+      fakes.storage.transactions.push({
+        receipt: 'CB1',
+        transaction_type: 'SALE',
+        email: 'BUYER@example.com',
+        keap_contact_id: null,
+        amount: 20,
+        created_at: '2025-11-01T00:00:00.000Z',
+      } as ClickbankTransaction);
+      fakes.keap.orders.set(6001, { id: 6001, contact_id: 501, total: 50 });
+      const logged = {
+        created_at: '2025-12-01T00:00:00.000Z',
+        is_duplicate: false,
+        contact_id: 501,
+        brand: 'hryw',
+        event_name: null,
+        subscription_plan_id: null,
+        prior_order_count: null,
+        currency: 'USD',
+        raw_transaction_json: null,
+        raw_order_json: null,
+      };
+      fakes.storage.webhookLogs.push(
+        { ...logged, payment_id: 8001, order_id: '6500', amount: 30, classification_note: 'first_payment' },
+        { ...logged, payment_id: 8002, order_id: '6500', amount: -10, classification_note: 'refund' },
+        { ...logged, payment_id: 8003, order_id: '6001', amount: 50, classification_note: 'first_payment' }
+      );
+
+      await deliver(keapPaymentHook([9001]));
+      await settle();
+
+      const { custom_data } = fakes.meta.sent[0].events[0] as Record<string, any>;
+      assert.equal(custom_data.new_customer, false);
+      assert.equal(custom_data.predicted_ltv, 20 + 50 + 30 - 10 + 97);
+      assert.equal(fakes.storage.webhookLogs.at(-1)!.prior_order_count, 3);
+    });
+  });
+
+  it("reports a Keap refund against the order's Purchase", async () => {
+    fakes.keap.transactions.set(9002, {
+      id: 9002,
+      contact_id: 501,
+      amount: -97,
+      currency: 'USD',
+      type: 'REFUND',
+      order_ids: '7001',
+    });
+
+    await deliver(keapPaymentHook([9001]));
+    await settle();
+    await deliver(keapPaymentHook([9002]));
+    await settle();
+
+    const refund = fakes.meta.sent[1].events[0] as Record<string, any>;
+    assert.equal(fakes.meta.sent[1].pixelId, process.env.META_PIXEL_ID_HRYW);
+    assert.equal(refund.event_name, 'Refund');
+    assert.equal(refund.event_id, 'refund_txn_9002');
+    assert.equal(refund.custom_data.original_event_id, 'purchase_txn_9001');
+    assert.equal(refund.custom_data.value, 97);
+    assert.equal(fakes.storage.webhookLogs[1].classification_note, 'refund');
+    assert.ok(
+      fakes.storage.metaQueueRows.some(
+        (r) => r.event_id === 'purchase_txn_9001' && r.refund_event_id === 'refund_txn_9002'
+      )
+    );
+  });
+
+  it('reconciles id=0 payments through a persisted job once it is due', async () => {
+    const now = Date.now();
+    mock.timers.enable({ apis: ['Date'], now });
+    fakes.keap.recentTransactions = [{ id: 9001 }];
+
+    const res = await deliver(keapPaymentHook([0]));
+    assert.equal(res.statusCode, 200);
+    const [job] = fakes.storage.reconciliationJobRows;
+    assert.equal(job.status, 'PENDING');
+    assert.equal(job.expected_count, 1);
+    assert.equal(job.due_at, new Date(now + 15000).toISOString());
+
+    assert.equal(await runDueReconciliationJobs(logger), 0);
+    assert.equal(fakes.keap.callsTo('getTransaction').length, 0);
+
+    mock.timers.tick(15000);
+    assert.equal(await runDueReconciliationJobs(logger), 1);
+    await settle();
+
+    assert.deepEqual(fakes.keap.callsTo('getTransaction'), [[9001]]);
+    assert.equal(fakes.meta.sent[0].events[0].event_id, 'purchase_txn_9001');
+    const latest = fakes.storage.reconciliationJobRows.at(-1)!;
+    assert.equal(latest.status, 'DONE');
+    assert.deepEqual(latest.reconciled_txn_ids, [9001]);
+  });
+
+  it('reschedules a job that finds nothing and marks it EXHAUSTED after the last attempt', async () => {
+    fakes.storage.reconciliationJobRows.push({
+      created_at: '2026-01-15T14:10:05.000Z',
+      updated_at: '2026-01-15T14:10:05.000Z',
+      job_id: 'job-1',
+      expected_count: 1,
+      reconciled_txn_ids: [],
+      status: 'PENDING',
+      attempt_count: 0,
+      due_at: '2026-01-15T14:10:20.000Z',
+      last_error: null,
+    });
+
+    await runDueReconciliationJobs(logger);
+    const retry = fakes.storage.reconciliationJobRows.at(-1)!;
+    assert.equal(retry.status, 'PENDING');
+    assert.equal(retry.attempt_count, 1);
+    assert.ok(Date.parse(retry.due_at) > Date.now());
+
+    fakes.storage.reconciliationJobRows.push({ ...retry, attempt_count: 2, due_at: retry.created_at });
+    await runDueReconciliationJobs(logger);
+    assert.equal(fakes.storage.reconciliationJobRows.at(-1)!.status, 'EXHAUSTED');
+    assert.equal(await runDueReconciliationJobs(logger), 0);
+  });
+
+  it('sweeps recent Keap payments that no hook delivered', async () => {
+    fakes.keap.recentTransactions = [
+      { id: 9001, transaction_date: new Date(Date.now() - 10 * 60 * 1000).toISOString() },
+      { id: 9002, transaction_date: new Date().toISOString() },
+    ];
+
+    assert.deepEqual(await sweepRecentKeapPayments(logger), [9001]);
+    await settle();
+    assert.equal(fakes.meta.sent[0].events[0].event_id, 'purchase_txn_9001');
+
+    // Already processed (webhook log) — not picked up again
+    assert.deepEqual(await sweepRecentKeapPayments(logger), []);
+    assert.equal(fakes.keap.callsTo('getTransaction').length, 1);
+  });
+
+  it('logs a payment with no brand so the sweep picks it up only once', async () => {
+    fakes.keap.addContact({ id: 502, email: 'nobrand@example.com', given_name: 'No', family_name: 'Brand' });
+    fakes.keap.transactions.set(9004, {
+      id: 9004,
+      contact_id: 502,
+      amount: 10,
+      currency: 'USD',
+      gateway_account_name: 'Other-Gateway',
+      transaction_date: new Date(Date.now() - 10 * 60 * 1000).toISOString(),
+    });
+    fakes.keap.recentTransactions = [{ id: 9004, transaction_date: fakes.keap.transactions.get(9004)!.transaction_date }];
+
+    assert.deepEqual(await sweepRecentKeapPayments(logger), [9004]);
+    await settle();
+    assert.equal(fakes.meta.sent.length, 0);
+    assert.equal(fakes.storage.webhookLogs[0].classification_note, 'no_brand');
+
+    assert.deepEqual(await sweepRecentKeapPayments(logger), []);
+    assert.equal(fakes.keap.callsTo('getTransaction').length, 1);
+  });
+
+  describe('generic /webhooks/keap/:eventKey router', () => {
+    const deliverTo = (eventKey: string, payload: unknown, headers: Record<string, string> = keapHookHeaders) =>
+      app.inject({
+        method: 'POST',
+        url: `/webhooks/keap/${eventKey}`,
+        payload: payload as Record<string, unknown>,
+        headers,
+      });
+
+    it('echoes X-Hook-Secret for any event key without dispatching', async () => {
+      await openKeapHookHandshake('https://api.test/webhooks/keap/order.add');
+      const res = await deliverTo('order.add', {}, { 'x-hook-secret': 'order-secret' });
+
+      assert.equal(res.statusCode, 200);
+      assert.equal(res.headers['x-hook-secret'], 'order-secret');
+      assert.equal(fakes.storage.hookEvents.length, 0);
+      assert.equal(fakes.keap.calls.length, 0);
+    });
+
+    it('persists the object_keys, then dispatches to the registered handler', async () => {
+      const res = await deliverTo('invoice.payment.add', keapPaymentHook([9001]));
+      await settle();
+
+      assert.equal(res.statusCode, 200);
+      const [event] = fakes.storage.hookEvents;
+      assert.equal(event.event_key, 'invoice.payment.add');
+      assert.equal(event.route_key, 'invoice.payment.add');
+      assert.equal(event.object_count, 1);
+      assert.equal(JSON.parse(event.object_keys_json)[0].id, 9001);
+      assert.equal(fakes.meta.sent[0].events[0].event_id, 'purchase_txn_9001');
+    });
+
+    it('returns 404 for event keys that are not required hooks with a handler', async () => {
+      for (const eventKey of ['contact.add', 'zzz']) {
+        fakes.storage.addKeapHookSecret(`/webhooks/keap/${eventKey}`, KEAP_HOOK_SECRET);
+        const res = await deliverTo(eventKey, { event_key: eventKey, object_keys: [{ id: 5 }] });
+        assert.equal(res.statusCode, 404, eventKey);
+      }
+
+      assert.equal(fakes.storage.hookEvents.length, 0);
+      assert.equal(fakes.keap.calls.length, 0);
+    });
+
+    it('dispatches on the hook URL and returns 400 when the body names another event', async () => {
+      const res = await deliverTo('order.add', { ...keapPaymentHook([9001]), event_key: 'invoice.payment.add' });
+      const legacy = await deliver({ ...keapPaymentHook([9001]), event_key: 'order.add' });
+      await settle();
+
+      assert.equal(res.statusCode, 400);
+      assert.equal(legacy.statusCode, 400);
+      assert.equal(fakes.storage.hookEvents.length, 0);
+      assert.equal(fakes.keap.calls.length, 0);
+      assert.equal(fakes.meta.sent.length, 0);
+
+      const routed = await deliverTo('invoice.payment.add', { object_keys: keapPaymentHook([9001]).object_keys });
+      await settle();
+      assert.equal(routed.statusCode, 200);
+      assert.equal(fakes.storage.hookEvents[0].event_key, 'invoice.payment.add');
+      assert.equal(fakes.meta.sent[0].events[0].event_id, 'purchase_txn_9001');
+    });
+
+    it('replays a persisted event through the admin endpoint', async () => {
+      // Transaction isn't in Keap yet on the first delivery
+      await deliverTo('invoice.payment.add', keapPaymentHook([9003]));
+      await settle();
+      assert.equal(fakes.meta.sent.length, 0);
+
+      fakes.keap.transactions.set(9003, {
+        ...fakes.keap.transactions.get(9001),
+        id: 9003,
+        order_ids: '7003',
+      });
+      fakes.keap.orders.set(7003, { ...fakes.keap.orders.get(7001), id: 7003 });
+      const eventId = fakes.storage.hookEvents[0].event_id;
+      const res = await app.inject({
+        method: 'POST',
+        url: `/admin/keap-hook-events/${eventId}/replay`,
+        headers: adminHeaders,
+      });
+      await settle();
+
+      assert.equal(res.statusCode, 200);
+      assert.deepEqual(res.json(), {
+        replayed: true,
+        eventKey: 'invoice.payment.add',
+        objectCount: 1,
+      });
+      assert.equal(fakes.meta.sent[0].events[0].event_id, 'purchase_txn_9003');
+
+      const missing = await app.inject({
+        method: 'POST',
+        url: '/admin/keap-hook-events/nope/replay',
+        headers: adminHeaders,
+      });
+      assert.equal(missing.statusCode, 404);
+    });
+  });
+
+  describe('subscription and order lifecycle events', () => {
+    const deliverEvent = (eventKey: string, id: number) =>
+      app.inject({
+        method: 'POST',
+        url: `/webhooks/keap/${eventKey}`,
+        payload: { ...keapPaymentHook([id]), event_key: eventKey },
+        headers: keapHookHeaders,
+      });
+
+    it('sets the product START_DATE on subscription.add', async () => {
+      fakes.keap.subscriptions.set(301, {
+        id: 301,
+        contact_id: 501,
+        product_id: 42,
+        active: true,
+        start_date: '2026-01-15T10:00:00.000Z',
+      });
+
+      const res = await deliverEvent('subscription.add', 301);
+      await settle();
+
+      assert.equal(res.statusCode, 200);
+      assert.deepEqual(fakes.keap.customFieldValues.get(501), {
+        HRYW_HTH_START_DATE: '2026-01-15',
+      });
+      const [event] = fakes.storage.lifecycleEvents;
+      assert.equal(event.status, 'PROCESSED');
+      assert.equal(event.brand, 'hryw');
+      assert.equal(event.product_code, 'hth');
+      assert.deepEqual(event.fields_updated, ['HRYW_HTH_START_DATE']);
+    });
+
+    it('sets the CANCEL_DATE when an edit leaves the subscription inactive', async () => {
+      fakes.keap.subscriptions.set(302, {
+        id: 302,
+        contact_id: 501,
+        product_id: 77,
+        active: false,
+        end_date: '2026-02-01',
+      });
+
+      await deliverEvent('subscription.edit', 302);
+      await settle();
+
+      assert.deepEqual(fakes.keap.customFieldValues.get(501), { FLO_MI_CANCEL_DATE: '2026-02-01' });
+    });
+
+    it('logs unmapped subscription products as SKIPPED with the contact brand', async () => {
+      fakes.keap.tagNames.set('HRYW-Customer', 110);
+      fakes.keap.contactTags.set(501, new Set([110]));
+      fakes.keap.subscriptions.set(303, {
+        id: 303,
+        contact_id: 501,
+        product_id: 999,
+        active: true,
+      });
+
+      await deliverEvent('subscription.add', 303);
+      await settle();
+
+      assert.equal(fakes.keap.customFieldValues.size, 0);
+      const [event] = fakes.storage.lifecycleEvents;
+      assert.deepEqual(
+        [event.status, event.note, event.brand, event.product_id, event.product_code],
+        ['SKIPPED', 'unmapped_product', 'hryw', 999, null]
+      );
+    });
+
+    it('keeps FIRST_PURCHASE_DATE and moves LAST_PURCHASE_DATE forward on order.add', async () => {
+      fakes.keap.customFieldValues.set(501, {
+        FIRST_PURCHASE_DATE: '2025-03-01',
+        LAST_PURCHASE_DATE: '2025-03-01',
+      });
+      fakes.keap.orders.set(7002, {
+        id: 7002,
+        contact: { id: 501 },
+        order_date: '2026-01-15T14:10:03.000Z',
+        order_items: [{ id: 1, name: 'Heal Thy Heart', product: { id: 42 } }],
+      });
+
+      await deliverEvent('order.add', 7002);
+      await settle();
+
+      assert.deepEqual(fakes.keap.customFieldValues.get(501), {
+        FIRST_PURCHASE_DATE: '2025-03-01',
+        LAST_PURCHASE_DATE: '2026-01-15',
+        FIRST_PURCHASE_DATE_HRYW: '2026-01-15',
+        LAST_PURCHASE_DATE_HRYW: '2026-01-15',
+      });
+      assert.equal(fakes.storage.lifecycleEvents[0].event_key, 'order.add');
+      assert.equal(fakes.meta.sent.length, 0);
+    });
+  });
+});
+
+describe('Keap hook monitor admin endpoints', () => {
+  let app: FastifyInstance;
+  let fakes: Fakes;
+
+  before(async () => {
+    app = await buildApp();
+  });
+
+  after(async () => {
+    await app.close();
+  });
+
+  beforeEach(() => {
+    fakes = installFakes();
+    fakes.keap.hooks = [
+      {
+        key: '169',
+        eventKey: 'invoice.payment.add',
+        hookUrl: 'https://api.test/webhooks/keap/invoice-payment',
+        status: 'Verified',
+      },
+      {
+        key: '170',
+        eventKey: 'subscription.add',
+        hookUrl: 'https://api.test/webhooks/keap/subscription.add',
+        status: 'Inactive',
+      },
+      {
+        key: '171',
+        eventKey: 'contact.add',
+        hookUrl: 'https://other.test/contacts',
+        status: 'Verified',
+      },
+    ];
+    fakes.storage.addKeapHookSecret('/webhooks/keap/invoice-payment', KEAP_HOOK_SECRET);
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it('shows desired and actual hook state without changing anything', async () => {
+    const res = await app.inject({
+      method: 'GET',
+      url: '/admin/keap-hooks/status',
+      headers: adminHeaders,
+    });
+
+    assert.equal(res.statusCode, 200);
+    const body = res.json();
+    const states = Object.fromEntries(
+      body.hooks.map((h: { eventKey: string; state: string }) => [h.eventKey, h.state])
+    );
+    assert.deepEqual(states, {
+      'invoice.payment.add': 'ok',
+      'subscription.add': 'not_verified',
+      'subscription.edit': 'missing',
+      'subscription.delete': 'missing',
+      'order.add': 'missing',
+    });
+    assert.deepEqual(
+      body.unmanaged.map((h: { key: string }) => h.key),
+      ['171']
+    );
+    assert.equal(fakes.keap.callsTo('createHook').length, 0);
+    assert.equal(fakes.keap.callsTo('verifyHook').length, 0);
+  });
+
+  it('re-verifies inactive hooks and creates missing ones on check', async () => {
+    const res = await app.inject({
+      method: 'POST',
+      url: '/admin/keap-hooks/check',
+      headers: adminHeaders,
+    });
+
+    assert.equal(res.statusCode, 200);
+    const actions = Object.fromEntries(
+      res.json().hooks.map((h: { eventKey: string; action: string }) => [h.eventKey, h.action])
+    );
+    assert.deepEqual(actions, {
+      'invoice.payment.add': 'none',
+      'subscription.add': 'verified',
+      'subscription.edit': 'created',
+      'subscription.delete': 'created',
+      'order.add': 'created',
+    });
+    assert.deepEqual(fakes.keap.callsTo('verifyHook'), [[170]]);
+    assert.equal(fakes.keap.hooks.length, 6);
+    assert.ok(fakes.keap.hooks.every((h) => h.status === 'Verified'));
+  });
+
+  it('re-verifies a Verified hook whose secret was never stored', async () => {
+    fakes.storage.hookSecrets = [];
+
+    const status = await app.inject({ method: 'GET', url: '/admin/keap-hooks/status', headers: adminHeaders });
+    assert.equal(status.json().hooks[0].state, 'no_secret');
+
+    const res = await app.inject({ method: 'POST', url: '/admin/keap-hooks/check', headers: adminHeaders });
+    assert.equal(res.json().hooks[0].action, 'verified');
+    assert.deepEqual(fakes.keap.callsTo('verifyHook'), [[169], [170]]);
+    // The handshake Keap sends next is accepted for the hook's path
+    const window = fakes.storage.hookSecrets.find((r) => r.hook_path === '/webhooks/keap/invoice-payment');
+    assert.equal(window?.secret_hash, null);
+  });
+
+  it('recreates a hook Keap will not re-verify and reports hooks that stay unverified', async () => {
+    fakes.keap.hookVerifyStatus = 'Unverified';
+
+    const res = await app.inject({
+      method: 'POST',
+      url: '/admin/keap-hooks/check',
+      headers: adminHeaders,
+    });
+
+    const subscriptionAdd = res
+      .json()
+      .hooks.find((h: { eventKey: string }) => h.eventKey === 'subscription.add');
+    assert.equal(subscriptionAdd.action, 'failed');
+    assert.equal(subscriptionAdd.error, 'Hook status after recreated: Unverified');
+    const orderAdd = res.json().hooks.find((h: { eventKey: string }) => h.eventKey === 'order.add');
+    assert.equal(orderAdd.error, 'Hook status after created: Unverified');
+    assert.deepEqual(fakes.keap.callsTo('deleteHook'), [[170]]);
+    assert.ok(!fakes.keap.hooks.some((h) => h.key === '170'));
+  });
+
+  it('returns 502 when Keap is unreachable and 401 without the API key', async () => {
+    fakes.keap.failWith = new Error('Keap down');
+    const res = await app.inject({
+      method: 'POST',
+      url: '/admin/keap-hooks/check',
+      headers: adminHeaders,
+    });
+    assert.equal(res.statusCode, 502);
+    assert.equal(res.json().error, 'Keap down');
+
+    const unauth = await app.inject({ method: 'GET', url: '/admin/keap-hooks/status' });
+    assert.equal(unauth.statusCode, 401);
+  });
+
+  it('refuses the website subscribe key on hook admin endpoints', async () => {
+    const res = await app.inject({
+      method: 'DELETE',
+      url: '/admin/keap-hooks/169',
+      headers: subscribeHeaders,
+    });
+
+    assert.equal(res.statusCode, 403);
+    assert.match(res.json().error, /legacy-subscribe lacks scope admin:hooks/);
+    assert.equal(fakes.keap.callsTo('deleteHook').length, 0);
+
+    const wrongKey = await app.inject({
+      method: 'DELETE',
+      url: '/admin/keap-hooks/169',
+      headers: { 'x-api-key': 'test-admin-keyX' },
+    });
+    assert.equal(wrongKey.statusCode, 401);
+  });
+});
@@ -0,0 +1,342 @@
+import './helpers/env.js';
+import { describe, it, before, after, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import type { FastifyInstance } from 'fastify';
+import { buildApp } from '../src/app.js';
+import { replayDueMetaEvents, parseFailedEventIndex } from '../src/services/metaQueue.js';
+import { installFakes, type Fakes } from './helpers/fakes.js';
+import { adminHeaders } from './helpers/fixtures.js';
+import type { MetaQueueRecord, MetaSendResult } from '../src/types/index.js';
+
+const PIXEL_A = '1000000000000001';
+const PIXEL_B = '1000000000000002';
+
+/**
+ * A FAILED queue row that is due for replay.
+ */
+function dueRow(eventId: string, pixelId: string = PIXEL_A): MetaQueueRecord {
+  const past = new Date(Date.now() - 60000).toISOString();
+  return {
+    created_at: past,
+    updated_at: past,
+    queue_id: `q-${eventId}`,
+    source: 'purchase',
+    brand: pixelId === PIXEL_A ? 'hryw' : 'flo',
+    event_name: 'Purchase',
+    email: null,
+    email_hash: null,
+    keap_contact_id: null,
+    order_id: null,
+    event_id: eventId,
+    pixel_id: pixelId,
+    event_time: 1768514000,
+    action_source: 'website',
+    event_source_url: null,
+    capi_payload_json: JSON.stringify([{ event_name: 'Purchase', event_id: eventId }]),
+    status: 'FAILED',
+    attempt_count: 1,
+    next_attempt_at: past,
+    last_http_status: 503,
+    last_error_message: 'Service Unavailable',
+    last_response_json: null,
+    last_latency_ms: 10,
+  };
+}
+
+function rejected(httpStatus: number, error: Record<string, unknown>): MetaSendResult {
+  return {
+    success: false,
+    httpStatus,
+    responseJson: JSON.stringify({ error }),
+    latencyMs: 1,
+    error: `Request failed with status code ${httpStatus}`,
+  };
+}
+
+describe('Meta CAPI replay worker', () => {
+  let fakes: Fakes;
+
+  beforeEach(() => {
+    fakes = installFakes();
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  const latestStatus = () => {
+    const latest = new Map<string, string>();
+    for (const row of fakes.storage.metaQueueRows) latest.set(row.event_id!, row.status);
+    return Object.fromEntries(latest);
+  };
+
+  it('sends due events in one request per pixel and records each queue_id', async () => {
+    fakes.storage.metaQueueRows.push(dueRow('a1'), dueRow('b1', PIXEL_B), dueRow('a2'));
+
+    const result = await replayDueMetaEvents(50);
+
+    assert.deepEqual(result, { processed: 3, sent: 3, failed: 0 });
+    assert.deepEqual(
+      fakes.meta.sent.map((s) => [s.pixelId, s.events.map((e) => e.event_id)]),
+      [
+        [PIXEL_A, ['a1', 'a2']],
+        [PIXEL_B, ['b1']],
+      ]
+    );
+    assert.deepEqual(latestStatus(), { a1: 'SENT', b1: 'SENT', a2: 'SENT' });
+    assert.equal(fakes.storage.metaQueueRows.at(-1)!.attempt_count, 2);
+  });
+
+  it('fails only the event Meta names and re-sends the rest of the batch', async () => {
+    fakes.storage.metaQueueRows.push(dueRow('a1'), dueRow('a2'), dueRow('a3'));
+    fakes.meta.respond = (events) =>
+      events.some((e) => e.event_id === 'a2')
+        ? rejected(400, {
+            message: 'Invalid parameter',
+            error_data: { event_index: events.findIndex((e) => e.event_id === 'a2') },
+          })
+        : null;
+
+    const result = await replayDueMetaEvents(50);
+
+    assert.deepEqual(result, { processed: 3, sent: 2, failed: 1 });
+    assert.equal(fakes.meta.sent.length, 2);
+    assert.deepEqual(latestStatus(), { a1: 'SENT', a2: 'FAILED', a3: 'SENT' });
+    const failedRow = fakes.storage.metaQueueRows.find(
+      (r) => r.event_id === 'a2' && r.status === 'FAILED' && r.attempt_count === 2
+    )!;
+    assert.match(failedRow.last_response_json!, /event_index/);
+  });
+
+  it('isolates a rejected event by splitting the batch when Meta names no index', async () => {
+    fakes.storage.metaQueueRows.push(dueRow('a1'), dueRow('a2'), dueRow('a3'), dueRow('a4'));
+    fakes.meta.respond = (events) =>
+      events.some((e) => e.event_id === 'a3')
+        ? rejected(400, { message: 'Invalid parameter' })
+        : null;
+
+    const result = await replayDueMetaEvents(50);
+
+    assert.deepEqual(result, { processed: 4, sent: 3, failed: 1 });
+    assert.deepEqual(latestStatus(), { a1: 'SENT', a2: 'SENT', a3: 'FAILED', a4: 'SENT' });
+  });
+
+  it('fails the whole batch on a transient error without splitting it', async () => {
+    fakes.storage.metaQueueRows.push(dueRow('a1'), dueRow('a2'));
+    fakes.meta.nextResult = rejected(503, { message: 'Service temporarily unavailable' });
+
+    const result = await replayDueMetaEvents(50);
+
+    assert.deepEqual(result, { processed: 2, sent: 0, failed: 2 });
+    assert.equal(fakes.meta.sent.length, 1);
+    assert.deepEqual(latestStatus(), { a1: 'FAILED', a2: 'FAILED' });
+  });
+
+  it('fails the whole batch once on an expired token or unknown pixel', async () => {
+    const rows = Array.from({ length: 8 }, (_, i) => dueRow(`a${i}`));
+    fakes.storage.metaQueueRows.push(...rows);
+    fakes.meta.nextResult = rejected(400, {
+      message: 'Error validating access token: Session has expired',
+      type: 'OAuthException',
+      code: 190,
+    });
+
+    assert.deepEqual(await replayDueMetaEvents(50), { processed: 8, sent: 0, failed: 8 });
+    assert.equal(fakes.meta.sent.length, 1);
+
+    fakes.storage.metaQueueRows.push(dueRow('b1'), dueRow('b2'));
+    fakes.meta.nextResult = rejected(400, {
+      message: `Unsupported post request. Object with ID '${PIXEL_A}' does not exist`,
+      code: 100,
+      error_subcode: 33,
+    });
+    assert.deepEqual(await replayDueMetaEvents(50), { processed: 2, sent: 0, failed: 2 });
+    assert.equal(fakes.meta.sent.length, 2);
+  });
+
+  it('skips events another instance holds a lease on and takes over expired leases', async () => {
+    const a1 = dueRow('a1');
+    fakes.storage.metaQueueRows.push(a1, dueRow('a2'));
+    const key = `meta:q-a1:${a1.updated_at}`;
+    fakes.storage.leases.set(key, {
+      lease_key: key,
+      owner: 'other-instance',
+      created_at: a1.updated_at,
+      acquired_at: a1.updated_at,
+      expires_at: new Date(Date.now() + 60000).toISOString(),
+      released_at: null,
+    });
+
+    assert.deepEqual(await replayDueMetaEvents(50), { processed: 1, sent: 1, failed: 0 });
+    assert.deepEqual(latestStatus(), { a1: 'FAILED', a2: 'SENT' });
+
+    // The other instance died mid-send: once its lease expires the event is replayed here
+    fakes.storage.leases.get(key)!.expires_at = new Date(Date.now() - 1000).toISOString();
+    assert.deepEqual(await replayDueMetaEvents(50), { processed: 1, sent: 1, failed: 0 });
+    assert.deepEqual(latestStatus(), { a1: 'SENT', a2: 'SENT' });
+    assert.ok([...fakes.storage.leases.values()].every((l) => l.released_at));
+  });
+
+  it('reads the rejected event index from error_data or the message', () => {
+    assert.equal(
+      parseFailedEventIndex(JSON.stringify({ error: { error_data: '{"event_index":4}' } })),
+      4
+    );
+    assert.equal(
+      parseFailedEventIndex(
+        JSON.stringify({ error: { error_user_msg: 'Invalid value in events[12].user_data' } })
+      ),
+      12
+    );
+    assert.equal(
+      parseFailedEventIndex(JSON.stringify({ error: { message: 'Invalid parameter' } })),
+      null
+    );
+    assert.equal(parseFailedEventIndex(undefined), null);
+  });
+});
+
+describe('Meta queue admin endpoints', () => {
+  let app: FastifyInstance;
+  let fakes: Fakes;
+
+  before(async () => {
+    app = await buildApp();
+  });
+
+  after(async () => {
+    await app.close();
+  });
+
+  beforeEach(() => {
+    fakes = installFakes();
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it('requires the admin API key', async () => {
+    const res = await app.inject({ method: 'GET', url: '/admin/meta-queue' });
+    assert.equal(res.statusCode, 401);
+  });
+
+  it('lists the latest state per event filtered by status and brand', async () => {
+    const sent = { ...dueRow('a1'), status: 'SENT' as const, attempt_count: 2 };
+    fakes.storage.metaQueueRows.push(dueRow('a1'), sent, dueRow('a2'), dueRow('b1', PIXEL_B));
+
+    const res = await app.inject({
+      method: 'GET',
+      url: '/admin/meta-queue?status=failed&brand=hryw',
+      headers: adminHeaders,
+    });
+
+    assert.equal(res.statusCode, 200);
+    assert.deepEqual(
+      res.json().events.map((e: MetaQueueRecord) => e.queue_id),
+      ['q-a2']
+    );
+  });
+
+  it('returns the full attempt history of one event', async () => {
+    const dead = { ...dueRow('a1'), status: 'DEAD' as const, attempt_count: 8 };
+    fakes.storage.metaQueueRows.push(dueRow('a1'), dead);
+
+    const res = await app.inject({
+      method: 'GET',
+      url: '/admin/meta-queue/q-a1',
+      headers: adminHeaders,
+    });
+    assert.equal(res.statusCode, 200);
+    assert.equal(res.json().status, 'DEAD');
+    assert.deepEqual(
+      res.json().history.map((r: MetaQueueRecord) => r.status),
+      ['FAILED', 'DEAD']
+    );
+
+    const missing = await app.inject({
+      method: 'GET',
+      url: '/admin/meta-queue/q-nope',
+      headers: adminHeaders,
+    });
+    assert.equal(missing.statusCode, 404);
+  });
+
+  it('force-retries a DEAD event with an edited payload and pixel', async () => {
+    fakes.storage.metaQueueRows.push({ ...dueRow('a1'), status: 'DEAD', attempt_count: 8 });
+
+    const res = await app.inject({
+      method: 'POST',
+      url: '/admin/meta-queue/q-a1/retry',
+      headers: adminHeaders,
+      payload: { pixelId: PIXEL_B, payload: { event_name: 'Purchase', event_id: 'a1', value: 19 } },
+    });
+
+    assert.equal(res.statusCode, 200);
+    assert.equal(res.json().status, 'SENT');
+    assert.equal(fakes.meta.sent.length, 1);
+    assert.equal(fakes.meta.sent[0].pixelId, PIXEL_B);
+    assert.equal(fakes.meta.sent[0].events[0].value, 19);
+    const rows = fakes.storage.metaQueueRows;
+    assert.deepEqual(
+      rows.map((r) => [r.status, r.attempt_count]),
+      [
+        ['DEAD', 8],
+        ['PENDING', 0],
+        ['SENT', 1],
+      ]
+    );
+    assert.equal(rows.at(-1)!.pixel_id, PIXEL_B);
+  });
+
+  it('refuses to retry an event that was already sent', async () => {
+    fakes.storage.metaQueueRows.push({ ...dueRow('a1'), status: 'SENT' });
+
+    const res = await app.inject({
+      method: 'POST',
+      url: '/admin/meta-queue/q-a1/retry',
+      headers: adminHeaders,
+    });
+
+    assert.equal(res.statusCode, 409);
+    assert.equal(fakes.meta.sent.length, 0);
+  });
+
+  it('bulk-requeues events that failed in a time window', async () => {
+    const old = new Date(Date.now() - 3 * 86400000).toISOString();
+    fakes.storage.metaQueueRows.push(
+      { ...dueRow('a1'), status: 'DEAD' },
+      dueRow('a2'),
+      { ...dueRow('a3'), updated_at: old },
+      { ...dueRow('a4'), status: 'SENT' }
+    );
+    const window = {
+      from: new Date(Date.now() - 86400000).toISOString(),
+      to: new Date().toISOString(),
+    };
+
+    const dryRun = await app.inject({
+      method: 'POST',
+      url: '/admin/meta-queue/requeue',
+      headers: adminHeaders,
+      payload: { ...window, dryRun: true },
+    });
+    assert.equal(dryRun.json().requeued, 0);
+    assert.deepEqual(dryRun.json().queueIds.sort(), ['q-a1', 'q-a2']);
+    assert.equal(fakes.storage.metaQueueRows.length, 4);
+
+    const res = await app.inject({
+      method: 'POST',
+      url: '/admin/meta-queue/requeue',
+      headers: adminHeaders,
+      payload: window,
+    });
+    assert.equal(res.statusCode, 200);
+    assert.equal(res.json().requeued, 2);
+    const requeued = fakes.storage.metaQueueRows.slice(4);
+    assert.deepEqual(requeued.map((r) => [r.queue_id, r.status, r.attempt_count]).sort(), [
+      ['q-a1', 'PENDING', 0],
+      ['q-a2', 'PENDING', 0],
+    ]);
+  });
+});
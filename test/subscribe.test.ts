@@ -0,0 +1,123 @@
+import './helpers/env.js';
+import { describe, it, before, after, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import type { FastifyInstance } from 'fastify';
+import { buildApp } from '../src/app.js';
+import { installFakes, settle, type Fakes } from './helpers/fakes.js';
+import { botSubscribeBody, subscribeBody, subscribeHeaders } from './helpers/fixtures.js';
+import { TEST_FLO_API_KEY } from './helpers/env.js';
+
+describe('POST /subscribe', () => {
+  let app: FastifyInstance;
+  let fakes: Fakes;
+
+  before(async () => {
+    app = await buildApp();
+  });
+
+  after(async () => {
+    await app.close();
+  });
+
+  beforeEach(() => {
+    fakes = installFakes();
+    fakes.keap.tagNames.set('HRYW-WebSub', 101);
+    fakes.keap.tagNames.set('HRYW-Clickbank-Lead', 102);
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  const subscribe = (body: Record<string, unknown>, headers: Record<string, string> = subscribeHeaders) =>
+    app.inject({ method: 'POST', url: '/subscribe', payload: body, headers });
+
+  it('rejects requests without the API key', async () => {
+    const res = await subscribe(subscribeBody(), {});
+    assert.equal(res.statusCode, 401);
+    assert.equal(fakes.storage.subscribers.length, 0);
+  });
+
+  it("accepts a brand site's key only for its own brand", async () => {
+    const floHeaders = { 'x-api-key': TEST_FLO_API_KEY };
+
+    const other = await subscribe(subscribeBody(), floHeaders);
+    assert.equal(other.statusCode, 403);
+    assert.deepEqual(other.json(), { success: false, error: 'API key not allowed for brand: hryw' });
+    assert.equal(fakes.storage.subscribers.length, 0);
+
+    const own = await subscribe(subscribeBody({ brand: 'flo', tag: 'FLO-WebSub', customFields: {} }), floHeaders);
+    assert.equal(own.statusCode, 200);
+    assert.equal(fakes.storage.subscribers.length, 1);
+  });
+
+  it('queues the subscriber, runs the Keap steps and sends a Subscribe event', async () => {
+    const res = await subscribe(subscribeBody({ tag: 'HRYW-WebSub|HRYW-Clickbank-Lead' }));
+    await settle();
+
+    assert.equal(res.statusCode, 200);
+    assert.deepEqual(res.json(), { success: true });
+
+    const [queued] = fakes.storage.subscribers;
+    assert.equal(queued.email, 'sam@example.com');
+    assert.equal(queued.brand, 'HRYW');
+    assert.equal(queued.dp_source_id, 'homepage-popup');
+
+    const contact = await fakes.keap.findContactByEmail('sam@example.com');
+    assert.ok(contact);
+    assert.deepEqual(fakes.keap.tagsFor(contact.id), [101, 102]);
+    assert.deepEqual(fakes.keap.optIns, ['sam@example.com']);
+
+    const [result] = fakes.storage.subscriberResults;
+    assert.equal(result.status, 'SUCCESS');
+    assert.equal(result.attempt_count, 1);
+
+    assert.equal(fakes.storage.trackingContexts[0].fbp, 'fb.1.1700000000.123');
+    const [sent] = fakes.meta.sent;
+    assert.equal(sent.pixelId, process.env.META_PIXEL_ID_HRYW);
+    assert.equal(sent.events[0].event_name, 'Subscribe');
+    assert.equal(sent.events[0].event_id, 'evt-sub-1');
+  });
+
+  it("applies the brand's registry signup tags when the form sends no tag", async () => {
+    const res = await subscribe(subscribeBody({ tag: undefined }));
+    await settle();
+
+    assert.equal(res.statusCode, 200);
+    assert.equal(fakes.storage.subscribers[0].tag_name, 'HRYW-WebSub');
+    const contact = await fakes.keap.findContactByEmail('sam@example.com');
+    assert.ok(contact);
+    assert.deepEqual(fakes.keap.tagsFor(contact.id), [101]);
+  });
+
+  it('rejects brands missing from the registry', async () => {
+    const res = await subscribe(subscribeBody({ brand: 'nope' }));
+    assert.equal(res.statusCode, 400);
+    assert.equal(fakes.storage.subscribers.length, 0);
+  });
+
+  it('silently drops bot submissions', async () => {
+    const res = await subscribe(botSubscribeBody());
+    await settle();
+
+    assert.equal(res.statusCode, 200);
+    assert.deepEqual(res.json(), { success: true });
+    assert.equal(fakes.storage.subscribers.length, 0);
+    assert.equal(fakes.keap.calls.length, 0);
+    assert.equal(fakes.meta.sent.length, 0);
+  });
+
+  it('records a FAILED attempt with a retry time when Keap is down', async () => {
+    fakes.keap.failWith = new Error('Keap 503');
+
+    const res = await subscribe(subscribeBody());
+    await settle();
+
+    assert.equal(res.statusCode, 200);
+    assert.equal(fakes.storage.subscribers.length, 1);
+    const [result] = fakes.storage.subscriberResults;
+    assert.equal(result.status, 'FAILED');
+    assert.equal(result.processing_error, 'Keap 503');
+    assert.ok(result.next_attempt_at && new Date(result.next_attempt_at) > new Date());
+  });
+});